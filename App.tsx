@@ -1,13 +1,20 @@
 
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
-import { LyricLine, GameStatus, GameStats, ItemType, SongMetadata, LoadedSongContext } from './types';
+import { LyricLine, GameStatus, GameStats, ItemType, SongMetadata, LoadedSongContext, LyricValidationIssue, LyricLanguage, RubySpawnMode, SpawnTokenMode, SeedMode, ReplayData, ReplayRecording, RendererMode, SimulationMode, GameCheckpoint, ControlBindings } from './types';
 import FileUploader from './components/FileUploader';
 import GameScreen from './components/GameScreen';
+import LyricEditor from './components/LyricEditor';
+import LatencyCalibration from './components/LatencyCalibration';
+import ControlsSettings from './components/ControlsSettings';
 import { BombIcon, DiagonalShotIcon, LaserIcon, OneUpIcon, SpeedUpIcon, SideShotIcon, CancellerShotIcon, RicochetShotIcon, PhaseShieldIcon } from './components/icons';
 import { upsertAppleHistoryEntry } from '@/services/appleHistory';
-
-const MIN_VIEWPORT_WIDTH = 1024;
-const MIN_VIEWPORT_HEIGHT = 720;
+import { validateLyrics, autoFixLyrics } from '@/services/lyricValidator';
+import { selectLyricLanguage, hasSecondaryLyrics, selectRubyReading, hasRubyAnnotations, countLineEnemies } from '@/services/lrcParser';
+import { hashLyricsSeed, parseSeed, randomSeed } from '@/services/seededRandom';
+import { parseReplay, serializeReplay, REPLAY_FILE_ACCEPT } from '@/services/replay';
+import { getCookie, setCookie } from '@/services/cookies';
+import { loadAudioOffset, saveAudioOffset } from '@/services/audioSyncClock';
+import { ACTION_LABELS, describeButtons, describeKeys, loadControlBindings, saveControlBindings } from '@/services/controlBindings';
 
 const sanitizeVersionPart = (value: string) => {
   if (!value) return '';
@@ -76,28 +83,46 @@ const InfoPanel = () => (
     </div>
 );
 
-const ControlsPanel = () => (
+const MOVEMENT_ACTIONS = ['up', 'down', 'left', 'right', 'focus'] as const;
+const OTHER_ACTIONS = ['fire', 'special', 'skip', 'pause', 'abort'] as const;
+
+// Shows whatever the player has bound, so it never goes stale after rebinding
+const ControlsPanel = ({ bindings, onConfigure }: { bindings: ControlBindings; onConfigure: () => void }) => (
     <div className="mt-6 max-w-2xl mx-auto p-4 bg-slate-800 bg-opacity-70 rounded-lg text-left">
         <h3 className="text-2xl font-orbitron text-cyan-400 mb-4 text-center">CONTROLS</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-white">
             <div>
                 <h4 className="font-bold text-lg mb-2 text-sky-300">MOVEMENT</h4>
                 <ul className="space-y-1">
-                    <li>↑/W - Move Up</li>
-                    <li>↓/S - Move Down</li>
-                    <li>←/A - Move Left</li>
-                    <li>→/D - Move Right</li>
+                    {MOVEMENT_ACTIONS.map(action => (
+                        <li key={action}>{describeKeys(bindings, action)} - {ACTION_LABELS[action]}</li>
+                    ))}
                 </ul>
             </div>
             <div>
                 <h4 className="font-bold text-lg mb-2 text-sky-300">ACTIONS</h4>
                 <ul className="space-y-1">
-                    <li>SPACE - Fire Main Weapon</li>
-                    <li>SHIFT/TAB - Activate Special Item</li>
-                    <li>BACKSPACE (1.5s) - Return to READY Screen</li>
+                    {OTHER_ACTIONS.map(action => (
+                        <li key={action}>{describeKeys(bindings, action)} - {ACTION_LABELS[action]}</li>
+                    ))}
+                </ul>
+            </div>
+            <div className="md:col-span-2">
+                <h4 className="font-bold text-lg mb-2 text-sky-300">GAMEPAD</h4>
+                <ul className="grid grid-cols-1 md:grid-cols-2 gap-x-4 gap-y-1">
+                    <li>Left Stick - Move</li>
+                    {[...MOVEMENT_ACTIONS, ...OTHER_ACTIONS].filter(action => bindings.gamepad[action].length > 0).map(action => (
+                        <li key={action}>{describeButtons(bindings, action)} - {ACTION_LABELS[action]}</li>
+                    ))}
                 </ul>
             </div>
         </div>
+        <button
+            onClick={onConfigure}
+            className="mt-4 block mx-auto px-4 py-2 bg-slate-700 text-sky-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+        >
+            Configure Controls
+        </button>
     </div>
 );
 
@@ -155,6 +180,68 @@ const DifficultyTabs = ({ mode, onChange }: { mode: DifficultyMode; onChange: (m
     );
 };
 
+interface LyricOptionToggleProps<T extends string> {
+    label: string;
+    value: T;
+    options: { id: T; label: string }[];
+    onChange: (value: T) => void;
+}
+
+const LyricOptionToggle = <T extends string>({ label, value, options, onChange }: LyricOptionToggleProps<T>) => (
+    <div className="mt-4 flex items-center justify-center gap-3 text-sm">
+        <span className="text-slate-300">{label}</span>
+        <div className="flex bg-slate-900 border border-slate-600 rounded-lg overflow-hidden">
+            {options.map(option => (
+                <button
+                    key={option.id}
+                    onClick={() => onChange(option.id)}
+                    className={`px-4 py-1.5 font-bold transition-colors ${
+                        option.id === value ? 'bg-slate-700 text-sky-300' : 'text-slate-400 hover:text-sky-200'
+                    }`}
+                >
+                    {option.label}
+                </button>
+            ))}
+        </div>
+    </div>
+);
+
+const LYRIC_LANGUAGE_OPTIONS: { id: LyricLanguage; label: string }[] = [
+    { id: 'original', label: 'Original' },
+    { id: 'secondary', label: 'Translation' }
+];
+
+const SPAWN_TOKEN_OPTIONS: { id: SpawnTokenMode; label: string }[] = [
+    { id: 'auto', label: 'Auto' },
+    { id: 'char', label: 'Characters' },
+    { id: 'word', label: 'Words' }
+];
+
+const RUBY_SPAWN_OPTIONS: { id: RubySpawnMode; label: string }[] = [
+    { id: 'base', label: 'Kanji' },
+    { id: 'reading', label: 'Reading (Kana)' }
+];
+
+const SEED_MODE_OPTIONS: { id: SeedMode; label: string }[] = [
+    { id: 'song', label: 'Same Every Play' },
+    { id: 'random', label: 'Random' },
+    { id: 'custom', label: 'Custom Seed' }
+];
+
+const RENDERER_OPTIONS: { id: RendererMode; label: string }[] = [
+    { id: 'canvas', label: 'Canvas' },
+    { id: 'dom', label: 'DOM' }
+];
+
+const RENDERER_COOKIE_KEY = 'LS_RENDERER';
+
+const SIMULATION_OPTIONS: { id: SimulationMode; label: string }[] = [
+    { id: 'main', label: 'Main Thread' },
+    { id: 'worker', label: 'Web Worker' }
+];
+
+const SIMULATION_COOKIE_KEY = 'LS_SIMULATION';
+
 const DIFFICULTY_DETAILS: Record<DifficultyMode, { title: string; bullets: string[] }> = {
     normal: {
         title: 'Normal Mode Specs',
@@ -243,6 +330,10 @@ const StatsPanel = ({ stats }: { stats: GameStats }) => {
             <div className="space-y-2 text-lg">
                 <p><strong>Final Score:</strong> <span className="float-right text-white font-bold">{stats.score}</span></p>
                 <p><strong>Enemies Defeated:</strong> <span className="float-right text-white font-bold">{stats.enemiesDefeated} / {stats.totalEnemies} ({defeatRate}%)</span></p>
+                <p><strong>Max Combo:</strong> <span className="float-right text-white font-bold">{stats.maxCombo}</span></p>
+                <p><strong>On-Beat Kills:</strong> <span className="float-right text-white font-bold">{stats.onBeatKills}</span></p>
+                <p><strong>Grazes:</strong> <span className="float-right text-white font-bold">{stats.grazes}</span></p>
+                <p><strong>Seed:</strong> <span className="float-right text-white font-mono">{stats.seed}</span></p>
                 <div>
                     <p className="font-bold mb-2">Items Collected:</p>
                     {collectedItems.length > 0 ? (
@@ -277,8 +368,46 @@ interface SongInfoProps {
     stats?: SongAnalysisStats | null;
     showRateChart?: boolean;
     onToggleRateChart?: () => void;
+    issues?: LyricValidationIssue[];
+    onAutoFix?: () => void;
 }
 
+const MAX_LISTED_ISSUES = 8;
+
+const LyricIssuesPanel = ({ issues, onAutoFix }: { issues: LyricValidationIssue[]; onAutoFix?: () => void }) => {
+    const fixableCount = issues.filter(issue => issue.fixable).length;
+    return (
+        <div className="mt-5 w-full max-w-xl text-left text-sm bg-amber-900/30 border border-amber-500/60 rounded-lg p-4">
+            <div className="flex items-center justify-between gap-3 mb-2">
+                <h4 className="font-orbitron text-amber-300 tracking-widest uppercase text-xs">
+                    Lyric Timing Warnings ({issues.length})
+                </h4>
+                {fixableCount > 0 && onAutoFix && (
+                    <button
+                        type="button"
+                        onClick={onAutoFix}
+                        className="px-3 py-1 rounded-md border border-amber-400 text-amber-200 text-xs font-bold hover:bg-amber-400/10 transition-colors"
+                    >
+                        Auto-Fix {fixableCount}
+                    </button>
+                )}
+            </div>
+            <ul className="space-y-1 font-mono text-xs text-amber-100">
+                {issues.slice(0, MAX_LISTED_ISSUES).map((issue, idx) => (
+                    <li key={idx} className="truncate">
+                        <span className={issue.fixable ? 'text-amber-300' : 'text-slate-400'}>{issue.fixable ? '●' : '○'}</span>{' '}
+                        {issue.message}
+                        {issue.text && <span className="text-slate-400"> — {issue.text}</span>}
+                    </li>
+                ))}
+            </ul>
+            {issues.length > MAX_LISTED_ISSUES && (
+                <p className="mt-1 text-xs text-amber-200/70">…and {issues.length - MAX_LISTED_ISSUES} more</p>
+            )}
+        </div>
+    );
+};
+
 const RateChart = ({ segments }: { segments: RateSegment[] }) => {
     if (!segments.length) return null;
     const count = segments.length;
@@ -445,7 +574,7 @@ const RateChart = ({ segments }: { segments: RateSegment[] }) => {
     );
 };
 
-const SongInfo = ({ metadata, stats, showRateChart = false, onToggleRateChart }: SongInfoProps) => {
+const SongInfo = ({ metadata, stats, showRateChart = false, onToggleRateChart, issues, onAutoFix }: SongInfoProps) => {
     const hasSegments = Boolean(stats?.segments?.length);
     return (
         <div className="flex flex-col items-center justify-center mb-8 p-4 bg-black bg-opacity-20 rounded-lg">
@@ -486,6 +615,9 @@ const SongInfo = ({ metadata, stats, showRateChart = false, onToggleRateChart }:
                     </div>
                 </div>
             )}
+            {issues && issues.length > 0 && (
+                <LyricIssuesPanel issues={issues} onAutoFix={onAutoFix} />
+            )}
             {showRateChart && hasSegments && stats && (
                 <RateChart segments={stats.segments} />
             )}
@@ -516,10 +648,6 @@ const ItemSelection = ({ onSelect }: { onSelect: (item: ItemType) => void }) =>
 };
 
 export default function App(): React.ReactNode {
-  const [isWindowLargeEnough, setIsWindowLargeEnough] = useState<boolean>(() => {
-    if (typeof window === 'undefined') return true;
-    return window.innerWidth >= MIN_VIEWPORT_WIDTH && window.innerHeight >= MIN_VIEWPORT_HEIGHT;
-  });
   const [gameStatus, setGameStatus] = useState<GameStatus>('loading');
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
   const [lyrics, setLyrics] = useState<LyricLine[] | null>(null);
@@ -530,9 +658,37 @@ export default function App(): React.ReactNode {
   const currentMode: DifficultyMode = isSuperHardMode ? 'superHard' : 'normal';
   const [showRateChart, setShowRateChart] = useState(false);
   const [historyVersion, setHistoryVersion] = useState(0);
+  const [audioDuration, setAudioDuration] = useState<number | null>(null);
+  const [lyricLanguage, setLyricLanguage] = useState<LyricLanguage>('original');
+  const [rubySpawnMode, setRubySpawnMode] = useState<RubySpawnMode>('base');
+  const [spawnTokenMode, setSpawnTokenMode] = useState<SpawnTokenMode>('auto');
+  const [seedMode, setSeedMode] = useState<SeedMode>('song');
+  const [customSeed, setCustomSeed] = useState('');
+  // Resolved when a run starts so a 'random' roll stays fixed for that run
+  const [gameSeed, setGameSeed] = useState(0);
+  // The last live run (offered for download) and the replay currently being watched, if any
+  const [lastReplay, setLastReplay] = useState<ReplayData | null>(null);
+  const [activeReplay, setActiveReplay] = useState<ReplayData | null>(null);
+  const [replayError, setReplayError] = useState<string | null>(null);
+  const [rendererMode, setRendererMode] = useState<RendererMode>(() => (getCookie(RENDERER_COOKIE_KEY) === 'dom' ? 'dom' : 'canvas'));
+  const [simulationMode, setSimulationMode] = useState<SimulationMode>(() => (getCookie(SIMULATION_COOKIE_KEY) === 'worker' ? 'worker' : 'main'));
+  const [audioOffsetMs, setAudioOffsetMs] = useState(loadAudioOffset);
+  const [controlBindings, setControlBindings] = useState<ControlBindings>(loadControlBindings);
+  // Bumped to remount GameScreen for a pause-menu restart
+  const [gameRunId, setGameRunId] = useState(0);
+  const [gameCheckpoint, setGameCheckpoint] = useState<GameCheckpoint | null>(null);
+  const hasSubtitles = useMemo(() => Boolean(lyrics && hasSecondaryLyrics(lyrics)), [lyrics]);
+  const hasRuby = useMemo(() => Boolean(lyrics && hasRubyAnnotations(lyrics)), [lyrics]);
+  // The lines the game actually spawns from; edits and validation stay on the loaded lyrics
+  const playLyrics = useMemo(() => {
+    if (!lyrics) return null;
+    const byLanguage = selectLyricLanguage(lyrics, lyricLanguage);
+    return rubySpawnMode === 'reading' ? selectRubyReading(byLanguage) : byLanguage;
+  }, [lyrics, lyricLanguage, rubySpawnMode]);
   const songStats = useMemo<SongAnalysisStats | null>(() => {
+    const lyrics = playLyrics;
     if (!lyrics || lyrics.length === 0) return null;
-    const totalEnemies = lyrics.reduce((acc, line) => acc + line.text.replace(/\s/g, '').length, 0);
+    const totalEnemies = lyrics.reduce((acc, line) => acc + countLineEnemies(line, spawnTokenMode), 0);
     if (totalEnemies === 0) {
       return {
         totalEnemies: 0,
@@ -552,7 +708,7 @@ export default function App(): React.ReactNode {
     const bucketCounts = Array(targetBuckets).fill(0);
 
     lyrics.forEach(line => {
-      const trimmedLen = line.text.replace(/\s/g, '').length;
+      const trimmedLen = countLineEnemies(line, spawnTokenMode);
       if (!trimmedLen) return;
       const relativeTime = line.time - minTime;
       const bucketIndex = Math.min(
@@ -575,7 +731,7 @@ export default function App(): React.ReactNode {
 
     const enemyRate = totalEnemies / paddedDuration;
     return { totalEnemies, enemyRate, durationSeconds: paddedDuration, segments };
-  }, [lyrics]);
+  }, [playLyrics, spawnTokenMode]);
 
   useEffect(() => {
     if (!songStats) {
@@ -583,39 +739,51 @@ export default function App(): React.ReactNode {
     }
   }, [songStats]);
 
+  useEffect(() => {
+    setCookie(RENDERER_COOKIE_KEY, rendererMode, 365);
+  }, [rendererMode]);
+
+  useEffect(() => {
+    setCookie(SIMULATION_COOKIE_KEY, simulationMode, 365);
+  }, [simulationMode]);
+
+  // Only the metadata is needed to check lyric times against the track length
+  useEffect(() => {
+    setAudioDuration(null);
+    if (!audioUrl) return;
+    const probe = new Audio();
+    probe.preload = 'metadata';
+    const handleLoaded = () => {
+      if (Number.isFinite(probe.duration)) setAudioDuration(probe.duration);
+    };
+    probe.addEventListener('loadedmetadata', handleLoaded);
+    probe.src = audioUrl;
+    return () => {
+      probe.removeEventListener('loadedmetadata', handleLoaded);
+      probe.removeAttribute('src');
+      probe.load();
+    };
+  }, [audioUrl]);
+
+  const lyricIssues = useMemo<LyricValidationIssue[]>(() => {
+    if (!lyrics) return [];
+    return validateLyrics(lyrics, audioDuration ?? undefined);
+  }, [lyrics, audioDuration]);
+
   const handleFilesLoaded = useCallback((audioUrl: string, lyrics: LyricLine[], metadata: SongMetadata, context?: LoadedSongContext) => {
     setAudioUrl(audioUrl);
     setLyrics(lyrics);
     setMetadata(metadata);
     setGameStatus('ready');
     setShowRateChart(false);
+    setLyricLanguage('original');
+    setRubySpawnMode('base');
     if (context?.appleHistory) {
       upsertAppleHistoryEntry(context.appleHistory);
       setHistoryVersion((prev) => prev + 1);
     }
   }, []);
 
-  useEffect(() => {
-    if (typeof window === 'undefined') return;
-    let rafId = 0;
-    const updateLayoutState = () => {
-      rafId = 0;
-      setIsWindowLargeEnough(window.innerWidth >= MIN_VIEWPORT_WIDTH && window.innerHeight >= MIN_VIEWPORT_HEIGHT);
-    };
-    const handleResize = () => {
-      if (rafId) cancelAnimationFrame(rafId);
-      rafId = requestAnimationFrame(updateLayoutState);
-    };
-    updateLayoutState();
-    window.addEventListener('resize', handleResize);
-    window.addEventListener('orientationchange', handleResize);
-    return () => {
-      if (rafId) cancelAnimationFrame(rafId);
-      window.removeEventListener('resize', handleResize);
-      window.removeEventListener('orientationchange', handleResize);
-    };
-  }, []);
-
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Tab') {
@@ -628,10 +796,14 @@ export default function App(): React.ReactNode {
   }, []);
 
   const handleGameStart = useCallback((item?: ItemType) => {
-    if (audioUrl && lyrics) {
+    if (audioUrl && lyrics && playLyrics) {
       if (isSuperHardMode && !item) {
         return;
       }
+      setActiveReplay(null);
+      setGameCheckpoint(null);
+      const songSeed = hashLyricsSeed(playLyrics);
+      setGameSeed(seedMode === 'random' ? randomSeed() : seedMode === 'custom' ? parseSeed(customSeed) ?? songSeed : songSeed);
       setGameStats(null);
       if (isSuperHardMode && item) {
         setInitialItem(item);
@@ -640,14 +812,72 @@ export default function App(): React.ReactNode {
       }
       setGameStatus('playing');
     }
-  }, [audioUrl, lyrics, isSuperHardMode]);
+  }, [audioUrl, lyrics, playLyrics, isSuperHardMode, seedMode, customSeed]);
 
-  const handleEndGame = useCallback((stats: GameStats, status: 'cleared' | 'gameOver') => {
+  const handleEndGame = useCallback((stats: GameStats, status: 'cleared' | 'gameOver', recording?: ReplayRecording) => {
+    if (recording) {
+      setLastReplay({ ...recording, songTitle: metadata?.title, lyricLanguage, rubySpawnMode });
+    }
     setGameStats(stats);
     setGameStatus(status);
+  }, [metadata, lyricLanguage, rubySpawnMode]);
+
+  const handleRestartGame = useCallback((checkpoint?: GameCheckpoint) => {
+    setGameCheckpoint(checkpoint ?? null);
+    setGameRunId(id => id + 1);
+  }, []);
+
+  const handleQuitGame = useCallback(() => {
+    setActiveReplay(null);
+    setGameStatus('ready');
+  }, []);
+
+  const startReplay = useCallback((replay: ReplayData) => {
+    setLyricLanguage(replay.lyricLanguage);
+    setRubySpawnMode(replay.rubySpawnMode);
+    setSpawnTokenMode(replay.spawnTokenMode);
+    setIsSuperHardMode(replay.superHardMode);
+    setInitialItem(replay.initialItem ?? null);
+    setGameSeed(replay.seed);
+    setActiveReplay(replay);
+    setGameCheckpoint(null);
+    setLastReplay(replay);
+    setReplayError(null);
+    setGameStats(null);
+    setGameStatus('playing');
   }, []);
+
+  const handleReplayFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !lyrics) return;
+    try {
+      const replay = parseReplay(await file.text());
+      // The replay only reproduces the run on the exact lines it was recorded against
+      const byLanguage = selectLyricLanguage(lyrics, replay.lyricLanguage);
+      const replayLyrics = replay.rubySpawnMode === 'reading' ? selectRubyReading(byLanguage) : byLanguage;
+      if (hashLyricsSeed(replayLyrics) !== replay.lyricsHash) {
+        throw new Error(`This replay was recorded on different lyrics${replay.songTitle ? ` (${replay.songTitle})` : ''}.`);
+      }
+      startReplay(replay);
+    } catch (err) {
+      setReplayError(err instanceof Error ? err.message : 'Failed to load the replay.');
+    }
+  }, [lyrics, startReplay]);
+
+  const handleDownloadReplay = useCallback(() => {
+    if (!lastReplay) return;
+    const blob = new Blob([serializeReplay(lastReplay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = `${(lastReplay.songTitle ?? 'lyric-shooter').replace(/[\\/:*?"<>|]+/g, '_').trim() || 'lyric-shooter'}.replay.json`;
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }, [lastReplay]);
   
   const handleRestart = useCallback(() => {
+     setActiveReplay(null);
      setGameStatus('ready');
      setIsSuperHardMode(false);
      setInitialItem(null);
@@ -662,6 +892,9 @@ export default function App(): React.ReactNode {
     setIsSuperHardMode(false);
     setInitialItem(null);
     setShowRateChart(false);
+    setLastReplay(null);
+    setActiveReplay(null);
+    setReplayError(null);
   }, []);
 
   const handleModeChange = useCallback((mode: DifficultyMode) => {
@@ -674,6 +907,31 @@ export default function App(): React.ReactNode {
     setShowRateChart(prev => !prev);
   }, []);
 
+  const handleAutoFixLyrics = useCallback(() => {
+    setLyrics(prev => (prev ? autoFixLyrics(prev, audioDuration ?? undefined) : prev));
+  }, [audioDuration]);
+
+  const handleEditorSave = useCallback((edited: LyricLine[]) => {
+    setLyrics(edited);
+    setGameStatus('ready');
+  }, []);
+
+  const handleEditorCancel = useCallback(() => {
+    setGameStatus('ready');
+  }, []);
+
+  const handleControlsSave = useCallback((bindings: ControlBindings) => {
+    saveControlBindings(bindings);
+    setControlBindings(bindings);
+    setGameStatus('ready');
+  }, []);
+
+  const handleCalibrationSave = useCallback((offsetMs: number) => {
+    saveAudioOffset(offsetMs);
+    setAudioOffsetMs(offsetMs);
+    setGameStatus('ready');
+  }, []);
+
   const shouldShowVersionBadge = Boolean(APP_VERSION_DISPLAY) && gameStatus === 'loading';
 
 
@@ -693,11 +951,35 @@ export default function App(): React.ReactNode {
                 stats={songStats}
                 showRateChart={showRateChart}
                 onToggleRateChart={toggleRateChart}
+                issues={lyricIssues}
+                onAutoFix={handleAutoFixLyrics}
               />
             ) : (
               <p className="mb-8 text-sky-300">Files loaded. Are you ready?</p>
             )}
 
+            {hasSubtitles && (
+              <LyricOptionToggle label="Enemies spawn from:" value={lyricLanguage} options={LYRIC_LANGUAGE_OPTIONS} onChange={setLyricLanguage} />
+            )}
+            <LyricOptionToggle label="One enemy per:" value={spawnTokenMode} options={SPAWN_TOKEN_OPTIONS} onChange={setSpawnTokenMode} />
+            {hasRuby && (
+              <LyricOptionToggle label="Furigana lines spawn:" value={rubySpawnMode} options={RUBY_SPAWN_OPTIONS} onChange={setRubySpawnMode} />
+            )}
+            <LyricOptionToggle label="Enemy pattern:" value={seedMode} options={SEED_MODE_OPTIONS} onChange={setSeedMode} />
+            {seedMode === 'custom' && (
+              <div className="mt-2 flex items-center justify-center gap-2 text-sm">
+                <input
+                  type="text"
+                  value={customSeed}
+                  onChange={e => setCustomSeed(e.target.value)}
+                  placeholder="Number or any word"
+                  className="w-56 px-3 py-1.5 rounded bg-slate-900 border border-slate-600 text-white font-mono"
+                />
+                {!customSeed.trim() && <span className="text-slate-400">Empty uses the song seed</span>}
+              </div>
+            )}
+            <LyricOptionToggle label="Renderer:" value={rendererMode} options={RENDERER_OPTIONS} onChange={setRendererMode} />
+            <LyricOptionToggle label="Simulation:" value={simulationMode} options={SIMULATION_OPTIONS} onChange={setSimulationMode} />
             <DifficultyTabs mode={currentMode} onChange={handleModeChange} />
             <DifficultyDetails mode={currentMode} />
 
@@ -718,15 +1000,49 @@ export default function App(): React.ReactNode {
             >
               Upload Different Files
             </button>
-            <ControlsPanel />
+            <button
+              onClick={() => setGameStatus('editing')}
+              className="mt-2 block mx-auto px-4 py-2 bg-slate-700 text-sky-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+            >
+              Edit Lyric Timing
+            </button>
+            <button
+              onClick={() => setGameStatus('calibrating')}
+              className="mt-2 block mx-auto px-4 py-2 bg-slate-700 text-sky-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+            >
+              Calibrate Audio Latency ({audioOffsetMs > 0 ? '+' : ''}{audioOffsetMs} ms)
+            </button>
+            <label className="mt-2 block mx-auto w-fit px-4 py-2 bg-slate-700 text-amber-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300 cursor-pointer">
+              Watch Replay File
+              <input type="file" className="hidden" accept={REPLAY_FILE_ACCEPT} onChange={handleReplayFile} />
+            </label>
+            {replayError && <p className="mt-2 text-sm text-red-300">{replayError}</p>}
+            <ControlsPanel bindings={controlBindings} onConfigure={() => setGameStatus('controls')} />
             <InfoPanel />
           </div>
         );
       case 'playing':
-        if (audioUrl && lyrics) {
-          return <GameScreen audioUrl={audioUrl} lyrics={lyrics} onEndGame={handleEndGame} superHardMode={isSuperHardMode} initialItem={initialItem ?? undefined}/>;
+        if (audioUrl && playLyrics) {
+          return <GameScreen key={gameRunId} audioUrl={audioUrl} lyrics={playLyrics} onEndGame={handleEndGame} superHardMode={isSuperHardMode} initialItem={initialItem ?? undefined} spawnTokenMode={spawnTokenMode} seed={gameSeed} replay={activeReplay ?? undefined} renderer={rendererMode} simulation={simulationMode} audioOffsetMs={audioOffsetMs} checkpoint={gameCheckpoint ?? undefined} bindings={controlBindings} onRestart={handleRestartGame} onQuit={handleQuitGame}/>;
         }
         return null; // Should not happen
+      case 'editing':
+        if (audioUrl && lyrics) {
+          return (
+            <LyricEditor
+              audioUrl={audioUrl}
+              lyrics={lyrics}
+              title={metadata?.title ?? 'lyrics'}
+              onSave={handleEditorSave}
+              onCancel={handleEditorCancel}
+            />
+          );
+        }
+        return null;
+      case 'calibrating':
+        return <LatencyCalibration initialOffset={audioOffsetMs} onSave={handleCalibrationSave} onCancel={() => setGameStatus('ready')} />;
+      case 'controls':
+        return <ControlsSettings bindings={controlBindings} onSave={handleControlsSave} onCancel={() => setGameStatus('ready')} />;
       case 'cleared':
       case 'gameOver':
         const isClear = gameStatus === 'cleared';
@@ -743,6 +1059,22 @@ export default function App(): React.ReactNode {
             >
               PLAY AGAIN
             </button>
+            {lastReplay && (
+              <div className="mt-4 flex justify-center gap-2">
+                <button
+                  onClick={() => startReplay(lastReplay)}
+                  className="px-4 py-2 bg-slate-700 text-amber-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+                >
+                  Watch Replay
+                </button>
+                <button
+                  onClick={handleDownloadReplay}
+                  className="px-4 py-2 bg-slate-700 text-amber-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+                >
+                  Download Replay
+                </button>
+              </div>
+            )}
             <button
               onClick={resetToUploader}
               className="mt-4 block mx-auto px-4 py-2 bg-slate-600 text-white font-bold rounded-lg hover:bg-slate-500 transition-all duration-300"
@@ -756,25 +1088,6 @@ export default function App(): React.ReactNode {
     }
   };
 
-  if (!isWindowLargeEnough) {
-    return (
-      <main className="relative min-h-screen bg-slate-900 flex items-center justify-center p-6">
-        <div className="max-w-md w-full text-center text-white bg-black bg-opacity-70 p-8 rounded-2xl space-y-4">
-          <h1 className="text-3xl font-orbitron text-amber-300">Make The Window Larger</h1>
-          <p className="text-slate-200 leading-relaxed">
-            This game needs at least {MIN_VIEWPORT_WIDTH} × {MIN_VIEWPORT_HEIGHT} pixels of space. Maximize or resize your browser window and try again.
-          </p>
-          <p className="text-slate-400 text-sm">Tip: Fullscreen (F11) usually provides enough room.</p>
-        </div>
-        {shouldShowVersionBadge && (
-          <div className="pointer-events-none absolute bottom-4 left-1/2 -translate-x-1/2 text-xs text-slate-400 font-mono opacity-75">
-            Version: {APP_VERSION_DISPLAY}
-          </div>
-        )}
-      </main>
-    );
-  }
-
   return (
     <main className="relative min-h-screen bg-slate-900 flex items-center justify-center p-4">
       {renderContent()}
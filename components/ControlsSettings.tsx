@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ControlBindings, InputAction } from '@/types';
+import {
+  ACTION_LABELS,
+  DEFAULT_CONTROL_BINDINGS,
+  INPUT_ACTIONS,
+  MAX_BINDINGS_PER_ACTION,
+  findConflicts,
+  findUnboundActions,
+  formatGamepadButton,
+  formatKeyCode,
+} from '@/services/controlBindings';
+
+interface ControlsSettingsProps {
+  bindings: ControlBindings;
+  onSave: (bindings: ControlBindings) => void;
+  onCancel: () => void;
+}
+
+type BindingDevice = keyof ControlBindings;
+
+interface CaptureTarget {
+  device: BindingDevice;
+  action: InputAction;
+}
+
+const cloneBindings = (bindings: ControlBindings): ControlBindings => ({
+  keyboard: Object.fromEntries(INPUT_ACTIONS.map(action => [action, [...bindings.keyboard[action]]])) as ControlBindings['keyboard'],
+  gamepad: Object.fromEntries(INPUT_ACTIONS.map(action => [action, [...bindings.gamepad[action]]])) as ControlBindings['gamepad'],
+});
+
+const pressedButtons = (): Set<number> => {
+  const pressed = new Set<number>();
+  for (const pad of navigator.getGamepads ? navigator.getGamepads() : []) {
+    pad?.buttons.forEach((button, index) => {
+      if (button.pressed) pressed.add(index);
+    });
+  }
+  return pressed;
+};
+
+export default function ControlsSettings({ bindings, onSave, onCancel }: ControlsSettingsProps): React.ReactNode {
+  const [draft, setDraft] = useState<ControlBindings>(() => cloneBindings(bindings));
+  const [capturing, setCapturing] = useState<CaptureTarget | null>(null);
+
+  const conflicts = useMemo(() => findConflicts(draft), [draft]);
+  const unbound = useMemo(() => findUnboundActions(draft), [draft]);
+  const isConflicting = (device: BindingDevice, input: string | number) =>
+    conflicts.some(conflict => conflict.device === device && conflict.input === input);
+
+  const addBinding = (target: CaptureTarget, input: string | number) => {
+    setDraft(prev => {
+      const next = cloneBindings(prev);
+      const list = next[target.device][target.action] as (string | number)[];
+      if (!list.includes(input)) list.push(input);
+      return next;
+    });
+    setCapturing(null);
+  };
+
+  const removeBinding = (device: BindingDevice, action: InputAction, index: number) => {
+    setDraft(prev => {
+      const next = cloneBindings(prev);
+      next[device][action].splice(index, 1);
+      return next;
+    });
+  };
+
+  // Any key is bindable, Escape included, so capture is cancelled with the on-screen button instead
+  useEffect(() => {
+    if (capturing?.device !== 'keyboard') return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      addBinding(capturing, e.code);
+    };
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, [capturing]);
+
+  // Buttons already held when capture starts are ignored until released, so the click that started it never binds
+  useEffect(() => {
+    if (capturing?.device !== 'gamepad') return;
+    const ignored = pressedButtons();
+    let rafId = 0;
+    const poll = () => {
+      const pressed = pressedButtons();
+      ignored.forEach(index => {
+        if (!pressed.has(index)) ignored.delete(index);
+      });
+      for (const index of pressed) {
+        if (!ignored.has(index)) {
+          addBinding(capturing, index);
+          return;
+        }
+      }
+      rafId = requestAnimationFrame(poll);
+    };
+    rafId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(rafId);
+  }, [capturing]);
+
+  const renderBindings = (device: BindingDevice, action: InputAction) => {
+    const list = draft[device][action] as (string | number)[];
+    const isCapturing = capturing?.device === device && capturing.action === action;
+    return (
+      <div className="flex flex-wrap items-center gap-1">
+        {list.map((input, index) => (
+          <span
+            key={String(input)}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 rounded font-mono text-xs border ${isConflicting(device, input) ? 'bg-red-900 border-red-400 text-red-200' : 'bg-slate-900 border-slate-600 text-sky-200'}`}
+          >
+            {device === 'keyboard' ? formatKeyCode(input as string) : formatGamepadButton(input as number)}
+            <button onClick={() => removeBinding(device, action, index)} className="text-slate-400 hover:text-white" title="Remove">×</button>
+          </span>
+        ))}
+        {isCapturing ? (
+          <button onClick={() => setCapturing(null)} className="px-2 py-0.5 rounded text-xs bg-amber-500 text-black font-bold animate-pulse">
+            {device === 'keyboard' ? 'Press a key…' : 'Press a button…'} (cancel)
+          </button>
+        ) : (
+          list.length < MAX_BINDINGS_PER_ACTION && (
+            <button
+              onClick={() => setCapturing({ device, action })}
+              className="px-2 py-0.5 rounded text-xs bg-slate-700 text-slate-300 border border-dashed border-slate-500 hover:bg-slate-600"
+            >
+              + Add
+            </button>
+          )
+        )}
+      </div>
+    );
+  };
+
+  const canSave = conflicts.length === 0 && unbound.length === 0 && !capturing;
+
+  return (
+    <div className="w-full max-w-3xl p-6 space-y-4 bg-slate-800 rounded-2xl shadow-2xl text-white">
+      <h1 className="text-3xl font-bold font-orbitron text-shadow-neon text-center">CONTROLS</h1>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-sky-300">
+            <th className="py-1 pr-2">Action</th>
+            <th className="py-1 pr-2">Keyboard</th>
+            <th className="py-1">Gamepad</th>
+          </tr>
+        </thead>
+        <tbody>
+          {INPUT_ACTIONS.map(action => (
+            <tr key={action} className="border-t border-slate-700">
+              <td className="py-2 pr-2 whitespace-nowrap">{ACTION_LABELS[action]}</td>
+              <td className="py-2 pr-2">{renderBindings('keyboard', action)}</td>
+              <td className="py-2">{renderBindings('gamepad', action)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="text-xs text-slate-400">The left stick always moves. Fire and Skip Intro may share an input.</p>
+
+      {(conflicts.length > 0 || unbound.length > 0) && (
+        <ul className="text-sm text-red-300 space-y-1">
+          {conflicts.map(conflict => (
+            <li key={`${conflict.device}-${conflict.input}`}>
+              {conflict.device === 'keyboard' ? formatKeyCode(conflict.input as string) : formatGamepadButton(conflict.input as number)} is bound to{' '}
+              {conflict.actions.map(action => ACTION_LABELS[action]).join(' and ')}
+            </li>
+          ))}
+          {unbound.map(action => <li key={action}>{ACTION_LABELS[action]} needs at least one key</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-center gap-2">
+        <button
+          onClick={() => onSave(draft)}
+          disabled={!canSave}
+          className="px-6 py-3 bg-sky-500 text-white font-bold rounded-lg hover:bg-sky-400 transition-all duration-300 font-orbitron box-shadow-neon disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          SAVE
+        </button>
+        <button
+          onClick={() => setDraft(cloneBindings(DEFAULT_CONTROL_BINDINGS))}
+          className="px-4 py-2 bg-slate-700 text-sky-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+        >
+          Reset to Defaults
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-slate-600 text-white font-bold rounded-lg hover:bg-slate-500 transition-all duration-300"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
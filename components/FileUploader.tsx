@@ -1,6 +1,7 @@
 import React, { useState, useCallback } from 'react';
-import { LyricLine, SongMetadata } from '../types';
-import { parseLRC } from '../services/lrcParser';
+import { LyricLine, SongMetadata, LrcSkippedLine, TextEncodingId } from '../types';
+import { parseLyrics, isSupportedLyricsFile, LYRICS_FILE_ACCEPT, LYRICS_FORMAT_LABELS } from '../services/lyricsFormats';
+import { readTextFile, TEXT_ENCODING_LABELS } from '../services/textEncoding';
 import { UploadIcon } from './icons';
 import SearchPanel from './SearchPanel';
 import ServerConfig from './ServerConfig';
@@ -36,13 +37,19 @@ interface FileUploaderProps {
 
 export default function FileUploader({ onFilesLoaded, historyVersion }: FileUploaderProps): React.ReactNode {
   const [m4aFile, setM4aFile] = useState<File | null>(null);
-  const [lrcFile, setLrcFile] = useState<File | null>(null);
+  const [lyricsFile, setLyricsFile] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [mode, setMode] = useState<'search' | 'upload'>(() => 'search');
+  // Lines the parser could not read; once shown, the next submit loads anyway
+  const [skippedLines, setSkippedLines] = useState<LrcSkippedLine[] | null>(null);
+  const [lyricsEncoding, setLyricsEncoding] = useState<TextEncodingId | 'auto'>('auto');
+  const [detectedEncoding, setDetectedEncoding] = useState<TextEncodingId | null>(null);
 
   const handleM4aChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // A new upload starts over, so an earlier parse's skipped-lines warning no longer applies
+    setSkippedLines(null);
     if (file && (file.type === 'audio/mp4' || file.name.endsWith('.m4a'))) {
       setM4aFile(file);
       setError(null);
@@ -52,20 +59,32 @@ export default function FileUploader({ onFilesLoaded, historyVersion }: FileUplo
     }
   };
 
-  const handleLrcChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleLyricsChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.name.endsWith('.lrc')) {
-      setLrcFile(file);
+    setDetectedEncoding(null);
+    if (file && isSupportedLyricsFile(file.name)) {
+      setLyricsFile(file);
       setError(null);
+      setSkippedLines(null);
+      readTextFile(file)
+        .then(({ encoding }) => setDetectedEncoding(encoding))
+        .catch(err => console.warn('Failed to detect lyrics encoding', err));
     } else {
-      setLrcFile(null);
-      setError('Please select a valid .lrc lyric file.');
+      setLyricsFile(null);
+      setSkippedLines(null);
+      setError(`Please select a valid lyric file (${LYRICS_FORMAT_LABELS}).`);
     }
   };
 
+  const handleEncodingChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setLyricsEncoding(e.target.value as TextEncodingId | 'auto');
+    // Skipped lines depend on how the bytes were decoded, so re-check on the next submit
+    setSkippedLines(null);
+  };
+
   const handleSubmit = useCallback(async () => {
-    if (!m4aFile || !lrcFile) {
-      setError('Please select both an M4A audio file and an LRC lyrics file.');
+    if (!m4aFile || !lyricsFile) {
+      setError('Please select both an M4A audio file and a lyrics file.');
       return;
     }
 
@@ -73,15 +92,28 @@ export default function FileUploader({ onFilesLoaded, historyVersion }: FileUplo
     setError(null);
 
     try {
-      const audioUrl = URL.createObjectURL(m4aFile);
-      const lrcText = await lrcFile.text();
-      const lyrics = parseLRC(lrcText);
+      const { text: lyricsText } = await readTextFile(lyricsFile, lyricsEncoding);
+      const { header, lines: lyrics, skipped } = parseLyrics(lyricsText, { fileName: lyricsFile.name });
 
       if (lyrics.length === 0) {
-        throw new Error('The LRC file seems to be empty or in an invalid format.');
+        throw new Error('The lyrics file seems to be empty or in an invalid format.');
+      }
+
+      if (skipped.length > 0 && !skippedLines) {
+        setSkippedLines(skipped);
+        setIsLoading(false);
+        return;
       }
+      // This parse is the one that counts; drop any warning left from an earlier one
+      if (skipped.length === 0) setSkippedLines(null);
+
+      const audioUrl = URL.createObjectURL(m4aFile);
       
-      let metadata: SongMetadata = { title: m4aFile.name.replace(/\.m4a$/, '') };
+      // Prefer [ti]/[ar] from the LRC over the bare filename when the m4a carries no tags
+      const headerTitle = header.title
+        ? (header.artist ? `${header.title} - ${header.artist}` : header.title)
+        : null;
+      let metadata: SongMetadata = { title: headerTitle ?? m4aFile.name.replace(/\.m4a$/, '') };
       
       try {
         console.log('Attempting to parse metadata with jsmediatags for file:', m4aFile.name);
@@ -110,7 +142,7 @@ export default function FileUploader({ onFilesLoaded, historyVersion }: FileUplo
           console.log('Found title:', tags.tags.title);
           metadata.title = tags.tags.title;
         } else {
-          console.log('No title found, using filename fallback');
+          console.log(headerTitle ? 'No title found, using LRC header fallback' : 'No title found, using filename fallback');
         }
         
         // Extract album art
@@ -143,9 +175,11 @@ export default function FileUploader({ onFilesLoaded, historyVersion }: FileUplo
     } catch (err) {
       console.error(err);
       setError(err instanceof Error ? err.message : 'Failed to process files.');
+      // The failed run's warning is stale; the next run parses again
+      setSkippedLines(null);
       setIsLoading(false);
     }
-  }, [m4aFile, lrcFile, onFilesLoaded]);
+  }, [m4aFile, lyricsFile, lyricsEncoding, skippedLines, onFilesLoaded]);
 
   return (
     <div className="w-full max-w-3xl p-8 space-y-6 bg-slate-800 rounded-2xl shadow-2xl">
@@ -176,6 +210,21 @@ export default function FileUploader({ onFilesLoaded, historyVersion }: FileUplo
       ) : (
         <div className="space-y-6">
           {error && <div className="p-4 text-center text-red-300 bg-red-900 bg-opacity-50 rounded-lg">{error}</div>}
+          {skippedLines && (
+            <div className="p-4 text-amber-200 bg-amber-900 bg-opacity-40 border border-amber-700 rounded-lg space-y-2">
+              <p className="font-bold">
+                {skippedLines.length} line{skippedLines.length === 1 ? '' : 's'} in the lyrics file could not be read and will be ignored.
+              </p>
+              <ul className="max-h-32 overflow-y-auto text-xs font-mono text-amber-100 space-y-0.5">
+                {skippedLines.slice(0, 20).map(line => (
+                  <li key={line.lineNumber} className="truncate">
+                    <span className="text-amber-400">L{line.lineNumber}:</span> {line.content}
+                  </li>
+                ))}
+                {skippedLines.length > 20 && <li className="text-amber-400">…and {skippedLines.length - 20} more</li>}
+              </ul>
+            </div>
+          )}
 
           <FileDropZone
             id="m4a-upload"
@@ -186,18 +235,35 @@ export default function FileUploader({ onFilesLoaded, historyVersion }: FileUplo
           />
           <FileDropZone
             id="lrc-upload"
-            label="LRC Lyric File"
-            file={lrcFile}
-            accept=".lrc"
-            onChange={handleLrcChange}
+            label={`Lyric File (${LYRICS_FORMAT_LABELS})`}
+            file={lyricsFile}
+            accept={LYRICS_FILE_ACCEPT}
+            onChange={handleLyricsChange}
           />
+          <div className="flex items-center gap-3 text-sm">
+            <label htmlFor="lrc-encoding" className="font-medium text-sky-200">Lyric Encoding</label>
+            <select
+              id="lrc-encoding"
+              value={lyricsEncoding}
+              onChange={handleEncodingChange}
+              className="px-2 py-1 rounded bg-slate-700 border border-slate-600 text-white"
+            >
+              <option value="auto">Auto-detect</option>
+              {(Object.keys(TEXT_ENCODING_LABELS) as TextEncodingId[]).map(id => (
+                <option key={id} value={id}>{TEXT_ENCODING_LABELS[id]}</option>
+              ))}
+            </select>
+            {lyricsEncoding === 'auto' && detectedEncoding && (
+              <span className="text-slate-400">Detected: {TEXT_ENCODING_LABELS[detectedEncoding]}</span>
+            )}
+          </div>
 
           <button
             onClick={handleSubmit}
-            disabled={!m4aFile || !lrcFile || isLoading}
+            disabled={!m4aFile || !lyricsFile || isLoading}
             className="w-full px-8 py-4 text-xl font-bold text-white transition-all duration-300 bg-sky-600 rounded-lg disabled:bg-slate-600 disabled:cursor-not-allowed hover:bg-sky-500 font-orbitron box-shadow-neon disabled:shadow-none"
           >
-            {isLoading ? 'Loading...' : 'LOAD GAME'}
+            {isLoading ? 'Loading...' : skippedLines ? 'LOAD ANYWAY' : 'LOAD GAME'}
           </button>
         </div>
       )}
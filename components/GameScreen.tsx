@@ -1,168 +1,56 @@
 
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { LyricLine, Enemy, Projectile, Item, ItemType, SpecialWeapon, EnemyProjectile, Explosion, GameStats, EliteShooterType, Mine, FloatingText } from '@/types';
+import { LyricLine, Enemy, Projectile, Item, ItemType, SpecialWeapon, EnemyProjectile, Explosion, GameStats, EliteShooterType, Mine, FloatingText, SpawnTokenMode, ReplayRecording, RendererMode, SimulationMode, GameCheckpoint, VolumeSettings, InputAction, ControlBindings } from '@/types';
 import { BombIcon, SpeedUpIcon, DiagonalShotIcon, LaserIcon, OneUpIcon, PlayerShipIcon, SideShotIcon, CancellerShotIcon, RicochetShotIcon, PhaseShieldIcon } from './icons';
 import ProgressCircle from './ProgressCircle';
-import GameConstants from '@/services/gameConstants';
-import EnemyManager from '@/services/enemyManager';
-import ProjectileManager from '@/services/projectileManager';
-import ItemManager from '@/services/itemManager';
-import { filterInPlace } from '@/services/collectionUtils';
-
-// Object pools for performance
-class ObjectPool<T> {
-  private pool: T[] = [];
-  private createFn: () => T;
-  private resetFn: (obj: T) => void;
-
-  constructor(createFn: () => T, resetFn: (obj: T) => void, initialSize = 50) {
-    this.createFn = createFn;
-    this.resetFn = resetFn;
-    // Pre-populate pool
-    for (let i = 0; i < initialSize; i++) {
-      this.pool.push(createFn());
-    }
-  }
-
-  get(): T {
-    if (this.pool.length > 0) {
-      return this.pool.pop()!;
-    }
-    return this.createFn();
-  }
-
-  release(obj: T): void {
-    this.resetFn(obj);
-    if (this.pool.length < 200) { // Prevent unlimited growth
-      this.pool.push(obj);
-    }
-  }
-
-  releaseAll(objects: T[]): void {
-    objects.forEach(obj => this.release(obj));
-  }
-}
-
-// Spatial grid for collision optimization
-const GRID_MARK_PROP = '__gridMark' as const;
-
-class SpatialGrid {
-  private cellSize: number;
-  private cols: number;
-  private rows: number;
-  private grid: Set<any>[][];
-  private queryToken = 0;
-
-  constructor(width: number, height: number, cellSize = 64) {
-    this.cellSize = cellSize;
-    this.cols = Math.ceil(width / cellSize);
-    this.rows = Math.ceil(height / cellSize);
-    this.grid = [];
-    for (let row = 0; row < this.rows; row++) {
-      const rowSets: Set<any>[] = [];
-      for (let col = 0; col < this.cols; col++) {
-        rowSets[col] = new Set();
-      }
-      this.grid[row] = rowSets;
-    }
-  }
-
-  clear(): void {
-    for (let row = 0; row < this.rows; row++) {
-      for (let col = 0; col < this.cols; col++) {
-        this.grid[row][col].clear();
-      }
-    }
-  }
-
-  insert(obj: any): void {
-    const minCol = Math.max(0, Math.floor(obj.x / this.cellSize));
-    const maxCol = Math.min(this.cols - 1, Math.floor((obj.x + obj.width) / this.cellSize));
-    const minRow = Math.max(0, Math.floor(obj.y / this.cellSize));
-    const maxRow = Math.min(this.rows - 1, Math.floor((obj.y + obj.height) / this.cellSize));
-
-    for (let row = minRow; row <= maxRow; row++) {
-      for (let col = minCol; col <= maxCol; col++) {
-        this.grid[row][col].add(obj);
-      }
-    }
-  }
-
-  queryNearby(obj: any, result: any[] = []): any[] {
-    const token = ++this.queryToken;
-    result.length = 0;
-    const minCol = Math.max(0, Math.floor((obj.x - this.cellSize) / this.cellSize));
-    const maxCol = Math.min(this.cols - 1, Math.floor((obj.x + obj.width + this.cellSize) / this.cellSize));
-    const minRow = Math.max(0, Math.floor((obj.y - this.cellSize) / this.cellSize));
-    const maxRow = Math.min(this.rows - 1, Math.floor((obj.y + obj.height + this.cellSize) / this.cellSize));
-
-    for (let row = minRow; row <= maxRow; row++) {
-      for (let col = minCol; col <= maxCol; col++) {
-        const cell = this.grid[row][col];
-        for (const item of cell) {
-          if ((item as any)[GRID_MARK_PROP] === token) continue;
-          (item as any)[GRID_MARK_PROP] = token;
-          result.push(item);
-        }
-      }
-    }
-    return result;
-  }
-}
-
-// Utility to mutate arrays in place without allocating new ones every frame.
-function filterInPlace<T>(array: T[], predicate: (value: T, index: number) => boolean, onRemove?: (value: T) => void): void {
-  let writeIndex = 0;
-  for (let i = 0; i < array.length; i++) {
-    const value = array[i];
-    if (predicate(value, i)) {
-      array[writeIndex++] = value;
-    } else if (onRemove) {
-      onRemove(value);
-    }
-  }
-  array.length = writeIndex;
-}
+import { DEFAULT_GAME_CONSTANTS } from '@/services/gameConstants';
+import GameSession, { GameSessionHandle, GameSessionOptions } from '@/services/gameSession';
+import WorkerGameSession from '@/services/workerGameSession';
+import CanvasRenderer from '@/services/canvasRenderer';
+import AudioSyncClock from '@/services/audioSyncClock';
+import { loadVolumeSettings, saveVolumeSettings } from '@/services/volumeSettings';
+import InputManager from '@/services/inputManager';
+import TouchDrag from '@/services/touchDrag';
+import { describeKeys } from '@/services/controlBindings';
+import PauseMenu from './PauseMenu';
+import { lerp, interpolatePosition, collectCircleGuideSegments, GuideSegment } from '@/services/renderUtils';
 
 const {
   GAME_WIDTH,
   GAME_HEIGHT,
   PLAYER_WIDTH,
   PLAYER_HEIGHT,
-  PLAYER_SPEED_PER_SECOND,
-  PROJECTILE_WIDTH,
-  PROJECTILE_HEIGHT,
-  ENEMY_HEIGHT,
-  ENEMY_PROJECTILE_SPEED_PER_SECOND,
-  INITIAL_ENEMY_FIRE_CHANCE,
-  FIRE_COOLDOWN,
-  ITEM_SPAWN_PERCENTAGE,
-  INITIAL_LIVES,
-  RESPAWN_DURATION,
-  INVINCIBILITY_DURATION,
-  CANCELLER_INVINCIBILITY_DURATION,
-  LASER_DURATION,
-  EXPLOSION_DURATION,
+  PLAYER_HITBOX_SIZE,
   BGM_VOLUME,
   DUCKED_BGM_VOLUME,
-  SKIP_LONG_PRESS_DURATION,
-  MINE_LIFETIME,
   FLOATING_TEXT_DURATION,
-  PHASE_SHIELD_DURATION,
-  CIRCLE_ORBIT_LOOPS,
-  CIRCLE_GUIDE_DURATION,
-  CIRCLE_GUIDE_SEGMENTS,
-  MAX_SPAWNS_PER_FRAME,
-} = GameConstants.getInstance();
+} = DEFAULT_GAME_CONSTANTS;
 
 interface GameScreenProps {
   audioUrl: string;
   lyrics: LyricLine[];
-  onEndGame: (stats: GameStats, status: 'cleared' | 'gameOver') => void;
+  onEndGame: (stats: GameStats, status: 'cleared' | 'gameOver', replay?: ReplayRecording) => void;
   superHardMode?: boolean;
   initialItem?: ItemType;
+  spawnTokenMode?: SpawnTokenMode;
+  seed: number; // Seeds every gameplay roll, so the same seed plays the same chart
+  replay?: ReplayRecording; // Plays this recording back instead of reading the keyboard
+  renderer?: RendererMode;
+  simulation?: SimulationMode;
+  audioOffsetMs?: number; // Calibrated audio latency, taken off the song position lyrics sync to
+  checkpoint?: GameCheckpoint; // Starts from this checkpoint instead of the top of the song
+  bindings: ControlBindings;
+  onRestart: (checkpoint?: GameCheckpoint) => void;
+  onQuit: () => void;
 }
 
+// Room kept around the playfield for the page padding
+const VIEWPORT_MARGIN = 32;
+
+// The playfield keeps its fixed size in game units and is drawn scaled down when the viewport is smaller
+const fitPlayfieldScale = () =>
+  Math.min(1, (window.innerWidth - VIEWPORT_MARGIN) / GAME_WIDTH, (window.innerHeight - VIEWPORT_MARGIN) / GAME_HEIGHT);
+
 // Pre-rendered enemy color styles
 const ENEMY_COLORS = {
   ELITE_MAGIC: '#f43f5e',
@@ -178,7 +66,7 @@ const ENEMY_COLORS = {
 };
 
 // Restore original DOM components with optimizations
-const EnemyComponent = ({ enemy, isLastStand }: { enemy: Enemy; isLastStand: boolean; }) => {
+const EnemyComponent = ({ enemy, isLastStand, alpha }: { enemy: Enemy; isLastStand: boolean; alpha: number; }) => {
     let colorClass = 'text-red-400';
     if (enemy.isElite) {
          switch (enemy.eliteType) {
@@ -217,22 +105,28 @@ const EnemyComponent = ({ enemy, isLastStand }: { enemy: Enemy; isLastStand: boo
     const flashClass = enemy.isFlashing ? 'animate-ping opacity-75' : '';
     const lastStandGlowClass = enemy.isElite && isLastStand ? 'text-shadow-last-stand' : '';
 
+    const { x, y } = interpolatePosition(enemy, alpha);
+
     return (
         <div
-            style={{ transform: `translate3d(${enemy.x}px, ${enemy.y}px, 0)`, width: enemy.width, height: enemy.height }}
+            style={{ transform: `translate3d(${x}px, ${y}px, 0)`, width: enemy.width, height: enemy.height }}
             className={`absolute font-bold flex items-center justify-center font-orbitron ${colorClass}`}
         >
-            <span className={`${sizeClass} ${lastStandGlowClass}`}>{enemy.char}</span>
+            {enemy.reading && (
+                <span className="absolute -top-3 left-0 right-0 text-center text-xs font-sans font-normal text-slate-200 whitespace-nowrap">{enemy.reading}</span>
+            )}
+            <span className={`${sizeClass} ${lastStandGlowClass} whitespace-nowrap`}>{enemy.char}</span>
             {flashClass && <div className={`absolute w-full h-full bg-white rounded-full ${flashClass}`}></div>}
         </div>
     );
 };
 
-const ProjectileComponent = ({ p }: { p: Projectile }) => {
+const ProjectileComponent = ({ p, alpha }: { p: Projectile; alpha: number }) => {
     const isRico = p.isRicochetPrimary || p.hasBounced;
     const color = isRico ? 'bg-rose-400' : 'bg-yellow-300';
+    const { x, y } = interpolatePosition(p, alpha);
     const style: React.CSSProperties = {
-        transform: `translate3d(${p.x}px, ${p.y}px, 0)`,
+        transform: `translate3d(${x}px, ${y}px, 0)`,
         width: p.width,
         height: p.height,
     };
@@ -242,7 +136,7 @@ const ProjectileComponent = ({ p }: { p: Projectile }) => {
     );
 };
 
-const EnemyProjectileComponent = ({ p }: { p: EnemyProjectile }) => {
+const EnemyProjectileComponent = ({ p, alpha }: { p: EnemyProjectile; alpha: number }) => {
     const projectileColors: Record<ShooterAttackPattern, string> = {
         'HOMING': 'bg-fuchsia-500',
         'STRAIGHT_DOWN': 'bg-yellow-500',
@@ -257,10 +151,11 @@ const EnemyProjectileComponent = ({ p }: { p: EnemyProjectile }) => {
     
     const sizeClass = 'w-2 h-2';
     const opacityClass = p.attackPattern === 'DELAYED_HOMING' && p.isDelayed ? 'opacity-50' : 'opacity-100';
+    const { x, y } = interpolatePosition(p, alpha);
 
     return (
         <div
-            style={{ transform: `translate3d(${p.x}px, ${p.y}px, 0)` }}
+            style={{ transform: `translate3d(${x}px, ${y}px, 0)` }}
             className={`absolute rounded-full transition-opacity duration-200 ${p.attackPattern === 'DELAYED_HOMING' && p.isDelayed ? 'animate-pulse' : ''} ${projectileColor} ${sizeClass} ${opacityClass}`}
         ></div>
     );
@@ -280,7 +175,7 @@ const LaserBeamComponent = ({ x, y }: { x: number, y:number }) => (
     ></div>
 );
 
-const ItemComponent = ({ item }: { item: Item }) => {
+const ItemComponent = ({ item, alpha }: { item: Item; alpha: number }) => {
     const getIcon = () => {
         const iconProps = { className: "w-8 h-8 drop-shadow-[0_0_8px_rgba(252,211,77,0.8)]" };
         switch (item.type) {
@@ -296,9 +191,10 @@ const ItemComponent = ({ item }: { item: Item }) => {
             default: return null;
         }
     };
+    const { x, y } = interpolatePosition(item, alpha);
     return (
       <div
-        style={{ transform: `translate3d(${item.x}px, ${item.y}px, 0)`, width: item.width, height: item.height }}
+        style={{ transform: `translate3d(${x}px, ${y}px, 0)`, width: item.width, height: item.height }}
         className="absolute flex items-center justify-center animate-pulse"
       >
         {getIcon()}
@@ -307,7 +203,7 @@ const ItemComponent = ({ item }: { item: Item }) => {
 };
 
 // Keep minimal DOM components for special effects only
-const PlayerComponent = React.memo(({ x, y, isInvincible, isLastStand, hasPhaseShield }: { x: number; y: number; isInvincible: boolean; isLastStand: boolean; hasPhaseShield: boolean; }) => (
+const PlayerComponent = React.memo(({ x, y, isInvincible, isLastStand, hasPhaseShield, isFocused }: { x: number; y: number; isInvincible: boolean; isLastStand: boolean; hasPhaseShield: boolean; isFocused: boolean; }) => (
     <div
         style={{ transform: `translate3d(${x}px, ${y}px, 0)`, width: PLAYER_WIDTH, height: PLAYER_HEIGHT, position: 'absolute' }}
         className={`text-cyan-400 ${isInvincible ? 'opacity-50 animate-pulse' : 'opacity-100'}`}
@@ -328,6 +224,20 @@ const PlayerComponent = React.memo(({ x, y, isInvincible, isLastStand, hasPhaseS
             />
         )}
         <PlayerShipIcon className={`w-full h-full ${isLastStand ? 'drop-shadow-[0_0_8px_#ef4444]' : 'drop-shadow-[0_0_5px_#0ea5e9]'}`} />
+        {/* Focus reveals the core hitbox, the only part of the ship that takes damage */}
+        {isFocused && (
+            <div
+                style={{
+                    position: 'absolute',
+                    left: (PLAYER_WIDTH - PLAYER_HITBOX_SIZE) / 2,
+                    top: (PLAYER_HEIGHT - PLAYER_HITBOX_SIZE) / 2,
+                    width: PLAYER_HITBOX_SIZE,
+                    height: PLAYER_HITBOX_SIZE,
+                    pointerEvents: 'none',
+                }}
+                className="rounded-full bg-white border-2 border-red-500 shadow-[0_0_6px_#ffffff]"
+            />
+        )}
     </div>
 ));
 
@@ -342,8 +252,8 @@ const ExplosionComponent = ({ explosion }: { explosion: Explosion }) => {
     );
 };
 
-const FloatingTextComponent = React.memo(({ text, x, y, createdAt }: FloatingText) => {
-    const progress = Math.min(1, (Date.now() - createdAt) / FLOATING_TEXT_DURATION);
+const FloatingTextComponent = React.memo(({ text, x, y, createdAt, now }: FloatingText & { now: number }) => {
+    const progress = Math.min(1, (now - createdAt) / FLOATING_TEXT_DURATION);
     const style: React.CSSProperties = {
         position: 'absolute',
         left: x,
@@ -363,188 +273,40 @@ const FloatingTextComponent = React.memo(({ text, x, y, createdAt }: FloatingTex
 
 
 // --- Main Game Screen Component ---
-export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode = false, initialItem }: GameScreenProps): React.ReactNode {
-  const enemyManager = useMemo(() => EnemyManager.getInstance(), []);
-  const projectileManager = useMemo(() => ProjectileManager.getInstance(), []);
-  const itemManager = useMemo(() => ItemManager.getInstance(), []);
-
-  // Unique ID generator for projectiles
-  const nextId = useRef(1);
-  const generateId = useCallback(() => {
-    return nextId.current++;
-  }, []);
-
-  // Object pools for performance
-  const projectilePool = useRef(new ObjectPool<Projectile>(
-    () => ({ id: 0, x: 0, y: 0, width: PROJECTILE_WIDTH, height: PROJECTILE_HEIGHT, speedY: 0, speedX: 0, entityType: 'playerProjectile' }),
-    (obj) => {
-      obj.id = 0;
-      obj.x = 0;
-      obj.y = 0;
-      obj.width = PROJECTILE_WIDTH;
-      obj.height = PROJECTILE_HEIGHT;
-      obj.speedY = 0;
-      obj.speedX = 0;
-      obj.entityType = 'playerProjectile';
-      obj.isRicochetPrimary = undefined;
-      obj.hasBounced = undefined;
-      obj.remainingBounces = undefined;
-      obj.rotationDeg = undefined;
-    }
-  ));
-  
-  const enemyProjectilePool = useRef(new ObjectPool<EnemyProjectile>(
-    () => ({ id: 0, x: 0, y: 0, width: 8, height: 8, speedX: 0, speedY: 0, attackPattern: 'STRAIGHT_DOWN', entityType: 'enemyProjectile' }),
-    (obj) => {
-      obj.id = 0;
-      obj.x = 0;
-      obj.y = 0;
-      obj.width = 8;
-      obj.height = 8;
-      obj.speedX = 0;
-      obj.speedY = 0;
-      obj.entityType = 'enemyProjectile';
-      obj.attackPattern = 'STRAIGHT_DOWN';
-      obj.isDelayed = false;
-      obj.delayEndTime = undefined;
-      obj.beatTargetSide = undefined;
-      obj.initialSpeed = undefined;
-      obj.slowSpeed = undefined;
-      obj.circleMode = undefined;
-      obj.orbitCenterX = undefined;
-      obj.orbitCenterY = undefined;
-      obj.orbitRadius = undefined;
-      obj.orbitAngle = undefined;
-      obj.orbitAngularSpeed = undefined;
-      obj.orbitAccumulatedAngle = undefined;
-      obj.orbitDirection = undefined;
-      obj.directionX = undefined;
-      obj.directionY = undefined;
-      obj.decelerateInitialDistance = undefined;
-      obj.circleGuideUntil = undefined;
-    }
-  ));
-  
-  const explosionPool = useRef(new ObjectPool<Explosion>(
-    () => ({ id: 0, x: 0, y: 0, size: 'small', createdAt: 0 }),
-    (obj) => { obj.id = 0; obj.x = 0; obj.y = 0; obj.size = 'small'; obj.createdAt = 0; }
-  ));
-  
-  const spatialGrid = useRef(new SpatialGrid(GAME_WIDTH, GAME_HEIGHT));
-  
-  const gameStateRef = useRef({
-      playerX: GAME_WIDTH / 2 - PLAYER_WIDTH / 2,
-      playerY: GAME_HEIGHT - PLAYER_HEIGHT - 20,
-      lives: INITIAL_LIVES,
-      isInvincible: false,
-      invincibilityEndTime: 0,
-      isRespawning: false,
-      respawnEndTime: 0,
-      projectiles: [] as Projectile[],
-      enemyProjectiles: [] as EnemyProjectile[],
-      playerSpeedMultiplier: superHardMode ? 1.15 : 1,
-      projectileSpeedMultiplier: superHardMode ? 1.15 : 1,
-      speedUpCount: 0,
-      hasDiagonalShot: false,
-      hasSideShot: false,
-      hasCancellerShot: false,
-      hasRicochetShot: false,
-      ricochetStacks: 0,
-      mainShotCounter: 0,
-      stockedItem: null as SpecialWeapon | null,
-      stockedItemActiveUntil: 0,
-      isLaserActive: false,
-      laserEndTime: 0,
-      isPhaseShieldActive: false,
-      phaseShieldEndTime: 0,
-      enemies: [] as Enemy[],
-      items: [] as Item[],
-      mines: [] as Mine[],
-      explosions: [] as Explosion[],
-      floatingTexts: [] as FloatingText[],
-      score: 0,
-      enemiesDefeated: 0,
-      itemsCollected: {} as Partial<Record<ItemType, number>>,
-      currentLyricIndex: 0,
-      baseShooterChance: superHardMode ? INITIAL_ENEMY_FIRE_CHANCE + 0.05 : INITIAL_ENEMY_FIRE_CHANCE,
-      difficultyMilestone: 0,
-      isGameEnding: false,
-      showSkip: true,
-      spacePressProgress: 0,
-      // Enemy spawn rate tracking
-      totalEnemiesSpawned: 0,
-      gameStartTime: 0,
-      currentEnemySpawnRate: 0,
-      lastSpawnRateUpdate: 0,
-      // Super Hard Mode state
-      isMidGameBuffActive: false,
-      enemyProjectileSpeedMultiplier: 1,
-      // Game Over delay state
-      isGameOverDelayed: false,
-      gameOverDelayEndTime: 0,
-      shouldHidePlayer: false, // プレイヤーを非表示にするフラグ
-      showGameOverText: false, // ゲームオーバーテキスト表示フラグ
-      // Backspace key long press for restart
-      backspacePressStart: 0,
-      backspacePressProgress: 0,
-      fps: 0,
-      pendingSpawns: [] as { time: number; char: string; progress: number }[],
-      pendingSpawnCursor: 0,
-  });
-
+export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode = false, initialItem, spawnTokenMode = 'auto', seed, replay, renderer = 'canvas', simulation = 'main', audioOffsetMs = 0, checkpoint, bindings, onRestart, onQuit }: GameScreenProps): React.ReactNode {
   const [, forceUpdate] = useState(0);
 
   const audioRef = useRef<HTMLAudioElement>(null);
-  const keysPressed = useRef<Record<string, boolean>>({});
-  const lastFireTime = useRef(0);
-  const lastFrameTime = useRef(performance.now());
+  // Keyboard and gamepads as named actions; handleActionRef always points at this render's handler
+  const handleActionRef = useRef<(action: InputAction, pressed: boolean) => void>(() => {});
+  const inputRef = useRef<InputManager | null>(null);
+  if (!inputRef.current) inputRef.current = new InputManager(bindings, (action, pressed) => handleActionRef.current(action, pressed));
+  const input = inputRef.current;
+  const touchDragRef = useRef(new TouchDrag());
   const gameLoopId = useRef<number | null>(null);
-  const itemSpawnMilestone = useRef(0);
-  const spacebarPressStart = useRef(0);
-  const initialItemAppliedRef = useRef(false);
   const loopStartedRef = useRef(false);
   const fpsStatsRef = useRef({ frames: 0, lastTime: performance.now(), fps: 0 });
-  const collisionBuffersRef = useRef({
-    enemies: [] as Enemy[],
-    enemyProjectiles: [] as EnemyProjectile[],
-    mines: [] as Mine[],
-  });
-  
-  const totalChars = useMemo(() => lyrics.reduce((acc, line) => acc + line.text.replace(/\s/g, '').length, 0), [lyrics]);
-  const totalLyricLines = useMemo(() => lyrics.length, [lyrics]);
-  
+
   const onEndGameRef = useRef(onEndGame);
   onEndGameRef.current = onEndGame;
-  
+
+  const [scale, setScale] = useState(fitPlayfieldScale);
+  const isTouchDevice = useMemo(() => navigator.maxTouchPoints > 0, []);
+
+  const [volumes, setVolumes] = useState<VolumeSettings>(loadVolumeSettings);
+  const volumesRef = useRef(volumes);
+  volumesRef.current = volumes;
+
+
   const audioContextRef = useRef<AudioContext | null>(null);
   const bgmSourceRef = useRef<MediaElementAudioSourceNode | null>(null);
   const bgmGainRef = useRef<GainNode | null>(null);
-  
-  useEffect(() => {
-    if (initialItem) {
-        if (!initialItemAppliedRef.current) {
-            initialItemAppliedRef.current = true;
-            const state = gameStateRef.current;
-            state.itemsCollected[initialItem] = (state.itemsCollected[initialItem] || 0) + 1;
-            switch (initialItem) {
-                case 'ONE_UP': state.lives++; break;
-                case 'SPEED_UP':
-                    state.playerSpeedMultiplier *= 1.15;
-                    state.projectileSpeedMultiplier *= 1.15;
-                    state.speedUpCount++;
-                    break;
-                case 'DIAGONAL_SHOT': if (!state.hasDiagonalShot) { state.hasDiagonalShot = true; state.baseShooterChance += 0.05; } break;
-                case 'SIDE_SHOT': if (!state.hasSideShot) { state.hasSideShot = true; } break;
-                case 'CANCELLER_SHOT': if (!state.hasCancellerShot) { state.hasCancellerShot = true; } break;
-                case 'RICOCHET_SHOT':
-                    state.hasRicochetShot = true;
-                    state.ricochetStacks = (state.ricochetStacks || 0) + 1;
-                    break;
-                case 'BOMB': case 'LASER_BEAM': case 'PHASE_SHIELD': state.stockedItem = initialItem; break;
-            }
-        }
-    }
-  }, [initialItem]);
+  // Created on first use, once the <audio> element is mounted
+  const audioSyncRef = useRef<AudioSyncClock | null>(null);
+  const getAudioSync = useCallback(() => {
+    if (!audioSyncRef.current && audioRef.current) audioSyncRef.current = new AudioSyncClock(audioRef.current, audioOffsetMs);
+    return audioSyncRef.current;
+  }, [audioOffsetMs]);
 
   const setupAudio = useCallback(async () => {
     if (!audioRef.current || audioContextRef.current) return;
@@ -553,6 +315,7 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
       // AudioContextは最初はsuspendedになる可能性があるので、resumeを待つ
       const context = new (window.AudioContext || (window as any).webkitAudioContext)();
       audioContextRef.current = context;
+      getAudioSync()?.attach(context);
       
       // ユーザーインタラクション後にresume
       if (context.state === 'suspended') {
@@ -565,7 +328,7 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
       bgmGainRef.current = gainNode;
       source.connect(gainNode);
       gainNode.connect(context.destination);
-      gainNode.gain.setValueAtTime(BGM_VOLUME, context.currentTime);
+      gainNode.gain.setValueAtTime(BGM_VOLUME * volumesRef.current.music, context.currentTime);
       
       // 音声要素のボリュームも設定
       audioRef.current.volume = BGM_VOLUME;
@@ -577,7 +340,7 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
       console.error("Audio setup or playback failed:", error);
       // フォールバック: 通常の音声要素のみ使用
       if (audioRef.current) {
-        audioRef.current.volume = BGM_VOLUME;
+        audioRef.current.volume = BGM_VOLUME * volumesRef.current.music;
         try {
           await audioRef.current.play();
           console.log("Fallback audio playback started");
@@ -586,22 +349,24 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
         }
       }
     }
-  }, []);
+  }, [getAudioSync]);
   
   const duckBgm = useCallback((duration: number) => {
       const gainNode = bgmGainRef.current;
       const context = audioContextRef.current;
       if (!gainNode || !context) return;
+      const music = volumesRef.current.music;
       const now = context.currentTime;
       gainNode.gain.cancelScheduledValues(now);
-      gainNode.gain.linearRampToValueAtTime(DUCKED_BGM_VOLUME, now + 0.2);
-      gainNode.gain.linearRampToValueAtTime(BGM_VOLUME, now + 0.2 + duration / 1000);
+      gainNode.gain.linearRampToValueAtTime(DUCKED_BGM_VOLUME * music, now + 0.2);
+      gainNode.gain.linearRampToValueAtTime(BGM_VOLUME * music, now + 0.2 + duration / 1000);
   }, []);
 
   const playShipHitSound = useCallback(() => {
       duckBgm(1500);
       const audioContext = audioContextRef.current;
-      if (!audioContext) return;
+      const volume = volumesRef.current.effects;
+      if (!audioContext || volume <= 0) return;
       const oscillator = audioContext.createOscillator();
       const gainNode = audioContext.createGain();
       oscillator.connect(gainNode);
@@ -609,8 +374,8 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
       oscillator.type = 'sawtooth';
       oscillator.frequency.setValueAtTime(120, audioContext.currentTime);
       oscillator.frequency.exponentialRampToValueAtTime(30, audioContext.currentTime + 0.8);
-      gainNode.gain.setValueAtTime(0.5, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 1.2);
+      gainNode.gain.setValueAtTime(0.5 * volume, audioContext.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01 * volume, audioContext.currentTime + 1.2);
       oscillator.start(audioContext.currentTime);
       oscillator.stop(audioContext.currentTime + 1.2);
   }, [duckBgm]);
@@ -618,7 +383,8 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
   const playBombSound = useCallback(() => {
     duckBgm(2000);
     const audioContext = audioContextRef.current;
-    if (!audioContext) return;
+    const volume = volumesRef.current.effects;
+    if (!audioContext || volume <= 0) return;
     const oscillator = audioContext.createOscillator();
     const gainNode = audioContext.createGain();
     oscillator.connect(gainNode);
@@ -626,15 +392,16 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
     oscillator.type = 'triangle';
     oscillator.frequency.setValueAtTime(100, audioContext.currentTime);
     oscillator.frequency.exponentialRampToValueAtTime(20, audioContext.currentTime + 1.5);
-    gainNode.gain.setValueAtTime(0.7, audioContext.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 1.8);
+    gainNode.gain.setValueAtTime(0.7 * volume, audioContext.currentTime);
+    gainNode.gain.exponentialRampToValueAtTime(0.01 * volume, audioContext.currentTime + 1.8);
     oscillator.start(audioContext.currentTime);
     oscillator.stop(audioContext.currentTime + 1.8);
   }, [duckBgm]);
 
   const playCancelSound = useCallback(() => {
       const audioContext = audioContextRef.current;
-      if (!audioContext) return;
+      const volume = volumesRef.current.effects;
+      if (!audioContext || volume <= 0) return;
       const oscillator = audioContext.createOscillator();
       const gainNode = audioContext.createGain();
       oscillator.connect(gainNode);
@@ -642,37 +409,12 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
       oscillator.type = 'sine';
       oscillator.frequency.setValueAtTime(880, audioContext.currentTime);
       oscillator.frequency.exponentialRampToValueAtTime(1760, audioContext.currentTime + 0.2);
-      gainNode.gain.setValueAtTime(0.3, audioContext.currentTime);
-      gainNode.gain.exponentialRampToValueAtTime(0.01, audioContext.currentTime + 0.2);
+      gainNode.gain.setValueAtTime(0.3 * volume, audioContext.currentTime);
+      gainNode.gain.exponentialRampToValueAtTime(0.01 * volume, audioContext.currentTime + 0.2);
       oscillator.start(audioContext.currentTime);
       oscillator.stop(audioContext.currentTime + 0.2);
   }, []);
 
-  useEffect(() => {
-    enemyManager.initialize({
-      state: gameStateRef.current,
-      generateId,
-      superHardMode,
-      enemyProjectilePool: enemyProjectilePool.current,
-      explosionPool: explosionPool.current,
-    });
-    projectileManager.initialize({
-      state: gameStateRef.current,
-      generateId,
-      projectilePool: projectilePool.current,
-      enemyProjectilePool: enemyProjectilePool.current,
-      explosionPool: explosionPool.current,
-      enemyManager,
-      playCancelSound,
-    });
-    itemManager.initialize({
-      state: gameStateRef.current,
-      generateId,
-      playCancelSound,
-      superHardMode,
-    });
-  }, [enemyManager, projectileManager, itemManager, generateId, superHardMode, playCancelSound]);
-
   const fadeOutBgm = useCallback((duration: number) => {
       const gainNode = bgmGainRef.current;
       const context = audioContextRef.current;
@@ -702,97 +444,65 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
           currentStep++;
       }, stepDuration);
   }, []);
-    
-  const handleSkip = useCallback(() => {
-      const audio = audioRef.current;
-      if(audio && lyrics.length > 0 && gameStateRef.current.showSkip) {
+
+  // The simulation itself lives in GameSession (here or in a worker); this component feeds it keys and audio and renders its state
+  const sessionRef = useRef<GameSessionHandle | null>(null);
+  if (!sessionRef.current) {
+    const sessionOptions: GameSessionOptions = {
+      lyrics,
+      seed,
+      superHardMode,
+      initialItem,
+      spawnTokenMode,
+      replay,
+      checkpoint,
+      audio: {
+        currentTime: () => getAudioSync()?.currentTime() ?? 0,
+        ended: () => audioRef.current?.ended ?? false,
+        seek: (time) => {
           if (audioContextRef.current?.state === 'suspended') {
-              audioContextRef.current.resume();
-          }
-          audio.currentTime = Math.max(0, lyrics[0].time - 3);
-          gameStateRef.current.showSkip = false;
-          gameStateRef.current.spacePressProgress = 0;
-          spacebarPressStart.current = 0;
-      }
-  }, [lyrics]);
-
-  const endGame = useCallback((status: 'cleared' | 'gameOver') => {
-      const state = gameStateRef.current;
-      // ゲームオーバー遅延処理から呼ばれた場合は、既にisGameEndingがtrueになっている
-      if (status === 'cleared' && state.isGameEnding) return;
-      if (status === 'gameOver' && !state.isGameEnding) state.isGameEnding = true;
-      if (gameLoopId.current !== null) cancelAnimationFrame(gameLoopId.current);
-      if (audioRef.current) audioRef.current.pause();
-
-      const songProgressPercentage = totalLyricLines > 0 ? (state.currentLyricIndex / totalLyricLines) * 100 : 100;
-
-      const stats: GameStats = {
-          score: state.score,
-          enemiesDefeated: state.enemiesDefeated,
-          totalEnemies: totalChars,
-          itemsCollected: state.itemsCollected,
-          songProgressPercentage,
-      };
-      onEndGameRef.current(stats, status);
-  }, [totalChars, totalLyricLines]);
-
-  const activateSpecialItem = useCallback(() => {
-      const state = gameStateRef.current;
-      if (!state.stockedItem || state.isGameOverDelayed) return;
-      // Prevent re-activation while a duration-based item is active and held in the slot
-      if (state.stockedItemActiveUntil && Date.now() < state.stockedItemActiveUntil) return;
-
-      if (state.stockedItem === 'BOMB') {
-          playBombSound();
-          state.itemsCollected['BOMB'] = (state.itemsCollected['BOMB'] || 0) + 1;
-          const onScreenEnemies = state.enemies.filter(e => e.y > -ENEMY_HEIGHT && e.y < GAME_HEIGHT);
-          onScreenEnemies.forEach(e => {
-            const explosion = explosionPool.current.get();
-            explosion.id = generateId();
-            explosion.x = e.x + e.width / 2;
-            explosion.y = e.y + e.height / 2;
-            explosion.size = 'small';
-            explosion.createdAt = Date.now();
-            state.explosions.push(explosion);
-            state.score += (e.isElite || e.isBig ? 75 : 10);
-            state.enemiesDefeated++;
-          });
-          const onScreenEnemyIds = new Set(onScreenEnemies.map(e => e.id));
-          if (onScreenEnemyIds.size > 0) {
-            filterInPlace(state.enemies, (enemy) => !onScreenEnemyIds.has(enemy.id));
+            audioContextRef.current.resume();
           }
-      } else if (state.stockedItem === 'LASER_BEAM') {
-          state.isLaserActive = true;
-          state.laserEndTime = Date.now() + LASER_DURATION;
-          state.stockedItemActiveUntil = state.laserEndTime;
-          playCancelSound();
-          return; // keep icon in slot semi-transparent while active
-      } else if (state.stockedItem === 'PHASE_SHIELD') {
-          state.isPhaseShieldActive = true;
-          state.phaseShieldEndTime = Date.now() + PHASE_SHIELD_DURATION;
-          state.isInvincible = true;
-          state.invincibilityEndTime = state.phaseShieldEndTime;
-          state.stockedItemActiveUntil = state.phaseShieldEndTime;
-          state.floatingTexts.push({ id: generateId(), x: state.playerX, y: state.playerY, text: 'PHASE SHIELD!', createdAt: Date.now() });
-          playCancelSound();
-          return; // keep icon in slot semi-transparent while active
-      }
-      // Non-duration items are consumed immediately
-      state.stockedItem = null;
-  }, [playBombSound]);
+          if (audioRef.current) audioRef.current.currentTime = time;
+        },
+        pause: () => audioRef.current?.pause(),
+      },
+      effects: {
+        shipHit: () => {
+          playShipHitSound();
+          inputRef.current?.rumble(400, 1);
+        },
+        bomb: playBombSound,
+        cancel: playCancelSound,
+        fadeOutBgm,
+      },
+      onEnd: (stats, status, recording) => {
+        if (gameLoopId.current !== null) cancelAnimationFrame(gameLoopId.current);
+        onEndGameRef.current(stats, status, recording);
+      },
+    };
+    sessionRef.current = simulation === 'worker' ? new WorkerGameSession(sessionOptions) : new GameSession(sessionOptions);
+  }
+  const session = sessionRef.current;
+  const isReplay = session.isReplay;
 
+  useEffect(() => () => session.dispose(), [session]);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const canvasRendererRef = useRef<CanvasRenderer | null>(null);
+  useEffect(() => {
+    if (renderer !== 'canvas' || !canvasRef.current) return;
+    const canvasRenderer = new CanvasRenderer(canvasRef.current, session.constants);
+    canvasRendererRef.current = canvasRenderer;
+    return () => {
+      canvasRenderer.dispose();
+      canvasRendererRef.current = null;
+    };
+  }, [renderer, session]);
 
   const gameLoop = useCallback(() => {
     const now = performance.now();
-    let dt = (now - lastFrameTime.current) / 1000;
-    // Cap delta time to prevent massive jumps if tab is backgrounded, which can cause objects to tunnel
-    if (dt > 1 / 30) {
-      dt = 1 / 30;
-    }
-    lastFrameTime.current = now;
-    const state = gameStateRef.current;
-    const isLastStand = state.lives === 1;
-
+    const state = session.state;
     if (state.isGameEnding) return;
 
     // --- FPS Tracking ---
@@ -807,367 +517,188 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
       state.fps = Math.round(measuredFps);
     }
 
-    // --- Super Hard Mode Mid-game Buff ---
-    const songProgressPercentage = totalLyricLines > 0 ? (state.currentLyricIndex / totalLyricLines) * 100 : 0;
-    if (superHardMode && !state.isMidGameBuffActive && songProgressPercentage >= 50) {
-        state.isMidGameBuffActive = true;
-        state.enemyProjectileSpeedMultiplier = 1.05;
-    }
+    // A touch drag hands the session where the finger has carried the ship; each tick steers toward it
+    input.setTouchInput(touchDragRef.current.steer());
 
-    // --- Skip Logic ---
-    if (state.showSkip && spacebarPressStart.current > 0) {
-        const pressDuration = Date.now() - spacebarPressStart.current;
-        state.spacePressProgress = Math.min(100, (pressDuration / SKIP_LONG_PRESS_DURATION) * 100);
-        if (pressDuration > SKIP_LONG_PRESS_DURATION) {
-            handleSkip();
-            spacebarPressStart.current = 0;
-            state.spacePressProgress = 0;
-        }
-    } else if (spacebarPressStart.current === 0 && state.spacePressProgress > 0) {
-        state.spacePressProgress = 0;
-    }
-
-    // --- Backspace Restart Logic ---
-    if (state.backspacePressStart > 0) {
-        const pressDuration = Date.now() - state.backspacePressStart;
-        state.backspacePressProgress = Math.min(100, (pressDuration / 1500) * 100);
-        if (pressDuration > 1500) {
-            // 1.5秒経過した場合、ゲームを終了してREADY画面に戻る
-            // App.tsxの状態を変更してREADY画面に戻るために、特別なステータスでendGameを呼び出す
-            if (audioRef.current) audioRef.current.pause();
-            onEndGameRef.current({ 
-                score: 0, 
-                enemiesDefeated: 0, 
-                totalEnemies: 0, 
-                itemsCollected: {}, 
-                songProgressPercentage: 0 
-            }, 'gameOver');
-            return;
-        }
-    } else if (state.backspacePressStart === 0 && state.backspacePressProgress > 0) {
-        state.backspacePressProgress = 0;
-    }
+    // Gamepads are polled once per frame; the result is held for every tick this frame runs
+    session.setInput(input.poll());
 
-    // --- Process Pending Enemy Spawns ---
-    enemyManager.processPendingSpawns(MAX_SPAWNS_PER_FRAME);
+    // Run however many fixed ticks real time has paid for; slow frames run several
+    if (!session.advance(now)) return;
 
-    // --- Update Enemy Spawn Rate (every 1 second) ---
-    enemyManager.updateSpawnRate(Date.now());
+    // The canvas draws straight from the session; React only re-renders the HUD and DOM entities
+    canvasRendererRef.current?.render(session);
+    // Force re-render for smooth gameplay
+    forceUpdate(c => c + 1);
     
-    // --- Player Movement ---
-    if (!state.isRespawning) {
-      const currentPlayerSpeed = PLAYER_SPEED_PER_SECOND * state.playerSpeedMultiplier;
-      let newX = state.playerX;
-      if (keysPressed.current['ArrowLeft'] || keysPressed.current['a']) newX -= currentPlayerSpeed * dt;
-      if (keysPressed.current['ArrowRight'] || keysPressed.current['d']) newX += currentPlayerSpeed * dt;
-      state.playerX = Math.max(0, Math.min(GAME_WIDTH - PLAYER_WIDTH, newX));
-      let newY = state.playerY;
-      if (keysPressed.current['ArrowUp'] || keysPressed.current['w']) newY -= currentPlayerSpeed * dt;
-      if (keysPressed.current['ArrowDown'] || keysPressed.current['s']) newY += currentPlayerSpeed * dt;
-      state.playerY = Math.max(0, Math.min(GAME_HEIGHT - PLAYER_HEIGHT, newY));
-    }
-
-    // --- Player Firing ---
-    projectileManager.handlePlayerFire({
-      now: Date.now(),
-      isLastStand,
-      keysPressed: keysPressed.current,
-      lastFireTime,
-      spacebarPressStart: spacebarPressStart.current,
-      player: { x: state.playerX, y: state.playerY, width: PLAYER_WIDTH, height: PLAYER_HEIGHT },
-      isRespawning: state.isRespawning,
-      isGameOverDelayed: state.isGameOverDelayed,
-      isLaserActive: state.isLaserActive,
-      showSkip: state.showSkip,
-      fireCooldown: FIRE_COOLDOWN,
+    gameLoopId.current = requestAnimationFrame(gameLoop);
+  }, [session, input]);
+
+  // Pausing stops the loop and the song; the session skips the paused time when resumed
+  const [isPaused, setIsPaused] = useState(false);
+  const isPausedRef = useRef(false);
+  const [pauseCheckpoint, setPauseCheckpoint] = useState<GameCheckpoint | null>(null);
+
+  const pauseGame = useCallback(() => {
+    const state = session.state;
+    if (isPausedRef.current || state.isGameEnding || state.isGameOverDelayed) return;
+    isPausedRef.current = true;
+    if (gameLoopId.current !== null) cancelAnimationFrame(gameLoopId.current);
+    audioRef.current?.pause();
+    // Keys released while the menu is open would otherwise stay held
+    input.releaseKeys();
+    touchDragRef.current = new TouchDrag();
+    session.releaseQuit();
+    setIsPaused(true);
+    setPauseCheckpoint(null);
+    session.checkpoint().then(found => {
+      if (isPausedRef.current) setPauseCheckpoint(found);
     });
-
-    // --- Timers & State Updates ---
-    const currentTime = Date.now();
-    
-    // ゲームオーバー遅延チェック
-    if (state.isGameOverDelayed && currentTime > state.gameOverDelayEndTime) {
-        // App.tsxの状態のみ変更し、ゲームループは停止させない
-        const songProgressPercentage = totalLyricLines > 0 ? (state.currentLyricIndex / totalLyricLines) * 100 : 100;
-        const stats = {
-            score: state.score,
-            enemiesDefeated: state.enemiesDefeated,
-            totalEnemies: totalChars,
-            itemsCollected: state.itemsCollected,
-            songProgressPercentage,
-        };
-        if (audioRef.current) audioRef.current.pause();
-        onEndGameRef.current(stats, 'gameOver');
-        return;
+  }, [session, input]);
+
+  const resumeGame = useCallback(() => {
+    if (!isPausedRef.current) return;
+    isPausedRef.current = false;
+    setIsPaused(false);
+    session.resume();
+    // Before the first key press the song has not started yet; setupAudio starts it as usual
+    const context = audioContextRef.current;
+    if (context && audioRef.current && !audioRef.current.ended) {
+      if (context.state === 'suspended') context.resume();
+      audioRef.current.play().catch(error => console.error('Resuming playback failed:', error));
     }
-    
-    
-    if (state.isRespawning && currentTime > state.respawnEndTime) {
-        state.isRespawning = false;
-        state.isInvincible = true;
-        state.invincibilityEndTime = currentTime + INVINCIBILITY_DURATION;
-        state.playerX = GAME_WIDTH / 2 - PLAYER_WIDTH / 2;
-        state.playerY = GAME_HEIGHT - PLAYER_HEIGHT - 20;
-    }
-    if (state.isInvincible && currentTime > state.invincibilityEndTime) state.isInvincible = false;
-    if (state.isLaserActive && currentTime > state.laserEndTime) { state.isLaserActive = false; playCancelSound(); }
-    if (state.isPhaseShieldActive && currentTime > state.phaseShieldEndTime) { state.isPhaseShieldActive = false; playCancelSound(); state.isInvincible = true; state.invincibilityEndTime = currentTime + 500; }
-    // Clear duration-based item from slot when its effect ends
-    if (state.stockedItemActiveUntil && currentTime > state.stockedItemActiveUntil) {
-        state.stockedItemActiveUntil = 0;
-        state.stockedItem = null;
-    }
-    for (let i = 0; i < state.enemies.length; i++) {
-      const e = state.enemies[i];
-      if (e.isFlashing && currentTime > e.flashEndTime!) e.isFlashing = false;
+    gameLoopId.current = requestAnimationFrame(gameLoop);
+  }, [session, gameLoop]);
+
+  const handleVolumesChange = useCallback((next: VolumeSettings) => {
+    setVolumes(next);
+    saveVolumeSettings(next);
+    const gainNode = bgmGainRef.current;
+    const context = audioContextRef.current;
+    if (gainNode && context) {
+      gainNode.gain.cancelScheduledValues(context.currentTime);
+      gainNode.gain.setValueAtTime(BGM_VOLUME * next.music, context.currentTime);
+    } else if (audioRef.current) {
+      audioRef.current.volume = BGM_VOLUME * next.music;
     }
-    filterInPlace(state.mines, (m) => currentTime - m.createdAt < MINE_LIFETIME);
-    filterInPlace(state.floatingTexts, (ft) => currentTime - ft.createdAt < FLOATING_TEXT_DURATION);
-
-    // Clean up expired explosions and return to pool
-    filterInPlace(state.explosions, (ex) => {
-      const keep = currentTime - ex.createdAt <= EXPLOSION_DURATION;
-      if (!keep) {
-        explosionPool.current.release(ex);
-      }
-      return keep;
-    });
-
-    // --- Object Movement (Optimized) ---
-    
-    projectileManager.updatePlayerProjectiles(dt);
-
-    const currentEnemyProjectileSpeed = ENEMY_PROJECTILE_SPEED_PER_SECOND * state.enemyProjectileSpeedMultiplier;
-    // Update enemy projectiles
-    const playerCenterX = state.playerX + PLAYER_WIDTH / 2;
-    const playerCenterY = state.playerY + PLAYER_HEIGHT / 2;
-
-    projectileManager.updateEnemyProjectiles({
-      dt,
-      currentTime,
-      projectileSpeed: currentEnemyProjectileSpeed,
-      playerCenterX,
-      playerCenterY,
-    });
-
-    // Update items and enemies without reallocating arrays
-    itemManager.updateItems(dt);
-
-    enemyManager.updateEnemies(dt);
-    enemyManager.updateEliteStates(currentTime);
-    enemyManager.handleFiring(currentTime, currentEnemyProjectileSpeed, {
-      x: state.playerX,
-      y: state.playerY,
-      width: PLAYER_WIDTH,
-      height: PLAYER_HEIGHT,
-    });
-
-    // --- Lyric Syncing and Enemy Spawning ---
-    const audio = audioRef.current;
-    if (audio) {
-      if(audio.ended) {
-          endGame('cleared');
-          return;
-      }
-
-      if (!state.showSkip && state.currentLyricIndex < lyrics.length && audio.currentTime >= lyrics[state.currentLyricIndex].time) {
-        const line = lyrics[state.currentLyricIndex].text.replace(/\s/g, '');
-        const spawnInterval = 100 / Math.max(1, line.length);
-        enemyManager.triggerBeatShooters(currentTime, playerCenterX, playerCenterY);
-
-        const progress = totalLyricLines > 0 ? (state.currentLyricIndex / totalLyricLines) : 0;
-        const startTime = Date.now();
-        for (let idx = 0; idx < line.length; idx++) {
-          state.pendingSpawns.push({ time: startTime + idx * spawnInterval, char: line[idx], progress });
-        }
+  }, []);
 
-        state.totalEnemiesSpawned += line.length;
-        if (state.gameStartTime === 0) {
-          state.gameStartTime = Date.now();
-        }
-        state.currentLyricIndex++;
-      }
-    }
-    
-    // --- Optimized Collision Detection with Spatial Grid ---
-    spatialGrid.current.clear();
-    
-    // Insert all objects into spatial grid
-    const enemiesArray = state.enemies;
-    for (let i = 0; i < enemiesArray.length; i++) {
-      spatialGrid.current.insert(enemiesArray[i]);
-    }
-    const projectilesArray = state.projectiles;
-    for (let i = 0; i < projectilesArray.length; i++) {
-      spatialGrid.current.insert(projectilesArray[i]);
-    }
-    const enemyProjectilesArray = state.enemyProjectiles;
-    for (let i = 0; i < enemyProjectilesArray.length; i++) {
-      spatialGrid.current.insert(enemyProjectilesArray[i]);
-    }
-    const itemsArray = state.items;
-    for (let i = 0; i < itemsArray.length; i++) {
-      spatialGrid.current.insert(itemsArray[i]);
+  handleActionRef.current = (action, pressed) => {
+    if (action === 'pause') {
+      if (!pressed) return;
+      if (isPausedRef.current) resumeGame();
+      else pauseGame();
+      return;
     }
-    const minesArray = state.mines;
-    for (let i = 0; i < minesArray.length; i++) {
-      spatialGrid.current.insert(minesArray[i]);
+    if (isPausedRef.current) return;
+    switch (action) {
+      case 'skip':
+        if (pressed) session.pressSkip();
+        else session.releaseSkip();
+        break;
+      case 'special':
+        if (pressed && !session.state.isGameOverDelayed) session.queueAction('special');
+        break;
+      // Holding abort for 1.5s returns to the READY screen
+      case 'abort':
+        if (pressed) session.pressQuit();
+        else session.releaseQuit();
+        break;
     }
-    
-    const takeHit = () => {
-      if (state.isInvincible || state.isRespawning || state.isGameEnding || state.isGameOverDelayed) return;
-
-      let cancellerNullified = false;
-      const cancellerChance = isLastStand ? 0.35 : 0.15;
-      if (state.hasCancellerShot && Math.random() < cancellerChance) {
-        cancellerNullified = true;
-        playCancelSound();
-        state.floatingTexts.push({ id: generateId(), x: state.playerX, y: state.playerY, text: 'GUARD!', createdAt: Date.now() });
-        state.isInvincible = true;
-        state.invincibilityEndTime = Date.now() + CANCELLER_INVINCIBILITY_DURATION;
-      }
-
-      if (cancellerNullified) return;
-
-      state.lives--;
-      playShipHitSound();
-      const playerExplosion = explosionPool.current.get();
-      playerExplosion.id = generateId();
-      playerExplosion.x = state.playerX + PLAYER_WIDTH / 2;
-      playerExplosion.y = state.playerY + PLAYER_HEIGHT / 2;
-      playerExplosion.size = 'large';
-      playerExplosion.createdAt = Date.now();
-      state.explosions.push(playerExplosion);
-
-      playBombSound();
-      const onScreenEnemies = state.enemies.filter(e => e.y > -ENEMY_HEIGHT && e.y < GAME_HEIGHT);
-      onScreenEnemies.forEach(e => {
-        const explosion = explosionPool.current.get();
-        explosion.id = generateId();
-        explosion.x = e.x + e.width / 2;
-        explosion.y = e.y + e.height / 2;
-        explosion.size = 'small';
-        explosion.createdAt = Date.now();
-        state.explosions.push(explosion);
-        state.score += (e.isElite || e.isBig ? 75 : 10);
-        state.enemiesDefeated++;
-      });
-      const onScreenEnemyIds = new Set(onScreenEnemies.map(e => e.id));
-      if (onScreenEnemyIds.size > 0) {
-        filterInPlace(state.enemies, enemy => !onScreenEnemyIds.has(enemy.id));
-      }
-
-      if (state.lives === 1 && !state.stockedItem) {
-        state.stockedItem = Math.random() > 0.5 ? 'BOMB' : 'LASER_BEAM';
-        state.floatingTexts.push({ id: generateId(), x: state.playerX, y: state.playerY, text: 'LAST STAND!', createdAt: Date.now() });
-      }
+  };
 
-      if (state.lives <= 0) {
-        state.isGameOverDelayed = true;
-        state.gameOverDelayEndTime = Date.now() + 5000;
-        state.shouldHidePlayer = true;
-        state.showGameOverText = true;
-        fadeOutBgm(4);
-      } else {
-        state.isRespawning = true;
-        state.respawnEndTime = Date.now() + RESPAWN_DURATION;
-      }
+  useEffect(() => {
+    let rafId = 0;
+    const handleResize = () => {
+      cancelAnimationFrame(rafId);
+      rafId = requestAnimationFrame(() => setScale(fitPlayfieldScale()));
     };
+    window.addEventListener('resize', handleResize);
+    window.addEventListener('orientationchange', handleResize);
+    return () => {
+      cancelAnimationFrame(rafId);
+      window.removeEventListener('resize', handleResize);
+      window.removeEventListener('orientationchange', handleResize);
+    };
+  }, []);
 
-    // Optimized Projectiles vs Enemies collision
-    projectileManager.resolveCollisions({
-      isLastStand,
-      enemyProjectileSpeed: currentEnemyProjectileSpeed,
-      currentTime,
-      player: { x: state.playerX, y: state.playerY, width: PLAYER_WIDTH, height: PLAYER_HEIGHT },
-      spatialGrid: spatialGrid.current,
-      collisionBuffers: collisionBuffersRef.current,
-      playerHitCallback: takeHit,
-      hasLaser: state.enemies.some(e => e.eliteType === 'LASER'),
-      laserActive: state.isLaserActive,
-      generateId,
-    });
+  // Touch and pen only; the mouse is not a control. Touching anywhere drags the ship from where it is,
+  // and during the intro the touch is held as the skip input
+  const toPlayfield = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) * GAME_WIDTH / rect.width, y: (e.clientY - rect.top) * GAME_HEIGHT / rect.height };
+  };
 
-    // Items vs Player
-    itemManager.collectItems({ x: state.playerX, y: state.playerY, width: PLAYER_WIDTH, height: PLAYER_HEIGHT });
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse' || isPausedRef.current || isReplay) return;
+    setupAudio();
+    if (audioContextRef.current?.state === 'suspended') audioContextRef.current.resume();
+    const { x, y } = toPlayfield(e);
+    if (!touchDragRef.current.start(e.pointerId, x, y, session.state.playerX, session.state.playerY)) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    if (session.state.showSkip) session.pressSkip();
+  };
 
-    // Item Spawning
-    itemManager.spawnItems(itemSpawnMilestone, totalChars);
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.pointerType === 'mouse') return;
+    const { x, y } = toPlayfield(e);
+    touchDragRef.current.move(e.pointerId, x, y);
+  };
 
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (touchDragRef.current.end(e.pointerId)) session.releaseSkip();
+  };
 
-    // Force re-render for smooth gameplay
-    forceUpdate(c => c + 1);
-    
-    gameLoopId.current = requestAnimationFrame(gameLoop);
-  }, [lyrics, totalChars, totalLyricLines, endGame, superHardMode, handleSkip, playShipHitSound, playCancelSound, playBombSound, activateSpecialItem, fadeOutBgm, generateId]);
-  
-  // Cleanup pools on unmount
+  // The game loop is stopped while paused, so keep polling for the gamepad's pause button here
   useEffect(() => {
-    return () => {
-      // Clear all pools to free memory
-      projectilePool.current = new ObjectPool<Projectile>(
-        () => ({ id: 0, x: 0, y: 0, width: PROJECTILE_WIDTH, height: PROJECTILE_HEIGHT, speedY: 0, entityType: 'playerProjectile' }),
-        (obj) => { obj.id = 0; obj.x = 0; obj.y = 0; obj.width = PROJECTILE_WIDTH; obj.height = PROJECTILE_HEIGHT; obj.speedY = 0; obj.speedX = undefined; obj.entityType = 'playerProjectile'; }
-      );
-      enemyProjectilePool.current = new ObjectPool<EnemyProjectile>(
-        () => ({ id: 0, x: 0, y: 0, width: 8, height: 8, speedX: 0, speedY: 0, attackPattern: 'STRAIGHT_DOWN', entityType: 'enemyProjectile' }),
-        (obj) => { obj.id = 0; obj.x = 0; obj.y = 0; obj.width = 8; obj.height = 8; obj.speedX = 0; obj.speedY = 0; obj.entityType = 'enemyProjectile'; obj.attackPattern = 'STRAIGHT_DOWN'; obj.isDelayed = false; obj.delayEndTime = undefined; }
-      );
-      explosionPool.current = new ObjectPool<Explosion>(
-        () => ({ id: 0, x: 0, y: 0, size: 'small', createdAt: 0 }),
-        (obj) => { obj.id = 0; obj.x = 0; obj.y = 0; obj.size = 'small'; obj.createdAt = 0; }
-      );
+    if (!isPaused) return;
+    let rafId = 0;
+    const poll = () => {
+      input.poll();
+      if (isPausedRef.current) rafId = requestAnimationFrame(poll);
     };
-  }, []);
+    rafId = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(rafId);
+  }, [isPaused, input]);
+
 
   useEffect(() => {
     let hasSetupAudio = false;
     
     const handleKeyDown = (e: KeyboardEvent) => {
-        keysPressed.current[e.key] = true;
-        keysPressed.current[e.code] = true;
+        input.handleKeyDown(e);
+        if (isPausedRef.current) return;
         
         // 最初のキー押下時に音声を初期化
         if (!hasSetupAudio) {
             hasSetupAudio = true;
             setupAudio();
         }
-        
-        if ((e.key === ' ' || e.code === 'Spacebar' || e.code === 'Space') && gameStateRef.current.showSkip && spacebarPressStart.current === 0) {
-            spacebarPressStart.current = Date.now();
-        }
-        if ((e.key === 'Shift' || e.code === 'Tab') && !gameStateRef.current.isGameOverDelayed) {
-            e.preventDefault();
-            activateSpecialItem();
-        }
-        // Backspace key long press for restart
-        if (e.key === 'Backspace' && gameStateRef.current.backspacePressStart === 0) {
-            gameStateRef.current.backspacePressStart = Date.now();
-        }
         if (audioContextRef.current?.state === 'suspended') {
             audioContextRef.current.resume();
         }
     };
-    const handleKeyUp = (e: KeyboardEvent) => {
-        keysPressed.current[e.key] = false;
-        keysPressed.current[e.code] = false;
-        if ((e.key === ' ' || e.code === 'Spacebar' || e.code === 'Space') && gameStateRef.current.showSkip) {
-            spacebarPressStart.current = 0;
-            gameStateRef.current.spacePressProgress = 0;
-            if(gameStateRef.current.spacePressProgress < 100) {
-                handleSkip();
-            }
-        }
-        // Reset backspace press on key up
-        if (e.key === 'Backspace') {
-            gameStateRef.current.backspacePressStart = 0;
-            gameStateRef.current.backspacePressProgress = 0;
-        }
+    const handleKeyUp = (e: KeyboardEvent) => input.handleKeyUp(e);
+
+    // Leaving the window or tab pauses, so the song never plays on unattended
+    const handleVisibilityChange = () => {
+        if (document.hidden) pauseGame();
     };
 
     window.addEventListener('keydown', handleKeyDown);
     window.addEventListener('keyup', handleKeyUp);
-    
+    window.addEventListener('blur', pauseGame);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // The session already sought there, but before the <audio> element existed
+    if (checkpoint && audioRef.current) audioRef.current.currentTime = checkpoint.audioTime;
+
+    // Replays and checkpoint restarts start from a button click, which already counts as the user interaction audio needs
+    if ((isReplay || checkpoint) && !hasSetupAudio) {
+        hasSetupAudio = true;
+        setupAudio();
+    }
+
     // ゲームループ開始（音声はユーザーインタラクション後に初期化）
     if (!loopStartedRef.current) {
         loopStartedRef.current = true;
@@ -1177,18 +708,25 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
     return () => {
         window.removeEventListener('keydown', handleKeyDown);
         window.removeEventListener('keyup', handleKeyUp);
+        window.removeEventListener('blur', pauseGame);
+        document.removeEventListener('visibilitychange', handleVisibilityChange);
         if (gameLoopId.current) cancelAnimationFrame(gameLoopId.current);
         if (audioContextRef.current) audioContextRef.current.close();
         loopStartedRef.current = false;
     };
-  }, [gameLoop, setupAudio, activateSpecialItem, handleSkip]);
+  }, [gameLoop, setupAudio, session, input, isReplay, checkpoint, pauseGame]);
   
-  const { playerX, playerY, projectiles, enemies, items, isInvincible, isRespawning, stockedItem, isLaserActive, isPhaseShieldActive, stockedItemActiveUntil, laserEndTime, phaseShieldEndTime, enemyProjectiles, lives, score, enemiesDefeated, itemsCollected, explosions, mines, floatingTexts, shouldHidePlayer, currentEnemySpawnRate, showGameOverText, fps } = gameStateRef.current;
+  const { playerX, playerY, projectiles, enemies, items, isInvincible, isRespawning, stockedItem, isLaserActive, isPhaseShieldActive, stockedItemActiveUntil, laserEndTime, phaseShieldEndTime, enemyProjectiles, lives, score, enemiesDefeated, itemsCollected, explosions, mines, floatingTexts, shouldHidePlayer, currentEnemySpawnRate, showGameOverText, fps, combo, comboExpiresAt, scoreMultiplier, grazeCount, grazeCharge, isFocused } = session.state;
   const isLastStand = lives === 1;
-
-  const renderGuideLine = (start: { x: number; y: number }, end: { x: number; y: number }, key: string, thickness = 2, opacity = 0.45) => {
-    const dx = end.x - start.x;
-    const dy = end.y - start.y;
+  // Share of the combo decay window left before the chain drops
+  const comboRemaining = combo > 0 ? Math.max(0, Math.min(1, (comboExpiresAt - session.clock.now) / session.constants.COMBO_DECAY_DURATION)) : 0;
+  const renderAlpha = session.clock.alpha;
+  const renderPlayerX = lerp(session.prevPlayerPos.x, playerX, renderAlpha);
+  const renderPlayerY = lerp(session.prevPlayerPos.y, playerY, renderAlpha);
+
+  const renderGuideLine = ({ key, x1, y1, x2, y2, thickness, opacity }: GuideSegment) => {
+    const dx = x2 - x1;
+    const dy = y2 - y1;
     const distance = Math.hypot(dx, dy);
     if (distance < 1) return null;
     const angle = Math.atan2(dy, dx) * 180 / Math.PI;
@@ -1197,8 +735,8 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
         key={key}
         style={{
           position: 'absolute',
-          left: start.x,
-          top: start.y,
+          left: x1,
+          top: y1,
           width: distance,
           height: thickness,
           background: `rgba(255,80,80,${opacity})`,
@@ -1209,45 +747,11 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
     );
   };
 
-  const renderNow = Date.now();
-  const circleGuideElements: React.ReactNode[] = [];
-  for (let i = 0; i < enemyProjectiles.length; i++) {
-    const p = enemyProjectiles[i];
-    if (p.attackPattern !== 'CIRCLE') continue;
-    const centerDefined = p.orbitCenterX !== undefined && p.orbitCenterY !== undefined && p.orbitRadius !== undefined && p.orbitAngle !== undefined;
-    if (centerDefined && (p.circleMode === 'GUIDE_ORBIT' || p.circleMode === 'ORBIT')) {
-      const centerX = p.orbitCenterX!;
-      const centerY = p.orbitCenterY!;
-      const radius = p.orbitRadius!;
-      const direction = p.orbitDirection || 1;
-      const totalSegments = Math.max(12, CIRCLE_ORBIT_LOOPS * CIRCLE_GUIDE_SEGMENTS);
-      const progress = p.circleMode === 'ORBIT'
-        ? Math.max(0, Math.min(1, (p.orbitAccumulatedAngle || 0) / (Math.PI * 2 * CIRCLE_ORBIT_LOOPS)))
-        : 0;
-      const baseOpacity = p.circleMode === 'GUIDE_ORBIT' ? 0.45 : 0.45 * Math.max(0, 1 - progress);
-      let prevAngle = p.orbitAngle!;
-      let prevX = centerX + Math.cos(prevAngle) * radius;
-      let prevY = centerY + Math.sin(prevAngle) * radius;
-      const angleStep = direction * ((Math.PI * 2 * CIRCLE_ORBIT_LOOPS) / totalSegments);
-      for (let segIndex = 1; segIndex <= totalSegments; segIndex++) {
-        const angle = p.orbitAngle! + angleStep * segIndex;
-        const nextX = centerX + Math.cos(angle) * radius;
-        const nextY = centerY + Math.sin(angle) * radius;
-        const seg = renderGuideLine({ x: prevX, y: prevY }, { x: nextX, y: nextY }, `circle-guide-${p.id}-${segIndex}`, 2, baseOpacity);
-        if (seg) circleGuideElements.push(seg);
-        prevX = nextX;
-        prevY = nextY;
-      }
-    }
-    if (p.circleMode === 'GUIDE_DROP' || (p.circleMode === 'DROP' && p.circleGuideUntil !== undefined)) {
-      const fadeBase = p.circleGuideUntil !== undefined
-        ? Math.max(0, Math.min(1, (p.circleGuideUntil - renderNow) / CIRCLE_GUIDE_DURATION))
-        : 1;
-      const opacity = (p.circleMode === 'GUIDE_DROP' ? 0.55 : 0.45) * fadeBase;
-      if (opacity > 0.01) {
-        const seg = renderGuideLine({ x: p.x, y: p.y }, { x: p.x, y: GAME_HEIGHT }, `circle-drop-guide-${p.id}`, 3, opacity);
-        if (seg) circleGuideElements.push(seg);
-      }
+  const renderNow = session.clock.now;
+  const circleGuideSegments: GuideSegment[] = [];
+  if (renderer === 'dom') {
+    for (let i = 0; i < enemyProjectiles.length; i++) {
+      collectCircleGuideSegments(enemyProjectiles[i], renderNow, session.constants, circleGuideSegments);
     }
   }
 
@@ -1261,7 +765,8 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
     }
   };
 
-  const songProgressPercentage = totalLyricLines > 0 ? (gameStateRef.current.currentLyricIndex / totalLyricLines) * 100 : 0;
+  const songProgressPercentage = session.songProgressPercentage;
+  const subtitle = session.state.currentLyricIndex > 0 ? lyrics[session.state.currentLyricIndex - 1]?.secondary : undefined;
   let progressColorClass = 'bg-sky-400';
   if(songProgressPercentage > 95) progressColorClass = 'bg-rose-500';
   else if (songProgressPercentage > 75) progressColorClass = 'bg-red-500';
@@ -1269,7 +774,7 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
   else if (songProgressPercentage > 25) progressColorClass = 'bg-yellow-400';
 
   const allPassiveItemIcons = useMemo(() => {
-    const state = gameStateRef.current;
+    const state = session.state;
     
     // Diagonal Shot (unify with InfoPanel: use text-* color)
     const diagonalShotIcon = state.hasDiagonalShot ? (
@@ -1320,175 +825,253 @@ export default function GameScreen({ audioUrl, lyrics, onEndGame, superHardMode
 
     return [diagonalShotIcon, sideShotIcon, cancellerShotIcon, ricochetIcon, speedUpIcon];
   }, [
-      gameStateRef.current.hasDiagonalShot, 
-      gameStateRef.current.hasSideShot,
-      gameStateRef.current.hasCancellerShot,
-      gameStateRef.current.hasRicochetShot,
-      gameStateRef.current.ricochetStacks,
-      gameStateRef.current.speedUpCount
+      session.state.hasDiagonalShot, 
+      session.state.hasSideShot,
+      session.state.hasCancellerShot,
+      session.state.hasRicochetShot,
+      session.state.ricochetStacks,
+      session.state.speedUpCount
     ]);
 
-    const itemSpawnThreshold = superHardMode ? 0.07 : ITEM_SPAWN_PERCENTAGE;
-    const currentDefeatRatio = totalChars > 0 ? gameStateRef.current.enemiesDefeated / totalChars : 0;
-    const lastSpawnMilestone = itemSpawnMilestone.current;
+    const itemSpawnThreshold = session.constants.ITEM_SPAWN_PERCENTAGE;
+    const currentDefeatRatio = session.totalEnemies > 0 ? session.state.enemiesDefeated / session.totalEnemies : 0;
+    const lastSpawnMilestone = session.itemSpawnMilestone.current;
     let itemProgressPercentage = 0;
-    if (totalChars > 0 && itemSpawnThreshold > 0) {
+    if (session.totalEnemies > 0 && itemSpawnThreshold > 0) {
         const progressSinceLastItem = currentDefeatRatio - lastSpawnMilestone;
         itemProgressPercentage = Math.max(0, Math.min(100, (progressSinceLastItem / itemSpawnThreshold) * 100));
     }
 
 
   // Active item progress for circular timer around slot
-  const nowTs = Date.now();
+  const nowTs = session.clock.now;
   let activeItemProgress = 0; // remaining ratio 0..1
   if (stockedItem && stockedItemActiveUntil > nowTs) {
+    const { LASER_DURATION, PHASE_SHIELD_DURATION } = session.constants;
     const total = stockedItem === 'LASER_BEAM' ? LASER_DURATION : stockedItem === 'PHASE_SHIELD' ? PHASE_SHIELD_DURATION : 0;
     if (total > 0) activeItemProgress = Math.max(0, Math.min(1, (stockedItemActiveUntil - nowTs) / total));
   }
 
   return (
-    <div className="relative bg-slate-900 border-4 border-slate-700" style={{ width: GAME_WIDTH, height: GAME_HEIGHT, userSelect: 'none', cursor: 'none', overflow: 'hidden' }}>
-      <audio 
-        ref={audioRef} 
-        src={audioUrl}
-        preload="auto"
-        crossOrigin="anonymous"
-        onError={(e) => console.error("Audio load error:", e)}
-        onCanPlay={() => console.log("Audio can play")}
-      />
+    <div style={{ width: GAME_WIDTH * scale, height: GAME_HEIGHT * scale }}>
+      <div
+        className="relative bg-slate-900 border-4 border-slate-700"
+        style={{ width: GAME_WIDTH, height: GAME_HEIGHT, userSelect: 'none', cursor: 'none', overflow: 'hidden', touchAction: 'none', transform: `scale(${scale})`, transformOrigin: 'top left' }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <audio 
+          ref={audioRef} 
+          src={audioUrl}
+          preload="auto"
+          crossOrigin="anonymous"
+          onError={(e) => console.error("Audio load error:", e)}
+          onCanPlay={() => console.log("Audio can play")}
+        />
+
+        <div className="absolute bottom-2 right-2 px-2 py-1 rounded bg-black bg-opacity-60 text-lime-300 text-xs font-mono z-40">
+          FPS {fps > 0 ? fps : '--'} · {renderer.toUpperCase()}{simulation === 'worker' && ' · WORKER'}
+        </div>
+        
+        {/* Game Objects */}
+        {!isRespawning && !shouldHidePlayer && <PlayerComponent x={renderPlayerX} y={renderPlayerY} isInvincible={isInvincible} isLastStand={isLastStand} hasPhaseShield={isPhaseShieldActive} isFocused={isFocused} />}
+        {renderer === 'canvas' ? (
+          <>
+            <canvas ref={canvasRef} className="absolute inset-0 pointer-events-none" style={{ width: GAME_WIDTH, height: GAME_HEIGHT }} />
+            {items.map(i => <ItemComponent key={i.id} item={i} alpha={renderAlpha} />)}
+            {floatingTexts.map(ft => <FloatingTextComponent key={ft.id} {...ft} now={nowTs} />)}
+          </>
+        ) : (
+          <>
+            {enemies.map(e => <EnemyComponent key={e.id} enemy={e} isLastStand={isLastStand} alpha={renderAlpha}/>)}
+            {projectiles.map(p => <ProjectileComponent key={p.id} p={p} alpha={renderAlpha} />)}
+            {enemyProjectiles.map(p => <EnemyProjectileComponent key={p.id} p={p} alpha={renderAlpha} />)}
+            {circleGuideSegments.map(renderGuideLine)}
+            {items.map(i => <ItemComponent key={i.id} item={i} alpha={renderAlpha} />)}
+            {mines.map(m => <MineComponent key={m.id} mine={m} />)}
+            {explosions.map(ex => <ExplosionComponent key={ex.id} explosion={ex} />)}
+            {isLaserActive && <LaserBeamComponent x={renderPlayerX} y={renderPlayerY} />}
+            {floatingTexts.map(ft => <FloatingTextComponent key={ft.id} {...ft} now={nowTs} />)}
+
+            {/* Enemy Lasers */}
+            {enemies.map(e => {
+              if (e.eliteType === 'LASER' && e.laserState === 'AIMING' && e.laserTarget) {
+                  const start = { x: e.x + e.width / 2, y: e.y + e.height };
+                  const end = e.laserTarget;
+                  const angle = Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI;
+                  const distance = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
+                  return <div key={`laser-aim-${e.id}`} style={{ position: 'absolute', left: start.x, top: start.y, width: distance, height: 2, background: 'rgba(255,0,0,0.3)', transformOrigin: 'left center', transform: `rotate(${angle}deg)`}}/>
+              }
+              if (e.eliteType === 'LASER' && e.laserState === 'FIRING' && e.laserTarget) {
+                  const start = { x: e.x + e.width / 2, y: e.y + e.height };
+                  const end = e.laserTarget;
+                  const angle = Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI;
+                  const distance = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
+                  return <div key={`laser-fire-${e.id}`} style={{ position: 'absolute', left: start.x, top: start.y, width: distance, height: 6, background: 'linear-gradient(90deg, rgba(255,100,100,1) 0%, rgba(255,200,100,1) 50%, rgba(255,100,100,1) 100%)', transformOrigin: 'left center', transform: `rotate(${angle}deg)`}}/>
+              }
+              return null;
+            })}
+          </>
+        )}
 
-      <div className="absolute bottom-2 right-2 px-2 py-1 rounded bg-black bg-opacity-60 text-lime-300 text-xs font-mono z-40">
-        FPS {fps > 0 ? fps : '--'}
-      </div>
-      
-      {/* Game Objects */}
-      {!isRespawning && !shouldHidePlayer && <PlayerComponent x={playerX} y={playerY} isInvincible={isInvincible} isLastStand={isLastStand} hasPhaseShield={isPhaseShieldActive} />}
-      {enemies.map(e => <EnemyComponent key={e.id} enemy={e} isLastStand={isLastStand}/>)}
-      {projectiles.map(p => <ProjectileComponent key={p.id} p={p} />)}
-      {enemyProjectiles.map(p => <EnemyProjectileComponent key={p.id} p={p} />)}
-      {circleGuideElements}
-      {items.map(i => <ItemComponent key={i.id} item={i} />)}
-      {mines.map(m => <MineComponent key={m.id} mine={m} />)}
-      {explosions.map(ex => <ExplosionComponent key={ex.id} explosion={ex} />)}
-      {isLaserActive && <LaserBeamComponent x={playerX} y={playerY} />}
-      {floatingTexts.map(ft => <FloatingTextComponent key={ft.id} {...ft} />)}
-
-      {/* Enemy Lasers */}
-      {enemies.map(e => {
-        if (e.eliteType === 'LASER' && e.laserState === 'AIMING' && e.laserTarget) {
-            const start = { x: e.x + e.width / 2, y: e.y + e.height };
-            const end = e.laserTarget;
-            const angle = Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI;
-            const distance = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
-            return <div key={`laser-aim-${e.id}`} style={{ position: 'absolute', left: start.x, top: start.y, width: distance, height: 2, background: 'rgba(255,0,0,0.3)', transformOrigin: 'left center', transform: `rotate(${angle}deg)`}}/>
-        }
-        if (e.eliteType === 'LASER' && e.laserState === 'FIRING' && e.laserTarget) {
-            const start = { x: e.x + e.width / 2, y: e.y + e.height };
-            const end = e.laserTarget;
-            const angle = Math.atan2(end.y - start.y, end.x - start.x) * 180 / Math.PI;
-            const distance = Math.sqrt(Math.pow(end.x - start.x, 2) + Math.pow(end.y - start.y, 2));
-            return <div key={`laser-fire-${e.id}`} style={{ position: 'absolute', left: start.x, top: start.y, width: distance, height: 6, background: 'linear-gradient(90deg, rgba(255,100,100,1) 0%, rgba(255,200,100,1) 50%, rgba(255,100,100,1) 100%)', transformOrigin: 'left center', transform: `rotate(${angle}deg)`}}/>
-        }
-        return null;
-      })}
-
-      {/* UI Overlay */}
-      <div className="absolute top-0 left-0 right-0 p-3 text-white font-orbitron text-shadow-md flex justify-between items-start">
-        <div className="text-left">
-            {/* LIVES Display with Border */}
-            <div className="inline-flex items-center w-fit p-2 bg-transparent border-2 border-slate-600 rounded-lg">
-                <PlayerShipIcon className={`w-6 h-6 mr-2 ${isLastStand ? 'text-red-500' : 'text-cyan-400'}`} />
-                <span className="text-white font-bold">x{lives}</span>
-            </div>
-            {/* Passive Items Display with Border */}
-            <div className="mt-2 p-2 bg-transparent border-2 border-slate-600 rounded-lg">
-                <div className="flex items-center space-x-1 h-6">
-                    {allPassiveItemIcons}
-                </div>
-            </div>
-            {/* Special Item Slot with Progress Circle */}
-            <div className="mt-3 flex items-center space-x-2">
-                {/* Item Slot with circular timer */}
-                <div className="relative" title="Special Item (SHIFT or TAB)">
-                    <div className="w-12 h-12 bg-slate-800 border-2 border-slate-600 rounded-lg flex items-center justify-center">
-                        {stockedItem && (
-                          <div className={stockedItemActiveUntil > nowTs ? 'opacity-50' : ''}>
-                            {getStockedItemIcon(stockedItem)}
-                          </div>
-                        )}
-                    </div>
-                    {/* Progress circle overlay when active */}
-                    {activeItemProgress > 0 && (
-                      <div className="absolute -inset-1 pointer-events-none">
-                        <ProgressCircle size={56} strokeWidth={4} progress={activeItemProgress} className="text-amber-400" trackClassName="text-slate-700" />
+        {/* UI Overlay */}
+        <div className="absolute top-0 left-0 right-0 p-3 text-white font-orbitron text-shadow-md flex justify-between items-start">
+          <div className="text-left">
+              {/* LIVES Display with Border */}
+              <div className="inline-flex items-center w-fit p-2 bg-transparent border-2 border-slate-600 rounded-lg">
+                  <PlayerShipIcon className={`w-6 h-6 mr-2 ${isLastStand ? 'text-red-500' : 'text-cyan-400'}`} />
+                  <span className="text-white font-bold">x{lives}</span>
+              </div>
+              {/* Passive Items Display with Border */}
+              <div className="mt-2 p-2 bg-transparent border-2 border-slate-600 rounded-lg">
+                  <div className="flex items-center space-x-1 h-6">
+                      {allPassiveItemIcons}
+                  </div>
+              </div>
+              {/* Special Item Slot with Progress Circle */}
+              <div className="mt-3 flex items-center space-x-2">
+                  {/* Item Slot with circular timer */}
+                  <div className="relative" title="Special Item (SHIFT or TAB)">
+                      <div className="w-12 h-12 bg-slate-800 border-2 border-slate-600 rounded-lg flex items-center justify-center">
+                          {stockedItem && (
+                            <div className={stockedItemActiveUntil > nowTs ? 'opacity-50' : ''}>
+                              {getStockedItemIcon(stockedItem)}
+                            </div>
+                          )}
                       </div>
-                    )}
+                      {/* Progress circle overlay when active */}
+                      {activeItemProgress > 0 && (
+                        <div className="absolute -inset-1 pointer-events-none">
+                          <ProgressCircle size={56} strokeWidth={4} progress={activeItemProgress} className="text-amber-400" trackClassName="text-slate-700" />
+                        </div>
+                      )}
+                  </div>
+                  {/* Vertical Progress Bar */}
+                  <div className="w-1 h-12 bg-slate-600 rounded-full relative" title="Progress to next item drop">
+                      <div 
+                          className="absolute bottom-0 w-full bg-amber-400 transition-all duration-200 rounded-full"
+                          style={{ height: `${itemProgressPercentage}%` }}
+                      />
+                  </div>
+              </div>
+          </div>
+          <div className="text-right">
+              <p className="text-xl">SCORE: {score}</p>
+              {combo > 0 && (
+                <div className="flex flex-col items-end">
+                  <p className="text-sm font-bold text-amber-300">{combo} COMBO ×{scoreMultiplier}</p>
+                  <div className="w-24 h-1 bg-slate-600 rounded-full overflow-hidden">
+                    <div className="h-full bg-amber-400" style={{ width: `${comboRemaining * 100}%` }} />
+                  </div>
                 </div>
-                {/* Vertical Progress Bar */}
-                <div className="w-1 h-12 bg-slate-600 rounded-full relative" title="Progress to next item drop">
-                    <div 
-                        className="absolute bottom-0 w-full bg-amber-400 transition-all duration-200 rounded-full"
-                        style={{ height: `${itemProgressPercentage}%` }}
-                    />
+              )}
+              <p className="text-sm">DEFEATED: {enemiesDefeated} / {session.totalEnemies}</p>
+              <div className="flex items-center justify-end gap-2" title="Graze charge: a full charge stocks a bomb">
+                <p className="text-sm">GRAZE: {grazeCount}</p>
+                <div className="w-12 h-1.5 bg-slate-600 rounded-full overflow-hidden">
+                  <div className="h-full bg-fuchsia-400" style={{ width: `${(grazeCharge / session.constants.MAX_GRAZE_CHARGE) * 100}%` }} />
                 </div>
-            </div>
-        </div>
-        <div className="text-right">
-            <p className="text-xl">SCORE: {score}</p>
-            <p className="text-sm">DEFEATED: {enemiesDefeated} / {totalChars}</p>
-            <p className="text-sm">E.RATE: {currentEnemySpawnRate.toFixed(1)}/s</p>
+              </div>
+              <p className="text-sm">E.RATE: {currentEnemySpawnRate.toFixed(1)}/s</p>
+          </div>
         </div>
-      </div>
-      
-      <div className="absolute top-2 left-1/2 -translate-x-1/2 w-1/2">
-        <div className="relative w-full bg-slate-700 rounded-full h-4 border-2 border-slate-500 overflow-hidden">
-            <div className="absolute top-0 bottom-0 left-1/2 w-0.5 bg-slate-400 opacity-50 z-10"></div>
-            <div className={`${progressColorClass} h-full rounded-full transition-all duration-200`} style={{ width: `${songProgressPercentage}%` }}></div>
-            <div className="absolute inset-0 flex items-center justify-center text-xs font-bold text-white text-shadow-md">
-                {Math.floor(songProgressPercentage)}%
-            </div>
+        
+        <div className="absolute top-2 left-1/2 -translate-x-1/2 w-1/2">
+          <div className="relative w-full bg-slate-700 rounded-full h-4 border-2 border-slate-500 overflow-hidden">
+              <div className="absolute top-0 bottom-0 left-1/2 w-0.5 bg-slate-400 opacity-50 z-10"></div>
+              <div className={`${progressColorClass} h-full rounded-full transition-all duration-200`} style={{ width: `${songProgressPercentage}%` }}></div>
+              <div className="absolute inset-0 flex items-center justify-center text-xs font-bold text-white text-shadow-md">
+                  {Math.floor(songProgressPercentage)}%
+              </div>
+          </div>
         </div>
-      </div>
 
-      {/* Backspace Long Press Progress Bar */}
-      {gameStateRef.current.backspacePressProgress > 0 && (
-        <div className="absolute bottom-20 left-1/2 -translate-x-1/2 w-1/2">
-          <div className="text-center text-white text-sm mb-1 font-bold">
-            [BACKSPACE] TO RESTART: {Math.floor(gameStateRef.current.backspacePressProgress)}%
+        {/* Subtitle: translation/romanization of the last triggered line */}
+        {subtitle && (
+          <div className="absolute bottom-10 left-1/2 -translate-x-1/2 max-w-[80%] px-3 py-1 rounded bg-black bg-opacity-50 text-slate-100 text-lg text-center text-shadow-md pointer-events-none z-30">
+            {subtitle}
           </div>
-          <div className="relative w-full bg-slate-700 rounded-full h-3 border-2 border-slate-500 overflow-hidden">
-            <div 
-              className="bg-red-500 h-full rounded-full transition-all duration-100" 
-              style={{ width: `${gameStateRef.current.backspacePressProgress}%` }}
-            ></div>
-          </div>
-        </div>
-      )}
+        )}
 
-      
-      {gameStateRef.current.showSkip && (
-        <div className="absolute inset-0 bg-black bg-opacity-50 flex flex-col items-center justify-center z-40">
-            <div className="text-center">
-                <p className="text-white text-3xl font-orbitron mb-4">SKIP INTRO</p>
-                <p className="text-sky-300 text-xl font-bold">[PRESS & HOLD SPACEBAR]</p>
+        {/* Backspace Long Press Progress Bar */}
+        {session.state.backspacePressProgress > 0 && (
+          <div className="absolute bottom-20 left-1/2 -translate-x-1/2 w-1/2">
+            <div className="text-center text-white text-sm mb-1 font-bold">
+              [{describeKeys(bindings, 'abort')}] TO RESTART: {Math.floor(session.state.backspacePressProgress)}%
             </div>
-             <div className="absolute bottom-1/4 w-1/2 bg-gray-600 rounded-full h-2.5">
-                <div className="bg-sky-400 h-2.5 rounded-full transition-all duration-100" style={{width: `${gameStateRef.current.spacePressProgress}%`}}></div>
+            <div className="relative w-full bg-slate-700 rounded-full h-3 border-2 border-slate-500 overflow-hidden">
+              <div 
+                className="bg-red-500 h-full rounded-full transition-all duration-100" 
+                style={{ width: `${session.state.backspacePressProgress}%` }}
+              ></div>
             </div>
-        </div>
-      )}
+          </div>
+        )}
+
+        
+        {session.state.showSkip && (
+          <div className="absolute inset-0 bg-black bg-opacity-50 flex flex-col items-center justify-center z-40">
+              <div className="text-center">
+                  <p className="text-white text-3xl font-orbitron mb-4">SKIP INTRO</p>
+                  {!isReplay && <p className="text-sky-300 text-xl font-bold">[PRESS & HOLD {describeKeys(bindings, 'skip')}]</p>}
+              </div>
+               <div className="absolute bottom-1/4 w-1/2 bg-gray-600 rounded-full h-2.5">
+                  <div className="bg-sky-400 h-2.5 rounded-full transition-all duration-100" style={{width: `${session.state.spacePressProgress}%`}}></div>
+              </div>
+          </div>
+        )}
 
-      {isLastStand && <div className="absolute inset-0 border-4 border-red-500 rounded-none pointer-events-none animate-pulse box-shadow-last-stand"></div>}
+        {isReplay && (
+          <div className="absolute bottom-4 right-4 px-3 py-1 rounded border-2 border-amber-400 text-amber-300 font-orbitron text-sm font-bold animate-pulse pointer-events-none z-40">
+            REPLAY
+          </div>
+        )}
 
-      {/* Game Over Display */}
-      {showGameOverText && (
-        <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-50">
-          <h1 className="text-8xl font-orbitron font-bold text-red-500 animate-pulse text-center drop-shadow-2xl">
-            GAME OVER
-          </h1>
-        </div>
-      )}
+        {isLastStand && <div className="absolute inset-0 border-4 border-red-500 rounded-none pointer-events-none animate-pulse box-shadow-last-stand"></div>}
 
+        {/* Game Over Display */}
+        {showGameOverText && (
+          <div className="absolute inset-0 flex items-center justify-center pointer-events-none z-50">
+            <h1 className="text-8xl font-orbitron font-bold text-red-500 animate-pulse text-center drop-shadow-2xl">
+              GAME OVER
+            </h1>
+          </div>
+        )}
+
+        {isTouchDevice && !isReplay && !isPaused && (
+          <div className="absolute bottom-4 left-4 flex gap-3 z-40" onPointerDown={e => e.stopPropagation()}>
+            <button
+              onClick={() => !session.state.isGameOverDelayed && session.queueAction('special')}
+              disabled={!stockedItem}
+              className="w-20 h-20 rounded-full bg-amber-500 bg-opacity-70 border-4 border-amber-300 text-black font-orbitron font-bold text-sm disabled:opacity-30"
+            >
+              SPECIAL
+            </button>
+            <button
+              onClick={pauseGame}
+              className="w-12 h-12 self-end rounded-full bg-slate-700 bg-opacity-70 border-2 border-slate-400 text-white font-bold"
+              title="Pause"
+            >
+              II
+            </button>
+          </div>
+        )}
+
+        {isPaused && (
+          <PauseMenu
+            volumes={volumes}
+            resumeKeys={describeKeys(bindings, 'pause')}
+            onVolumesChange={handleVolumesChange}
+            canRestartFromCheckpoint={pauseCheckpoint !== null}
+            onResume={resumeGame}
+            onRestart={() => onRestart()}
+            onRestartFromCheckpoint={() => pauseCheckpoint && onRestart(pauseCheckpoint)}
+            onQuit={onQuit}
+          />
+        )}
+      </div>
     </div>
   );
 }
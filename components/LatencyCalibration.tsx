@@ -0,0 +1,220 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { audibleContextTimeAt, clampAudioOffset } from '@/services/audioSyncClock';
+
+interface LatencyCalibrationProps {
+  initialOffset: number; // ms
+  onSave: (offsetMs: number) => void;
+  onCancel: () => void;
+}
+
+type CalibrationPhase = 'intro' | 'audio' | 'visual' | 'result';
+
+const BEAT_INTERVAL_MS = 600;
+const BEAT_COUNT = 16;
+// The first beats are for finding the rhythm and are not measured
+const WARMUP_BEATS = 4;
+const MIN_TAPS = 6;
+const LEAD_IN_MS = 1000;
+const FLASH_DURATION_MS = 80;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+// Signed ms from a tap to the nearest beat, or null for warm-up and stray taps
+function beatError(tapMs: number, firstBeatMs: number): number | null {
+  const beat = Math.round((tapMs - firstBeatMs) / BEAT_INTERVAL_MS);
+  if (beat < WARMUP_BEATS || beat >= BEAT_COUNT) return null;
+  return tapMs - (firstBeatMs + beat * BEAT_INTERVAL_MS);
+}
+
+function scheduleClick(context: AudioContext, time: number): void {
+  const oscillator = context.createOscillator();
+  const gainNode = context.createGain();
+  oscillator.connect(gainNode);
+  gainNode.connect(context.destination);
+  oscillator.frequency.setValueAtTime(1000, time);
+  gainNode.gain.setValueAtTime(0.4, time);
+  gainNode.gain.exponentialRampToValueAtTime(0.001, time + 0.05);
+  oscillator.start(time);
+  oscillator.stop(time + 0.06);
+}
+
+/**
+ * Measures audio/visual latency by having the player tap along to clicks they
+ * can only hear, then to flashes they can only see. Both include the same
+ * reaction bias, so the difference between them is the audio lag the
+ * AudioContext does not report.
+ */
+export default function LatencyCalibration({ initialOffset, onSave, onCancel }: LatencyCalibrationProps): React.ReactNode {
+  const [phase, setPhase] = useState<CalibrationPhase>('intro');
+  const [tapCount, setTapCount] = useState(0);
+  const [flash, setFlash] = useState(false);
+  // Median tap errors per phase; null when either phase had too few taps on the beat
+  const [result, setResult] = useState<{ audioMs: number; visualMs: number } | null>(null);
+
+  const contextRef = useRef<AudioContext | null>(null);
+  // Context ms during the audio phase, performance ms during the visual phase
+  const firstBeatRef = useRef(0);
+  const errorsRef = useRef<{ audio: number[]; visual: number[] }>({ audio: [], visual: [] });
+
+  useEffect(() => () => {
+    contextRef.current?.close();
+    contextRef.current = null;
+  }, []);
+
+  const startAudioPhase = useCallback(async () => {
+    const context = contextRef.current ?? new (window.AudioContext || (window as any).webkitAudioContext)();
+    contextRef.current = context;
+    if (context.state === 'suspended') await context.resume();
+    const start = context.currentTime + LEAD_IN_MS / 1000;
+    for (let i = 0; i < BEAT_COUNT; i++) scheduleClick(context, start + (i * BEAT_INTERVAL_MS) / 1000);
+    firstBeatRef.current = start * 1000;
+    errorsRef.current = { audio: [], visual: [] };
+    setTapCount(0);
+    setPhase('audio');
+  }, []);
+
+  // The visual phase follows once the last click has played
+  useEffect(() => {
+    if (phase !== 'audio') return;
+    const timeoutId = window.setTimeout(() => {
+      firstBeatRef.current = performance.now() + LEAD_IN_MS;
+      setTapCount(0);
+      setPhase('visual');
+    }, LEAD_IN_MS + (BEAT_COUNT + 1) * BEAT_INTERVAL_MS);
+    return () => clearTimeout(timeoutId);
+  }, [phase]);
+
+  useEffect(() => {
+    if (phase !== 'visual') return;
+    let rafId = 0;
+    const loop = (now: number) => {
+      const sinceFirst = now - firstBeatRef.current;
+      if (sinceFirst >= (BEAT_COUNT + 1) * BEAT_INTERVAL_MS) {
+        const { audio, visual } = errorsRef.current;
+        setResult(audio.length >= MIN_TAPS && visual.length >= MIN_TAPS ? { audioMs: median(audio), visualMs: median(visual) } : null);
+        setFlash(false);
+        setPhase('result');
+        return;
+      }
+      const beat = Math.floor(sinceFirst / BEAT_INTERVAL_MS);
+      setFlash(beat >= 0 && beat < BEAT_COUNT && sinceFirst - beat * BEAT_INTERVAL_MS < FLASH_DURATION_MS);
+      rafId = requestAnimationFrame(loop);
+    };
+    rafId = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(rafId);
+  }, [phase]);
+
+  // Event timestamps rather than handler time, so a busy main thread does not skew the measurement
+  const handleTap = useCallback((timeStamp: number) => {
+    let error: number | null;
+    if (phase === 'audio' && contextRef.current) {
+      error = beatError(audibleContextTimeAt(contextRef.current, timeStamp) * 1000, firstBeatRef.current);
+    } else if (phase === 'visual') {
+      error = beatError(timeStamp, firstBeatRef.current);
+    } else {
+      return;
+    }
+    setTapCount(count => count + 1);
+    if (error !== null) errorsRef.current[phase].push(error);
+  }, [phase]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space') {
+        e.preventDefault();
+        if (!e.repeat) handleTap(e.timeStamp);
+      } else if (e.code === 'Escape') {
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleTap, onCancel]);
+
+  const measuredOffset = result ? clampAudioOffset(result.audioMs - result.visualMs) : null;
+  const formatMs = (ms: number) => `${ms > 0 ? '+' : ''}${Math.round(ms)} ms`;
+
+  return (
+    <div className="w-full max-w-xl p-6 space-y-4 bg-slate-800 rounded-2xl shadow-2xl text-white text-center">
+      <h1 className="text-3xl font-bold font-orbitron text-shadow-neon">LATENCY CALIBRATION</h1>
+
+      {phase === 'intro' && (
+        <>
+          <p className="text-slate-300 leading-relaxed">
+            Tap <span className="font-mono text-sky-300">SPACE</span> (or click the box) in time with {BEAT_COUNT} clicks you can only hear,
+            then with {BEAT_COUNT} flashes you can only see. Use the headphones or speakers you play with.
+          </p>
+          <p className="text-sky-300">Current offset: {formatMs(initialOffset)}</p>
+          <div className="flex justify-center gap-2">
+            <button
+              onClick={startAudioPhase}
+              className="px-6 py-3 bg-sky-500 text-white font-bold rounded-lg hover:bg-sky-400 transition-all duration-300 font-orbitron box-shadow-neon"
+            >
+              START
+            </button>
+            {initialOffset !== 0 && (
+              <button
+                onClick={() => onSave(0)}
+                className="px-4 py-2 bg-slate-700 text-sky-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+              >
+                Reset to 0 ms
+              </button>
+            )}
+          </div>
+        </>
+      )}
+
+      {(phase === 'audio' || phase === 'visual') && (
+        <>
+          <p className="text-slate-300">{phase === 'audio' ? 'Listen and tap on every click.' : 'Watch and tap on every flash.'}</p>
+          <div
+            onPointerDown={e => handleTap(e.timeStamp)}
+            className={`mx-auto h-40 w-40 rounded-full border-4 border-slate-500 cursor-pointer select-none ${flash ? 'bg-white' : 'bg-slate-900'}`}
+          />
+          <p className="text-sm text-slate-400 font-mono">Taps: {tapCount}</p>
+        </>
+      )}
+
+      {phase === 'result' && (
+        <>
+          {result && measuredOffset !== null ? (
+            <div className="space-y-1 font-mono text-sm">
+              <p className="text-slate-300">Audio taps: {formatMs(result.audioMs)} · Visual taps: {formatMs(result.visualMs)}</p>
+              <p className="text-2xl text-sky-300">Offset: {formatMs(measuredOffset)}</p>
+              <p className="text-slate-400">Previously {formatMs(initialOffset)}</p>
+            </div>
+          ) : (
+            <p className="text-amber-300">Not enough taps landed on the beat. Try again.</p>
+          )}
+          <div className="flex justify-center gap-2">
+            {measuredOffset !== null && (
+              <button
+                onClick={() => onSave(measuredOffset)}
+                className="px-6 py-3 bg-sky-500 text-white font-bold rounded-lg hover:bg-sky-400 transition-all duration-300 font-orbitron box-shadow-neon"
+              >
+                SAVE
+              </button>
+            )}
+            <button
+              onClick={startAudioPhase}
+              className="px-4 py-2 bg-slate-700 text-sky-200 font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300"
+            >
+              Try Again
+            </button>
+          </div>
+        </>
+      )}
+
+      <button
+        onClick={onCancel}
+        className="block mx-auto px-4 py-2 bg-slate-600 text-white font-bold rounded-lg hover:bg-slate-500 transition-all duration-300"
+      >
+        Back
+      </button>
+    </div>
+  );
+}
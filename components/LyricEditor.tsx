@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { LyricLine } from '@/types';
+import { parseLRC, serializeLRC, formatLRCTimestamp } from '@/services/lrcParser';
+import { DEFAULT_GAME_CONSTANTS } from '@/services/gameConstants';
+
+interface LyricEditorProps {
+  audioUrl: string;
+  lyrics: LyricLine[];
+  title: string;
+  onSave: (lyrics: LyricLine[]) => void;
+  onCancel: () => void;
+}
+
+const NUDGE_STEP = 0.05; // seconds
+const COARSE_NUDGE_STEP = 0.5;
+
+const shiftLine = (line: LyricLine, delta: number): LyricLine => ({
+  ...line,
+  time: Math.max(0, line.time + delta),
+  words: line.words?.map(word => ({ ...word, time: Math.max(0, word.time + delta) })),
+});
+
+const toFileName = (title: string) => `${title.replace(/[\\/:*?"<>|]+/g, '_').trim() || 'lyrics'}.lrc`;
+
+export default function LyricEditor({ audioUrl, lyrics, title, onSave, onCancel }: LyricEditorProps): React.ReactNode {
+  const { BGM_VOLUME } = DEFAULT_GAME_CONSTANTS;
+  const [lines, setLines] = useState<LyricLine[]>(() => lyrics.map(line => shiftLine(line, 0)));
+  const [selectedIndex, setSelectedIndex] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [offsetInput, setOffsetInput] = useState('0');
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const listRef = useRef<HTMLUListElement>(null);
+
+  // Poll the audio clock every frame so the playhead highlight stays smooth
+  useEffect(() => {
+    let rafId = 0;
+    const tick = () => {
+      if (audioRef.current) setCurrentTime(audioRef.current.currentTime);
+      rafId = requestAnimationFrame(tick);
+    };
+    rafId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(rafId);
+  }, []);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.volume = BGM_VOLUME;
+  }, [BGM_VOLUME]);
+
+  useEffect(() => {
+    const row = listRef.current?.children[selectedIndex] as HTMLElement | undefined;
+    row?.scrollIntoView({ block: 'nearest' });
+  }, [selectedIndex]);
+
+  const togglePlayback = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().catch(error => console.error('Editor playback failed:', error));
+    } else {
+      audio.pause();
+    }
+  }, []);
+
+  const nudgeSelected = useCallback((delta: number) => {
+    setLines(prev => prev.map((line, idx) => (idx === selectedIndex ? shiftLine(line, delta) : line)));
+  }, [selectedIndex]);
+
+  // Tap-sync: stamp the selected line at the playhead and advance to the next one
+  const tapSync = useCallback(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const time = audio.currentTime;
+    setLines(prev => prev.map((line, idx) => (idx === selectedIndex ? shiftLine(line, time - line.time) : line)));
+    setSelectedIndex(prev => Math.min(lines.length - 1, prev + 1));
+  }, [selectedIndex, lines.length]);
+
+  const seekToSelected = useCallback(() => {
+    const audio = audioRef.current;
+    const line = lines[selectedIndex];
+    if (!audio || !line) return;
+    audio.currentTime = Math.max(0, line.time - 1);
+  }, [lines, selectedIndex]);
+
+  const applyGlobalOffset = useCallback(() => {
+    const offsetMs = parseInt(offsetInput, 10);
+    if (!Number.isFinite(offsetMs) || offsetMs === 0) return;
+    // Same sign as an LRC [offset] tag: positive shifts lyrics earlier
+    setLines(prev => prev.map(line => shiftLine(line, -offsetMs / 1000)));
+    setOffsetInput('0');
+  }, [offsetInput]);
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([serializeLRC(lines)], { type: 'text/plain;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = toFileName(title);
+    anchor.click();
+    URL.revokeObjectURL(url);
+  }, [lines, title]);
+
+  // Round-trip through the LRC text so the game plays exactly what would be exported
+  const handleSave = useCallback(() => {
+    audioRef.current?.pause();
+    onSave(parseLRC(serializeLRC(lines)));
+  }, [lines, onSave]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement) return;
+      const step = e.shiftKey ? COARSE_NUDGE_STEP : NUDGE_STEP;
+      switch (e.key) {
+        case 'ArrowUp':
+          e.preventDefault();
+          setSelectedIndex(prev => Math.max(0, prev - 1));
+          break;
+        case 'ArrowDown':
+          e.preventDefault();
+          setSelectedIndex(prev => Math.min(lines.length - 1, prev + 1));
+          break;
+        case 'ArrowLeft':
+          e.preventDefault();
+          nudgeSelected(-step);
+          break;
+        case 'ArrowRight':
+          e.preventDefault();
+          nudgeSelected(step);
+          break;
+        case ' ':
+          e.preventDefault();
+          togglePlayback();
+          break;
+        case 'Enter':
+          e.preventDefault();
+          tapSync();
+          break;
+        case 'p':
+          seekToSelected();
+          break;
+        default:
+          break;
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [lines.length, nudgeSelected, togglePlayback, tapSync, seekToSelected]);
+
+  // Last line whose stamp has passed is the one currently being sung
+  let activeIndex = -1;
+  for (let i = 0; i < lines.length; i++) {
+    if (lines[i].time <= currentTime) activeIndex = i;
+  }
+
+  return (
+    <div className="w-full max-w-3xl p-6 space-y-4 bg-slate-800 rounded-2xl shadow-2xl text-white">
+      <div className="text-center">
+        <h1 className="text-3xl font-bold font-orbitron text-shadow-neon">LYRIC EDITOR</h1>
+        <p className="mt-1 text-sky-300 truncate">{title}</p>
+      </div>
+
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        preload="auto"
+        className="w-full"
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-3 text-sm">
+        <div className="flex items-center gap-2">
+          <button
+            onClick={togglePlayback}
+            className="px-3 py-2 rounded bg-sky-600 hover:bg-sky-500 font-bold w-20"
+          >
+            {isPlaying ? 'Pause' : 'Play'}
+          </button>
+          <span className="font-mono text-slate-300">{formatLRCTimestamp(currentTime)}</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <label htmlFor="editor-offset" className="text-slate-300" title="Same as an LRC [offset] tag">Global offset (ms, + = earlier)</label>
+          <input
+            id="editor-offset"
+            type="number"
+            step={10}
+            value={offsetInput}
+            onChange={(e) => setOffsetInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') applyGlobalOffset(); }}
+            className="w-24 px-2 py-1 rounded bg-slate-700 border border-slate-600 font-mono"
+          />
+          <button onClick={applyGlobalOffset} className="px-3 py-1 rounded bg-slate-700 border border-slate-600 hover:bg-slate-600">
+            Apply
+          </button>
+        </div>
+      </div>
+
+      <ul ref={listRef} className="h-80 overflow-y-auto rounded-lg border border-slate-700 bg-slate-900 divide-y divide-slate-800">
+        {lines.map((line, idx) => (
+          <li
+            key={idx}
+            onClick={() => setSelectedIndex(idx)}
+            className={`flex items-center gap-4 px-3 py-1.5 cursor-pointer ${
+              idx === selectedIndex ? 'bg-sky-900/70' : 'hover:bg-slate-800'
+            } ${idx === activeIndex ? 'text-amber-300' : 'text-slate-200'}`}
+          >
+            <span className="font-mono text-xs text-slate-400 w-16 flex-shrink-0">{formatLRCTimestamp(line.time)}</span>
+            <span className="truncate">{line.text}</span>
+            {line.secondary && <span className="truncate text-xs text-slate-400">{line.secondary}</span>}
+          </li>
+        ))}
+      </ul>
+
+      <div className="text-xs text-slate-400 grid grid-cols-2 gap-x-4 gap-y-1">
+        <span>↑/↓ - Select line</span>
+        <span>←/→ - Nudge 50ms (SHIFT: 500ms)</span>
+        <span>ENTER - Tap-sync line to playhead</span>
+        <span>SPACE - Play / Pause</span>
+        <span>P - Preview from selected line</span>
+      </div>
+
+      <div className="flex gap-2">
+        <button onClick={handleSave} className="flex-1 px-4 py-3 rounded-lg bg-emerald-600 hover:bg-emerald-500 font-bold font-orbitron">
+          USE TIMING
+        </button>
+        <button onClick={handleExport} className="px-4 py-3 rounded-lg bg-slate-700 border border-slate-600 hover:bg-slate-600 font-bold">
+          Export .lrc
+        </button>
+        <button onClick={onCancel} className="px-4 py-3 rounded-lg bg-slate-600 hover:bg-slate-500 font-bold">
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
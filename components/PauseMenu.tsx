@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { VolumeSettings } from '@/types';
+
+interface PauseMenuProps {
+  volumes: VolumeSettings;
+  resumeKeys: string;
+  onVolumesChange: (volumes: VolumeSettings) => void;
+  canRestartFromCheckpoint: boolean;
+  onResume: () => void;
+  onRestart: () => void;
+  onRestartFromCheckpoint: () => void;
+  onQuit: () => void;
+}
+
+const MENU_BUTTON_CLASS = 'block w-64 mx-auto px-4 py-2 bg-slate-700 text-white font-bold rounded-lg border border-slate-500 hover:bg-slate-600 transition-all duration-300 disabled:opacity-40 disabled:cursor-not-allowed';
+
+const VolumeSlider = ({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) => (
+  <label className="flex items-center justify-between gap-4 text-sm">
+    <span className="text-sky-300 w-28 text-left">{label}</span>
+    <input
+      type="range"
+      min={0}
+      max={100}
+      value={Math.round(value * 100)}
+      onChange={e => onChange(Number(e.target.value) / 100)}
+      className="flex-1 accent-sky-400"
+    />
+    <span className="w-12 text-right font-mono">{Math.round(value * 100)}%</span>
+  </label>
+);
+
+export default function PauseMenu({ volumes, resumeKeys, onVolumesChange, canRestartFromCheckpoint, onResume, onRestart, onRestartFromCheckpoint, onQuit }: PauseMenuProps): React.ReactNode {
+  const [showSettings, setShowSettings] = useState(false);
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black bg-opacity-70" style={{ cursor: 'auto' }}>
+      <div className="w-96 p-6 space-y-3 bg-slate-800 rounded-2xl shadow-2xl text-white text-center">
+        <h2 className="text-4xl font-bold font-orbitron text-shadow-neon mb-4">{showSettings ? 'SETTINGS' : 'PAUSED'}</h2>
+        {showSettings ? (
+          <>
+            <VolumeSlider label="Music" value={volumes.music} onChange={music => onVolumesChange({ ...volumes, music })} />
+            <VolumeSlider label="Sound Effects" value={volumes.effects} onChange={effects => onVolumesChange({ ...volumes, effects })} />
+            <button onClick={() => setShowSettings(false)} className={`${MENU_BUTTON_CLASS} mt-4`}>Back</button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={onResume}
+              className="block w-64 mx-auto px-4 py-3 bg-sky-500 text-white font-bold rounded-lg hover:bg-sky-400 transition-all duration-300 font-orbitron box-shadow-neon"
+            >
+              RESUME
+            </button>
+            <button onClick={onRestart} className={MENU_BUTTON_CLASS}>Restart From Start</button>
+            <button onClick={onRestartFromCheckpoint} disabled={!canRestartFromCheckpoint} className={MENU_BUTTON_CLASS}>
+              Restart From Checkpoint
+            </button>
+            <button onClick={() => setShowSettings(true)} className={MENU_BUTTON_CLASS}>Settings</button>
+            <button onClick={onQuit} className={MENU_BUTTON_CLASS}>Quit to READY</button>
+            <p className="pt-2 text-xs text-slate-400">{resumeKeys} to resume · Checkpoints are the start of the latest lyric line</p>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
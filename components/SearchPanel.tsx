@@ -1,11 +1,11 @@
 import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
-import { parseLRC } from '@/services/lrcParser';
+import { parseLyrics } from '@/services/lyricsFormats';
 import type { ITunesTrack } from '@/services/api';
 import { searchSongs, downloadByAppleMusicUrl } from '@/services/api';
 import type { LyricLine, SongMetadata } from '@/types';
 import { getCookie, setCookie } from '@/services/cookies';
 import { PreviewPlayIcon } from '@/components/icons';
-import GameConstants from '@/services/gameConstants';
+import { DEFAULT_GAME_CONSTANTS } from '@/services/gameConstants';
 import {
   AppleHistoryEntry,
   APPLE_HISTORY_LIMIT,
@@ -32,7 +32,7 @@ function msToTime(ms?: number) {
 }
 
 export default function SearchPanel({ onLoaded, historyVersion }: SearchPanelProps): React.ReactNode {
-  const { BGM_VOLUME } = GameConstants.getInstance();
+  const { BGM_VOLUME } = DEFAULT_GAME_CONSTANTS;
   const [q, setQ] = useState('');
   const [country, setCountry] = useState('US');
   const [loading, setLoading] = useState(false);
@@ -91,11 +91,11 @@ export default function SearchPanel({ onLoaded, historyVersion }: SearchPanelPro
     setDownloadingId(t.trackId);
     setError(null);
     try {
-      const { audioDataUrl, lrcText } = await downloadByAppleMusicUrl(t.trackViewUrl);
+      const { audioDataUrl, lrcText, lyricsFormat } = await downloadByAppleMusicUrl(t.trackViewUrl);
       if (!lrcText || !lrcText.trim()) {
         throw new Error('No synced lyrics were returned for this track.');
       }
-      const lyrics = parseLRC(lrcText);
+      const { lines: lyrics } = parseLyrics(lrcText, { format: lyricsFormat });
       if (!lyrics.length) throw new Error('No synced lyrics found for this track.');
       // Prefer 600px artwork if available
       const artwork = t.artworkUrl100 ? t.artworkUrl100.replace(/100x100bb/, '600x600bb') : undefined;
@@ -126,11 +126,11 @@ export default function SearchPanel({ onLoaded, historyVersion }: SearchPanelPro
       setDownloadingId(entry.trackId);
       setError(null);
       try {
-        const { audioDataUrl, lrcText } = await downloadByAppleMusicUrl(entry.url);
+        const { audioDataUrl, lrcText, lyricsFormat } = await downloadByAppleMusicUrl(entry.url);
         if (!lrcText || !lrcText.trim()) {
           throw new Error('No synced lyrics were returned for this track.');
         }
-        const lyrics = parseLRC(lrcText);
+        const { lines: lyrics } = parseLyrics(lrcText, { format: lyricsFormat });
         if (!lyrics.length) throw new Error('No synced lyrics found for this track.');
         const metadataTitle = entry.artist ? `${entry.title} - ${entry.artist}` : entry.title;
         const metadata: SongMetadata = {
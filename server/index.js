@@ -23,6 +23,12 @@ const SERVE_FRONTEND = process.env.LS_SERVE_FRONTEND === '1' || MODE === 'integr
 const DIST_ROOT = process.env.LS_DIST_DIR ? path.resolve(ROOT, process.env.LS_DIST_DIR) : path.join(ROOT, 'dist');
 const DIST_INDEX = path.join(DIST_ROOT, 'index.html');
 const DIST_EXISTS = SERVE_FRONTEND && fs.existsSync(DIST_ROOT);
+// gamdl can emit synced lyrics as lrc, srt or ttml; the frontend parses all of them
+const SYNCED_LYRICS_FORMATS = ['lrc', 'srt', 'ttml'];
+const SYNCED_LYRICS_FORMAT = SYNCED_LYRICS_FORMATS.includes(process.env.GAMDL_SYNCED_LYRICS_FORMAT)
+  ? process.env.GAMDL_SYNCED_LYRICS_FORMAT
+  : 'lrc';
+const LYRICS_EXTENSIONS = ['.lrc', '.srt', '.ttml', '.vtt'];
 
 if (SERVE_FRONTEND) {
   if (DIST_EXISTS) {
@@ -295,7 +301,7 @@ async function handleDownload(req, res) {
   const outDir = path.join(TMP_ROOT, id);
   await fsp.mkdir(outDir, { recursive: true });
 
-  const args = ['-o', outDir, '--synced-lyrics-format', 'lrc'];
+  const args = ['-o', outDir, '--synced-lyrics-format', SYNCED_LYRICS_FORMAT];
 
   // Optional cookies path (env or body)
   const cookiesPath = body.cookiesPath || process.env.GAMDL_COOKIES || path.join(ROOT, 'cookies.txt');
@@ -329,10 +335,10 @@ async function handleDownload(req, res) {
 
     try {
       const audioPath = await findFirstByExt(outDir, ['.m4a', '.mp4', '.m4v']);
-      const lrcPath = await findFirstByExt(outDir, ['.lrc']);
+      const lrcPath = await findFirstByExt(outDir, LYRICS_EXTENSIONS);
       if (!lrcPath) {
         try { await fsp.rm(outDir, { recursive: true, force: true }); } catch {}
-        return sendJSON(res, 404, { error: 'Synced lyrics not available for this track (no LRC file was downloaded).', logs });
+        return sendJSON(res, 404, { error: 'Synced lyrics not available for this track (no lyrics file was downloaded).', logs });
       }
       if (!audioPath) {
         try { await fsp.rm(outDir, { recursive: true, force: true }); } catch {}
@@ -340,13 +346,14 @@ async function handleDownload(req, res) {
       }
       const audioBuf = await fsp.readFile(audioPath);
       const lrcText = await fsp.readFile(lrcPath, 'utf8');
+      const lyricsFormat = path.extname(lrcPath).slice(1).toLowerCase();
       const mime = detectMimeFromExt(audioPath);
       const audioDataUrl = `data:${mime};base64,${audioBuf.toString('base64')}`;
 
       // best-effort cleanup
       try { await fsp.rm(outDir, { recursive: true, force: true }); } catch {}
 
-      return sendJSON(res, 200, { audioDataUrl, lrcText });
+      return sendJSON(res, 200, { audioDataUrl, lrcText, lyricsFormat });
     } catch (e) {
       try { await fsp.rm(outDir, { recursive: true, force: true }); } catch {}
       return sendJSON(res, 500, { error: 'Failed to prepare files', message: String(e) });
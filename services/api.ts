@@ -1,4 +1,5 @@
 import { getCookie } from '@/services/cookies';
+import type { LyricsFormatId } from '@/types';
 
 const INTEGRATED_MODE = (process.env.LS_OPERATION_MODE === 'integrated');
 
@@ -74,7 +75,7 @@ export async function searchSongs(term: string, country = 'US', limit = 20): Pro
   return data.results as ITunesTrack[];
 }
 
-export async function downloadByAppleMusicUrl(url: string): Promise<{ audioDataUrl: string; lrcText: string }>
+export async function downloadByAppleMusicUrl(url: string): Promise<{ audioDataUrl: string; lrcText: string; lyricsFormat?: LyricsFormatId }>
 {
   const { base } = getApiBase();
   const res = await fetch(`${base}/download`, {
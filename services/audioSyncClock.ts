@@ -0,0 +1,89 @@
+import { getCookie, setCookie } from '@/services/cookies';
+
+const AUDIO_OFFSET_COOKIE_KEY = 'LS_AUDIO_OFFSET_MS';
+// Calibrated offsets outside this range are almost certainly mis-taps
+export const MIN_AUDIO_OFFSET_MS = -300;
+export const MAX_AUDIO_OFFSET_MS = 500;
+// Media positions further than this from the extrapolated one mean a seek or stall, not jitter
+const RESYNC_THRESHOLD_S = 0.1;
+// Reported output latencies above this are treated as bogus
+const MAX_OUTPUT_LATENCY_S = 0.5;
+
+export const clampAudioOffset = (offsetMs: number) => Math.round(Math.max(MIN_AUDIO_OFFSET_MS, Math.min(MAX_AUDIO_OFFSET_MS, offsetMs)));
+
+export function loadAudioOffset(): number {
+  const saved = Number(getCookie(AUDIO_OFFSET_COOKIE_KEY));
+  return Number.isFinite(saved) ? clampAudioOffset(saved) : 0;
+}
+
+export function saveAudioOffset(offsetMs: number): void {
+  setCookie(AUDIO_OFFSET_COOKIE_KEY, String(clampAudioOffset(offsetMs)), 365);
+}
+
+/** How far behind the context clock the speakers are, from getOutputTimestamp where supported. */
+export function getOutputLatency(context: AudioContext): number {
+  const timestamp = context.getOutputTimestamp?.();
+  if (timestamp?.contextTime !== undefined && timestamp.performanceTime !== undefined && timestamp.contextTime > 0) {
+    const audibleContextTime = timestamp.contextTime + (performance.now() - timestamp.performanceTime) / 1000;
+    const latency = context.currentTime - audibleContextTime;
+    if (latency >= 0 && latency <= MAX_OUTPUT_LATENCY_S) return latency;
+  }
+  return Math.min(MAX_OUTPUT_LATENCY_S, context.outputLatency || context.baseLatency || 0);
+}
+
+/** The context time that was audible at a performance.now() timestamp, such as an input event's timeStamp. */
+export function audibleContextTimeAt(context: AudioContext, performanceTime: number): number {
+  return context.currentTime - getOutputLatency(context) - (performance.now() - performanceTime) / 1000;
+}
+
+/**
+ * The song position the player is hearing right now. `<audio>.currentTime`
+ * only updates every few frames and ignores output latency, so between its
+ * updates the position is extrapolated on AudioContext.currentTime, then the
+ * device's output latency and the player's calibrated offset are taken off.
+ */
+class AudioSyncClock {
+  private readonly media: HTMLMediaElement;
+  private context: AudioContext | null = null;
+  private readonly offsetMs: number;
+  private anchorMediaTime = 0;
+  private anchorContextTime = 0;
+  private lastMediaTime = -1;
+
+  constructor(media: HTMLMediaElement, offsetMs = 0) {
+    this.media = media;
+    this.offsetMs = offsetMs;
+  }
+
+  attach(context: AudioContext): void {
+    this.context = context;
+    this.lastMediaTime = -1;
+  }
+
+  /** Seconds into the song, as heard. */
+  currentTime(): number {
+    const media = this.media;
+    const context = this.context;
+    if (!context || context.state !== 'running' || media.paused) {
+      this.lastMediaTime = -1;
+      return media.currentTime - this.offsetMs / 1000;
+    }
+
+    const contextNow = context.currentTime;
+    const mediaTime = media.currentTime;
+    if (mediaTime !== this.lastMediaTime) {
+      // Re-anchor only when the element disagrees with the extrapolation by more than its update jitter
+      const predicted = this.anchorMediaTime + (contextNow - this.anchorContextTime) * media.playbackRate;
+      if (this.lastMediaTime < 0 || Math.abs(mediaTime - predicted) > RESYNC_THRESHOLD_S) {
+        this.anchorMediaTime = mediaTime;
+        this.anchorContextTime = contextNow;
+      }
+      this.lastMediaTime = mediaTime;
+    }
+
+    const playing = this.anchorMediaTime + (contextNow - this.anchorContextTime) * media.playbackRate;
+    return playing - getOutputLatency(context) * media.playbackRate - this.offsetMs / 1000;
+  }
+}
+
+export default AudioSyncClock;
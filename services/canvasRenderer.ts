@@ -0,0 +1,266 @@
+import type GameConstants from '@/services/gameConstants';
+import type { GameSessionHandle } from '@/services/gameSession';
+import GlyphAtlas, { AtlasSprite } from '@/services/glyphAtlas';
+import { lerp, interpolatePosition, collectCircleGuideSegments, GuideSegment } from '@/services/renderUtils';
+import { Enemy, EnemyProjectile, Mine, ShooterAttackPattern, EliteShooterType } from '@/types';
+
+// Tailwind palette values matching the DOM renderer's classes
+const ELITE_COLORS: Record<EliteShooterType, string> = {
+  MAGIC: '#f43f5e', // rose-500
+  GATLING: '#f59e0b', // amber-500
+  LANDMINE: '#84cc16', // lime-500
+  LASER: '#67e8f9', // cyan-300
+  CIRCLE: '#38bdf8', // sky-400
+};
+const ELITE_DEFAULT_COLOR = '#c084fc'; // purple-400
+
+const SHOOTER_COLORS: Record<ShooterAttackPattern, string> = {
+  HOMING: '#e879f9', // fuchsia-400
+  STRAIGHT_DOWN: '#facc15', // yellow-400
+  DELAYED_HOMING: '#fb923c', // orange-400
+  SPIRAL: '#2dd4bf', // teal-400
+  BEAT: '#818cf8', // indigo-400
+  SIDE: '#fbbf24', // amber-400
+  DECELERATE: '#fb7185', // rose-400
+  CIRCLE: '#22d3ee', // cyan-400
+};
+const ENEMY_DEFAULT_COLOR = '#f87171'; // red-400
+
+const ENEMY_PROJECTILE_COLORS: Record<ShooterAttackPattern, string> = {
+  HOMING: '#d946ef', // fuchsia-500
+  STRAIGHT_DOWN: '#eab308', // yellow-500
+  DELAYED_HOMING: '#f97316', // orange-500
+  SPIRAL: '#14b8a6', // teal-500
+  BEAT: '#6366f1', // indigo-500
+  SIDE: '#f59e0b', // amber-500
+  DECELERATE: '#f43f5e', // rose-500
+  CIRCLE: '#22d3ee', // cyan-400
+};
+
+const ENEMY_FONT = "bold 30px 'Orbitron', sans-serif"; // text-3xl
+const BIG_ENEMY_FONT = "bold 36px 'Orbitron', sans-serif"; // text-4xl
+const READING_FONT = "12px 'Roboto', sans-serif"; // text-xs
+const READING_COLOR = '#e2e8f0'; // slate-200
+const LAST_STAND_GLOW = '#ef4444'; // red-500
+const NEON_GLOW = '#0ea5e9'; // sky-500
+const ENEMY_PROJECTILE_SIZE = 8;
+
+// Tailwind's animate-pulse (opacity 1 -> 0.5 -> 1 over 2s) and animate-ping (1s scale-out)
+const pulseOpacity = (now: number) => 0.75 + 0.25 * Math.cos((now % 2000) / 2000 * Math.PI * 2);
+const pingPhase = (now: number) => (now % 1000) / 1000;
+
+const enemyColor = (enemy: Enemy): string => {
+  if (enemy.isElite) return (enemy.eliteType && ELITE_COLORS[enemy.eliteType]) || ELITE_DEFAULT_COLOR;
+  if (enemy.isShooter) return SHOOTER_COLORS[enemy.attackPattern || 'HOMING'] || SHOOTER_COLORS.HOMING;
+  return ENEMY_DEFAULT_COLOR;
+};
+
+/**
+ * Draws a session's entities onto one canvas straight from GameState, instead
+ * of one React element per enemy and bullet. The player ship, items, floating
+ * texts and the HUD stay in the DOM; there are only ever a handful of them.
+ */
+class CanvasRenderer {
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly constants: GameConstants;
+  private readonly pixelRatio: number;
+  private readonly atlas: GlyphAtlas;
+  private readonly guideBuffer: GuideSegment[] = [];
+  private readonly onFontsLoaded = () => this.atlas.clear();
+
+  constructor(canvas: HTMLCanvasElement, constants: GameConstants) {
+    const { GAME_WIDTH, GAME_HEIGHT } = constants;
+    this.constants = constants;
+    this.pixelRatio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(GAME_WIDTH * this.pixelRatio);
+    canvas.height = Math.round(GAME_HEIGHT * this.pixelRatio);
+    this.ctx = canvas.getContext('2d')!;
+    this.atlas = new GlyphAtlas(this.pixelRatio);
+    // Glyphs rasterized before Orbitron arrives used the fallback font; drop them
+    document.fonts?.addEventListener('loadingdone', this.onFontsLoaded);
+  }
+
+  dispose(): void {
+    document.fonts?.removeEventListener('loadingdone', this.onFontsLoaded);
+    this.atlas.clear();
+  }
+
+  render(session: GameSessionHandle): void {
+    const { GAME_WIDTH, GAME_HEIGHT } = this.constants;
+    const ctx = this.ctx;
+    const state = session.state;
+    const alpha = session.clock.alpha;
+    const now = session.clock.now;
+
+    ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
+    ctx.clearRect(0, 0, GAME_WIDTH, GAME_HEIGHT);
+
+    const isLastStand = state.lives === 1;
+    for (let i = 0; i < state.enemies.length; i++) this.drawEnemy(state.enemies[i], isLastStand, alpha, now);
+    for (let i = 0; i < state.projectiles.length; i++) {
+      const p = state.projectiles[i];
+      const { x, y } = interpolatePosition(p, alpha);
+      const isRico = p.isRicochetPrimary || p.hasBounced;
+      this.drawSprite(this.projectileSprite(p.width, p.height, isRico ? '#fb7185' : '#fde047', Boolean(p.hasBounced)), x, y);
+    }
+    for (let i = 0; i < state.enemyProjectiles.length; i++) this.drawEnemyProjectile(state.enemyProjectiles[i], alpha, now);
+    this.drawCircleGuides(state.enemyProjectiles, now);
+    for (let i = 0; i < state.mines.length; i++) this.drawMine(state.mines[i], now);
+    this.drawExplosions(session, now);
+    if (state.isLaserActive) {
+      this.drawPlayerLaser(lerp(session.prevPlayerPos.x, state.playerX, alpha), lerp(session.prevPlayerPos.y, state.playerY, alpha), now);
+    }
+    this.drawEnemyLasers(state.enemies);
+  }
+
+  private drawSprite(sprite: AtlasSprite, x: number, y: number): void {
+    this.ctx.drawImage(this.atlas.canvas, sprite.sx, sprite.sy, sprite.sw, sprite.sh, x - sprite.pad, y - sprite.pad, sprite.width, sprite.height);
+  }
+
+  private drawEnemy(enemy: Enemy, isLastStand: boolean, alpha: number, now: number): void {
+    const ctx = this.ctx;
+    const { x, y } = interpolatePosition(enemy, alpha);
+    const font = enemy.isElite || enemy.isBig ? BIG_ENEMY_FONT : ENEMY_FONT;
+    const glyph = this.atlas.getGlyph(enemy.char, font, enemyColor(enemy), enemy.isElite && isLastStand ? LAST_STAND_GLOW : undefined);
+    const centerX = x + enemy.width / 2;
+    this.drawSprite(glyph, centerX - (glyph.width - glyph.pad * 2) / 2, y + (enemy.height - (glyph.height - glyph.pad * 2)) / 2);
+
+    if (enemy.reading) {
+      const reading = this.atlas.getGlyph(enemy.reading, READING_FONT, READING_COLOR);
+      this.drawSprite(reading, centerX - (reading.width - reading.pad * 2) / 2, y - 12);
+    }
+
+    if (enemy.isFlashing) {
+      const phase = pingPhase(now);
+      ctx.globalAlpha = 0.75 * (1 - phase);
+      ctx.fillStyle = '#ffffff';
+      ctx.beginPath();
+      ctx.ellipse(centerX, y + enemy.height / 2, (enemy.width / 2) * (1 + phase), (enemy.height / 2) * (1 + phase), 0, 0, Math.PI * 2);
+      ctx.fill();
+      ctx.globalAlpha = 1;
+    }
+  }
+
+  private projectileSprite(width: number, height: number, color: string, round: boolean): AtlasSprite {
+    return this.atlas.getSprite(`p|${width}|${height}|${color}|${round}`, width, height, 16, (ctx) => {
+      ctx.fillStyle = color;
+      ctx.shadowColor = NEON_GLOW;
+      for (const blur of [5, 10, 15]) {
+        ctx.shadowBlur = blur * this.pixelRatio;
+        ctx.beginPath();
+        ctx.roundRect(0, 0, width, height, round ? Math.min(width, height) / 2 : 8);
+        ctx.fill();
+      }
+    });
+  }
+
+  private drawEnemyProjectile(p: EnemyProjectile, alpha: number, now: number): void {
+    const color = ENEMY_PROJECTILE_COLORS[p.attackPattern] || '#94a3b8'; // slate-400
+    const sprite = this.atlas.getSprite(`ep|${color}`, ENEMY_PROJECTILE_SIZE, ENEMY_PROJECTILE_SIZE, 0, (ctx) => {
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(ENEMY_PROJECTILE_SIZE / 2, ENEMY_PROJECTILE_SIZE / 2, ENEMY_PROJECTILE_SIZE / 2, 0, Math.PI * 2);
+      ctx.fill();
+    });
+    const { x, y } = interpolatePosition(p, alpha);
+    const isDelayed = p.attackPattern === 'DELAYED_HOMING' && p.isDelayed;
+    if (isDelayed) this.ctx.globalAlpha = 0.5 * pulseOpacity(now);
+    this.drawSprite(sprite, x, y);
+    if (isDelayed) this.ctx.globalAlpha = 1;
+  }
+
+  private drawCircleGuides(enemyProjectiles: EnemyProjectile[], now: number): void {
+    const ctx = this.ctx;
+    const segments = this.guideBuffer;
+    segments.length = 0;
+    for (let i = 0; i < enemyProjectiles.length; i++) {
+      collectCircleGuideSegments(enemyProjectiles[i], now, this.constants, segments);
+    }
+    for (let i = 0; i < segments.length; i++) {
+      const seg = segments[i];
+      ctx.strokeStyle = `rgba(255,80,80,${seg.opacity})`;
+      ctx.lineWidth = seg.thickness;
+      ctx.beginPath();
+      ctx.moveTo(seg.x1, seg.y1);
+      ctx.lineTo(seg.x2, seg.y2);
+      ctx.stroke();
+    }
+  }
+
+  private drawMine(mine: Mine, now: number): void {
+    const ctx = this.ctx;
+    const { x, y, width, height } = mine;
+    ctx.globalAlpha = pulseOpacity(now);
+    ctx.fillStyle = '#991b1b'; // red-800
+    ctx.strokeStyle = '#ef4444'; // red-500
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.ellipse(x + width / 2, y + height / 2, width / 2 - 1, height / 2 - 1, 0, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.stroke();
+    ctx.globalAlpha = 1;
+  }
+
+  // Mirrors the `explode` keyframes: scale 0 -> 1 with ease-out while fading out
+  private drawExplosions(session: GameSessionHandle, now: number): void {
+    const { EXPLOSION_DURATION } = this.constants;
+    const ctx = this.ctx;
+    const explosions = session.state.explosions;
+    for (let i = 0; i < explosions.length; i++) {
+      const ex = explosions[i];
+      const t = Math.max(0, Math.min(1, (now - ex.createdAt) / EXPLOSION_DURATION));
+      const eased = 1 - (1 - t) * (1 - t);
+      const radius = (ex.size === 'large' ? 64 : 32) * eased;
+      if (radius <= 0) continue;
+      ctx.globalAlpha = 1 - t;
+      ctx.fillStyle = ex.size === 'large' ? '#fb923c' : '#fde047'; // orange-400 / yellow-300
+      ctx.beginPath();
+      ctx.arc(ex.x, ex.y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    ctx.globalAlpha = 1;
+  }
+
+  private drawPlayerLaser(playerX: number, playerY: number, now: number): void {
+    const { PLAYER_WIDTH } = this.constants;
+    const ctx = this.ctx;
+    const x = playerX + PLAYER_WIDTH / 2 - 5;
+    const gradient = ctx.createLinearGradient(0, playerY, 0, 0);
+    gradient.addColorStop(0, '#f87171'); // red-400
+    gradient.addColorStop(1, '#fdba74'); // orange-300
+    ctx.globalAlpha = pulseOpacity(now);
+    ctx.fillStyle = gradient;
+    ctx.beginPath();
+    ctx.roundRect(x, 0, 10, playerY, [5, 5, 0, 0]);
+    ctx.fill();
+    ctx.globalAlpha = 1;
+  }
+
+  private drawEnemyLasers(enemies: Enemy[]): void {
+    const ctx = this.ctx;
+    for (let i = 0; i < enemies.length; i++) {
+      const e = enemies[i];
+      if (e.eliteType !== 'LASER' || !e.laserTarget || (e.laserState !== 'AIMING' && e.laserState !== 'FIRING')) continue;
+      const startX = e.x + e.width / 2;
+      const startY = e.y + e.height;
+      const end = e.laserTarget;
+      if (e.laserState === 'AIMING') {
+        ctx.strokeStyle = 'rgba(255,0,0,0.3)';
+        ctx.lineWidth = 2;
+      } else {
+        const gradient = ctx.createLinearGradient(startX, startY, end.x, end.y);
+        gradient.addColorStop(0, 'rgba(255,100,100,1)');
+        gradient.addColorStop(0.5, 'rgba(255,200,100,1)');
+        gradient.addColorStop(1, 'rgba(255,100,100,1)');
+        ctx.strokeStyle = gradient;
+        ctx.lineWidth = 6;
+      }
+      ctx.beginPath();
+      ctx.moveTo(startX, startY);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+    }
+  }
+}
+
+export default CanvasRenderer;
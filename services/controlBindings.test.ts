@@ -0,0 +1,72 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, it, expect } from 'vitest';
+import { DEFAULT_CONTROL_BINDINGS, findConflicts, loadControlBindings, saveControlBindings } from '@/services/controlBindings';
+import { setCookie } from '@/services/cookies';
+import { ControlBindings } from '@/types';
+
+// Writes the cookie as an older or hand-edited save would have left it
+const saveRaw = (value: unknown) => setCookie('LS_CONTROL_BINDINGS', JSON.stringify(value));
+
+const cloneDefaults = (): ControlBindings => structuredClone(DEFAULT_CONTROL_BINDINGS);
+
+describe('loadControlBindings', () => {
+  beforeEach(() => setCookie('LS_CONTROL_BINDINGS', '', -1));
+
+  it('returns the defaults with no cookie or an unreadable one', () => {
+    expect(loadControlBindings()).toEqual(DEFAULT_CONTROL_BINDINGS);
+    setCookie('LS_CONTROL_BINDINGS', '{not json');
+    expect(loadControlBindings()).toEqual(DEFAULT_CONTROL_BINDINGS);
+  });
+
+  it('round-trips saved bindings', () => {
+    const bindings = cloneDefaults();
+    bindings.keyboard.fire = ['KeyJ', 'Space'];
+    bindings.gamepad.special = [3];
+    saveControlBindings(bindings);
+    expect(loadControlBindings()).toEqual(bindings);
+  });
+
+  it('falls back per action on malformed entries and trims extra alternates', () => {
+    const saved = cloneDefaults() as unknown as Record<string, Record<string, unknown>>;
+    saved.keyboard.up = 'ArrowUp';
+    saved.gamepad.fire = [-1];
+    saved.keyboard.pause = ['Escape', 'KeyP', 'KeyQ', 'KeyO'];
+    saveRaw(saved);
+
+    const bindings = loadControlBindings();
+    expect(bindings.keyboard.up).toEqual(DEFAULT_CONTROL_BINDINGS.keyboard.up);
+    expect(bindings.gamepad.fire).toEqual(DEFAULT_CONTROL_BINDINGS.gamepad.fire);
+    expect(bindings.keyboard.pause).toEqual(['Escape', 'KeyP', 'KeyQ']);
+  });
+
+  it('gives an action missing from an older save its defaults, minus inputs the player moved elsewhere', () => {
+    const saved = cloneDefaults() as unknown as Record<string, Record<string, unknown>>;
+    delete saved.keyboard.focus;
+    delete saved.gamepad.focus;
+    saved.keyboard.special = ['KeyF'];
+    saved.gamepad.special = [4];
+    saveRaw(saved);
+
+    const bindings = loadControlBindings();
+    expect(bindings.keyboard.focus).toEqual([]);
+    expect(bindings.gamepad.focus).toEqual([6]);
+    expect(findConflicts(bindings)).toEqual([]);
+  });
+
+  it('lets a defaulted action keep an input it may share', () => {
+    const saved = cloneDefaults() as unknown as Record<string, Record<string, unknown>>;
+    delete saved.keyboard.skip;
+    saveRaw(saved);
+    expect(loadControlBindings().keyboard.skip).toEqual(['Space']);
+  });
+});
+
+describe('findConflicts', () => {
+  it('allows fire and skip to share an input but reports other clashes', () => {
+    expect(findConflicts(DEFAULT_CONTROL_BINDINGS)).toEqual([]);
+
+    const bindings = cloneDefaults();
+    bindings.keyboard.special = ['KeyF'];
+    expect(findConflicts(bindings)).toEqual([{ device: 'keyboard', input: 'KeyF', actions: ['focus', 'special'] }]);
+  });
+});
@@ -0,0 +1,164 @@
+import { getCookie, setCookie } from '@/services/cookies';
+import type { ControlBindings, InputAction } from '@/types';
+
+const CONTROL_BINDINGS_COOKIE_KEY = 'LS_CONTROL_BINDINGS';
+
+export const INPUT_ACTIONS: InputAction[] = ['up', 'down', 'left', 'right', 'fire', 'focus', 'special', 'skip', 'abort', 'pause'];
+
+export const ACTION_LABELS: Record<InputAction, string> = {
+  up: 'Move Up',
+  down: 'Move Down',
+  left: 'Move Left',
+  right: 'Move Right',
+  fire: 'Fire Main Weapon',
+  focus: 'Focus (slow, show hitbox)',
+  special: 'Activate Special Item',
+  skip: 'Skip Intro (hold)',
+  abort: 'Return to READY (hold 1.5s)',
+  pause: 'Pause Menu',
+};
+
+// Primary plus alternates, per device
+export const MAX_BINDINGS_PER_ACTION = 3;
+
+// Pairs that may share an input: the skip prompt disables firing, so Space can do both
+const SHAREABLE_ACTIONS: [InputAction, InputAction][] = [['fire', 'skip']];
+
+// Keyboard codes are KeyboardEvent.code, so WASD stays put on any layout. Gamepad buttons are
+// indices in the W3C "standard" layout (Xbox names: 0 A, 1 B, 4 LB, 5 RB, 6 LT, 7 RT, 8 Back, 9 Start, 12-15 D-pad)
+export const DEFAULT_CONTROL_BINDINGS: ControlBindings = {
+  keyboard: {
+    up: ['ArrowUp', 'KeyW'],
+    down: ['ArrowDown', 'KeyS'],
+    left: ['ArrowLeft', 'KeyA'],
+    right: ['ArrowRight', 'KeyD'],
+    fire: ['Space'],
+    focus: ['KeyF'],
+    special: ['ShiftLeft', 'ShiftRight', 'Tab'],
+    skip: ['Space'],
+    abort: ['Backspace'],
+    pause: ['Escape', 'KeyP'],
+  },
+  gamepad: {
+    up: [12],
+    down: [13],
+    left: [14],
+    right: [15],
+    fire: [0, 7],
+    focus: [4, 6],
+    special: [1, 5],
+    skip: [0],
+    abort: [8],
+    pause: [9],
+  },
+};
+
+const GAMEPAD_BUTTON_NAMES = ['A', 'B', 'X', 'Y', 'LB', 'RB', 'LT', 'RT', 'BACK', 'START', 'LS', 'RS', 'D-UP', 'D-DOWN', 'D-LEFT', 'D-RIGHT', 'HOME'];
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  Space: 'SPACE',
+  ShiftLeft: 'L-SHIFT',
+  ShiftRight: 'R-SHIFT',
+  ControlLeft: 'L-CTRL',
+  ControlRight: 'R-CTRL',
+  AltLeft: 'L-ALT',
+  AltRight: 'R-ALT',
+  Escape: 'ESC',
+};
+
+export function formatKeyCode(code: string): string {
+  if (KEY_NAMES[code]) return KEY_NAMES[code];
+  const match = /^(?:Key|Digit|Numpad)(.+)$/.exec(code);
+  return (match ? match[1] : code).toUpperCase();
+}
+
+export function formatGamepadButton(index: number): string {
+  return GAMEPAD_BUTTON_NAMES[index] ?? `BUTTON ${index}`;
+}
+
+// Every key bound to an action, for on-screen prompts and the controls list
+export function describeKeys(bindings: ControlBindings, action: InputAction): string {
+  return bindings.keyboard[action].map(formatKeyCode).join('/') || '—';
+}
+
+export function describeButtons(bindings: ControlBindings, action: InputAction): string {
+  return bindings.gamepad[action].map(formatGamepadButton).join('/') || '—';
+}
+
+type BindingDevice = keyof ControlBindings;
+
+export interface BindingConflict {
+  device: BindingDevice;
+  input: string | number;
+  actions: InputAction[];
+}
+
+const canShare = (a: InputAction, b: InputAction) =>
+  SHAREABLE_ACTIONS.some(([x, y]) => (x === a && y === b) || (x === b && y === a));
+
+/** Inputs bound to more than one action, leaving out pairs that are allowed to share. */
+export function findConflicts(bindings: ControlBindings): BindingConflict[] {
+  const conflicts: BindingConflict[] = [];
+  for (const device of ['keyboard', 'gamepad'] as const) {
+    const owners = new Map<string | number, InputAction[]>();
+    for (const action of INPUT_ACTIONS) {
+      for (const input of bindings[device][action] as (string | number)[]) {
+        owners.set(input, [...(owners.get(input) ?? []), action]);
+      }
+    }
+    owners.forEach((actions, input) => {
+      const clashes = actions.some((a, i) => actions.slice(i + 1).some(b => !canShare(a, b)));
+      if (clashes) conflicts.push({ device, input, actions });
+    });
+  }
+  return conflicts;
+}
+
+/** Actions the keyboard cannot trigger; gamepad bindings are optional. */
+export function findUnboundActions(bindings: ControlBindings): InputAction[] {
+  return INPUT_ACTIONS.filter(action => bindings.keyboard[action].length === 0);
+}
+
+// Cookie values are untrusted; anything malformed falls back to the default for that action
+export function loadControlBindings(): ControlBindings {
+  let saved: Partial<ControlBindings> | null = null;
+  try {
+    saved = JSON.parse(getCookie(CONTROL_BINDINGS_COOKIE_KEY) ?? 'null');
+  } catch {
+    saved = null;
+  }
+  // Actions that fell back to their defaults, e.g. ones added after the cookie was saved
+  const defaulted: [BindingDevice, InputAction][] = [];
+  const pick = <T>(device: BindingDevice, action: InputAction, isValid: (value: unknown) => value is T, fallback: T[]): T[] => {
+    const list: unknown = saved?.[device]?.[action];
+    if (Array.isArray(list) && list.every(isValid)) return list.slice(0, MAX_BINDINGS_PER_ACTION);
+    defaulted.push([device, action]);
+    return [...fallback];
+  };
+  const isCode = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+  const isButton = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+  const bindings: ControlBindings = { keyboard: { ...DEFAULT_CONTROL_BINDINGS.keyboard }, gamepad: { ...DEFAULT_CONTROL_BINDINGS.gamepad } };
+  for (const action of INPUT_ACTIONS) {
+    bindings.keyboard[action] = pick('keyboard', action, isCode, DEFAULT_CONTROL_BINDINGS.keyboard[action]);
+    bindings.gamepad[action] = pick('gamepad', action, isButton, DEFAULT_CONTROL_BINDINGS.gamepad[action]);
+  }
+
+  // A default never takes an input the player already gave to another action
+  if (saved) {
+    for (const [device, action] of defaulted) {
+      const taken = (input: string | number) =>
+        INPUT_ACTIONS.some(other => other !== action && !canShare(action, other) && (bindings[device][other] as (string | number)[]).includes(input));
+      (bindings[device] as Record<InputAction, (string | number)[]>)[action] = (bindings[device][action] as (string | number)[]).filter(input => !taken(input));
+    }
+  }
+  return bindings;
+}
+
+export function saveControlBindings(bindings: ControlBindings): void {
+  setCookie(CONTROL_BINDINGS_COOKIE_KEY, JSON.stringify(bindings), 365);
+}
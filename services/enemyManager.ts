@@ -1,5 +1,7 @@
-import GameConstants from '@/services/gameConstants';
+import type GameConstants from '@/services/gameConstants';
 import { filterInPlace } from '@/services/collectionUtils';
+import type SimulationClock from '@/services/simulationClock';
+import type SeededRandom from '@/services/seededRandom';
 import {
   Enemy,
   ShooterAttackPattern,
@@ -17,54 +19,63 @@ interface Pool<T> {
 }
 
 interface EnemyManagerContext {
+  constants: GameConstants;
   state: GameState;
   generateId: () => number;
   superHardMode: boolean;
   enemyProjectilePool: Pool<EnemyProjectile>;
   explosionPool: Pool<Explosion>;
+  clock: SimulationClock;
+  random: SeededRandom;
 }
 
 class EnemyManager {
-  private static instance: EnemyManager;
-
-  private readonly constants = GameConstants.getInstance();
-  private state!: GameState;
-  private generateId!: () => number;
-  private superHardMode = false;
-  private enemyProjectilePool!: Pool<EnemyProjectile>;
-  private explosionPool!: Pool<Explosion>;
-
-  private constructor() {}
-
-  static getInstance(): EnemyManager {
-    if (!EnemyManager.instance) {
-      EnemyManager.instance = new EnemyManager();
-    }
-    return EnemyManager.instance;
-  }
-
-  initialize(context: EnemyManagerContext): void {
+  private readonly constants: GameConstants;
+  private readonly state: GameState;
+  private readonly generateId: () => number;
+  private readonly superHardMode: boolean;
+  private readonly enemyProjectilePool: Pool<EnemyProjectile>;
+  private readonly explosionPool: Pool<Explosion>;
+  private readonly clock: SimulationClock;
+  private readonly random: SeededRandom;
+
+  constructor(context: EnemyManagerContext) {
+    this.constants = context.constants;
     this.state = context.state;
     this.generateId = context.generateId;
     this.superHardMode = context.superHardMode;
     this.enemyProjectilePool = context.enemyProjectilePool;
     this.explosionPool = context.explosionPool;
+    this.clock = context.clock;
+    this.random = context.random;
+  }
+
+  // Full-width (CJK) characters take a whole enemy cell; Latin letters pack tighter
+  private measureTokenWidth(token: string): number {
+    const { ENEMY_WIDTH, WORD_ENEMY_CHAR_WIDTH } = this.constants;
+    const chars = Array.from(token);
+    if (chars.length <= 1) return ENEMY_WIDTH;
+    const width = chars.reduce((acc, ch) => acc + (/[\u1100-\uFFDC]/.test(ch) ? ENEMY_WIDTH : WORD_ENEMY_CHAR_WIDTH), 0);
+    return Math.max(ENEMY_WIDTH, width);
   }
 
-  spawnFromChar(char: string, progress: number): void {
+  spawnFromToken(token: string, progress: number, reading?: string): void {
     const {
       MOVEMENT_PATTERNS,
       NORMAL_SHOOTER_PATTERNS,
       LEGACY_SHOOTER_PATTERNS,
       ELITE_TYPES,
       GAME_WIDTH,
-      ENEMY_WIDTH,
       ENEMY_HEIGHT,
       ENEMY_SPEED_PER_SECOND,
       ENEMY_ACCELERATION_PER_SECOND_SQUARED,
+      WORD_ENEMY_CHARS_PER_HP,
+      PLAYER_SHOT_DAMAGE,
+      ELITE_SHOOTER_PROGRESS_THRESHOLD,
+      ELITE_SHOOTER_CHANCE,
     } = this.constants;
 
-    const movementPattern = MOVEMENT_PATTERNS[Math.floor(Math.random() * MOVEMENT_PATTERNS.length)];
+    const movementPattern = this.random.pick(MOVEMENT_PATTERNS);
 
     let shooterChance = this.state.baseShooterChance;
     if (progress > 0.75) shooterChance += 0.15;
@@ -72,31 +83,34 @@ class EnemyManager {
     else if (progress > 0.25) shooterChance += 0.05;
 
     let attackPattern: ShooterAttackPattern | undefined;
-    const isShooter = Math.random() < shooterChance;
+    const isShooter = this.random.chance(shooterChance);
     if (isShooter) {
-      attackPattern = NORMAL_SHOOTER_PATTERNS[Math.floor(Math.random() * NORMAL_SHOOTER_PATTERNS.length)];
+      attackPattern = this.random.pick(NORMAL_SHOOTER_PATTERNS);
     }
 
     let isElite = false;
     let eliteType: EliteShooterType | undefined;
-    const eliteShooterProgressThreshold = this.superHardMode ? 0 : 0.5;
-    const eliteShooterChance = this.superHardMode ? 0.20 : 0.15;
 
-    if (isShooter && progress >= eliteShooterProgressThreshold && Math.random() < eliteShooterChance) {
+    if (isShooter && progress >= ELITE_SHOOTER_PROGRESS_THRESHOLD && this.random.chance(ELITE_SHOOTER_CHANCE)) {
       isElite = true;
-      eliteType = ELITE_TYPES[Math.floor(Math.random() * ELITE_TYPES.length)];
-      attackPattern = LEGACY_SHOOTER_PATTERNS[Math.floor(Math.random() * LEGACY_SHOOTER_PATTERNS.length)];
+      eliteType = this.random.pick(ELITE_TYPES);
+      attackPattern = this.random.pick(LEGACY_SHOOTER_PATTERNS);
       if (eliteType === 'CIRCLE') {
         attackPattern = 'CIRCLE';
       }
     }
 
+    // Words and ruby bases spawn as one enemy, widened to fit and toughened by length
+    const width = this.measureTokenWidth(token);
+    const lengthBonusHp = Math.floor((Array.from(token).length - 1) / WORD_ENEMY_CHARS_PER_HP) * PLAYER_SHOT_DAMAGE;
+
     const enemy: Enemy = {
       id: this.generateId(),
-      char,
-      x: Math.random() * (GAME_WIDTH - ENEMY_WIDTH),
+      char: token,
+      reading,
+      x: this.random.next() * (GAME_WIDTH - width),
       y: -ENEMY_HEIGHT,
-      width: ENEMY_WIDTH,
+      width,
       height: ENEMY_HEIGHT,
       entityType: 'enemy',
       speedY: ENEMY_SPEED_PER_SECOND,
@@ -111,20 +125,21 @@ class EnemyManager {
     };
 
     if (enemy.isBig) enemy.hp = 3;
+    enemy.hp = (enemy.hp ?? 1) + lengthBonusHp;
 
     switch (movementPattern) {
       case 'SINE_WAVE':
         enemy.initialX = enemy.x;
-        enemy.amplitude = 50 + Math.random() * 100;
-        enemy.frequency = (0.005 + Math.random() * 0.005) * (Math.random() > 0.5 ? 1 : -1);
+        enemy.amplitude = this.random.range(50, 150);
+        enemy.frequency = this.random.range(0.005, 0.01) * this.random.sign();
         break;
       case 'ZIG_ZAG': {
-        const lateralSpeed = (60 + Math.random() * 60) * (Math.random() > 0.5 ? 1 : -1);
+        const lateralSpeed = this.random.range(60, 120) * this.random.sign();
         enemy.speedX = lateralSpeed;
         break;
       }
       case 'DRIFTING':
-        enemy.speedX = (30 + Math.random() * 30) * (Math.random() > 0.5 ? 1 : -1);
+        enemy.speedX = this.random.range(30, 60) * this.random.sign();
         break;
       case 'ACCELERATING':
         enemy.accelerationY = ENEMY_ACCELERATION_PER_SECOND_SQUARED;
@@ -146,17 +161,17 @@ class EnemyManager {
     this.state.enemies.push(enemy);
   }
 
-  processPendingSpawns(maxPerFrame: number): void {
+  processPendingSpawns(maxPerTick: number): void {
     if (this.state.pendingSpawnCursor >= this.state.pendingSpawns.length) return;
-    const now = Date.now();
+    const now = this.clock.now;
     let processed = 0;
     while (
       this.state.pendingSpawnCursor < this.state.pendingSpawns.length &&
       this.state.pendingSpawns[this.state.pendingSpawnCursor].time <= now &&
-      processed < maxPerFrame
+      processed < maxPerTick
     ) {
       const task = this.state.pendingSpawns[this.state.pendingSpawnCursor];
-      this.spawnFromChar(task.char, task.progress);
+      this.spawnFromToken(task.token, task.progress, task.reading);
       this.state.pendingSpawnCursor++;
       processed++;
     }
@@ -314,7 +329,7 @@ class EnemyManager {
             proj.orbitAngle = undefined;
             proj.orbitAngularSpeed = CIRCLE_ORBIT_ANGULAR_SPEED;
             proj.orbitAccumulatedAngle = 0;
-            proj.orbitDirection = Math.random() > 0.5 ? 1 : -1;
+            proj.orbitDirection = this.random.sign();
             this.state.enemyProjectiles.push(proj);
             break;
           }
@@ -333,7 +348,7 @@ class EnemyManager {
           case 'MAGIC': {
             enemy.lastShotTime = currentTime;
             const patterns: ShooterAttackPattern[] = ['HOMING', 'STRAIGHT_DOWN', 'DELAYED_HOMING', 'SPIRAL'];
-            enemy.attackPattern = patterns[Math.floor(Math.random() * patterns.length)];
+            enemy.attackPattern = this.random.pick(patterns);
             // fall through to fire immediately
           }
           // eslint-disable-next-line no-fallthrough
@@ -558,7 +573,7 @@ class EnemyManager {
         proj.orbitAngle = undefined;
         proj.orbitAngularSpeed = CIRCLE_ORBIT_ANGULAR_SPEED;
         proj.orbitAccumulatedAngle = 0;
-        proj.orbitDirection = Math.random() > 0.5 ? 1 : -1;
+        proj.orbitDirection = this.random.sign();
         this.state.enemyProjectiles.push(proj);
         break;
       }
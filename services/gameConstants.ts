@@ -1,25 +1,40 @@
-import { MovementPattern, ShooterAttackPattern, EliteShooterType } from '@/types';
+import { MovementPattern, ShooterAttackPattern, EliteShooterType, GameMode } from '@/types';
 
-class GameConstants {
-  private static instance: GameConstants;
+// readonly fields infer literal types (1024, not number); overrides need the wide ones
+type Widen<T> = T extends number ? number : T extends string ? string : T;
+
+// Any subset of the tunable values, e.g. for a mode or a one-off session
+export type GameConstantOverrides = Partial<{ -readonly [K in keyof GameConstants]: Widen<GameConstants[K]> }>;
 
+class GameConstants {
   readonly GAME_WIDTH = 1024;
   readonly GAME_HEIGHT = 720;
   readonly PLAYER_WIDTH = 36;
   readonly PLAYER_HEIGHT = 36;
   readonly PLAYER_SPEED_PER_SECOND = 420;
+  readonly PLAYER_HITBOX_SIZE = 8; // Square core at the ship's center that enemies and bullets must touch
+  readonly FOCUS_SPEED_MULTIPLIER = 0.45;
+  readonly DIAGONAL_SHOT_SPREAD = 0.4; // Sideways speed of diagonal shots as a share of their forward speed
+  readonly FOCUS_DIAGONAL_SHOT_SPREAD = 0.15;
+  readonly INITIAL_PLAYER_SPEED_MULTIPLIER = 1;
+  readonly INITIAL_PROJECTILE_SPEED_MULTIPLIER = 1;
   readonly INITIAL_PROJECTILE_SPEED_PER_SECOND = 1080;
   readonly PROJECTILE_WIDTH = 6;
   readonly PROJECTILE_HEIGHT = 20;
   readonly PROJECTILE_HITBOX_PADDING = 8;
+  readonly PLAYER_SHOT_DAMAGE = 2; // HP one player shot takes, so 3 HP elites fall to two shots
   readonly ENEMY_WIDTH = 36;
   readonly ENEMY_HEIGHT = 36;
+  readonly WORD_ENEMY_CHAR_WIDTH = 20; // Width per narrow (non-CJK) character in word enemies
+  readonly WORD_ENEMY_CHARS_PER_HP = 4; // One more shot to kill for every this many characters beyond the first
   readonly ITEM_WIDTH = 32;
   readonly ITEM_HEIGHT = 32;
   readonly ENEMY_SPEED_PER_SECOND = 48;
   readonly ENEMY_PROJECTILE_SPEED_PER_SECOND = 240;
   readonly ENEMY_ACCELERATION_PER_SECOND_SQUARED = 28.8;
   readonly INITIAL_ENEMY_FIRE_CHANCE = 0.05;
+  readonly ELITE_SHOOTER_PROGRESS_THRESHOLD = 0.5;
+  readonly ELITE_SHOOTER_CHANCE = 0.15;
   readonly ENEMY_FIRE_COOLDOWN = 2000;
   readonly FIRE_COOLDOWN = 150;
   readonly ITEM_SPAWN_PERCENTAGE = 0.10;
@@ -52,20 +67,49 @@ class GameConstants {
   readonly CIRCLE_MIN_ORBIT_RADIUS = 40;
   readonly CIRCLE_GUIDE_DURATION = 400;
   readonly CIRCLE_GUIDE_SEGMENTS = 24;
-  readonly MAX_SPAWNS_PER_FRAME = 6;
+  readonly MAX_SPAWNS_PER_TICK = 6;
+  readonly ENEMY_SCORE = 10;
+  readonly HEAVY_ENEMY_SCORE = 75; // Elites and big enemies
+  readonly LASER_KILL_SCORE = 5;
+  readonly DUPLICATE_STOCKED_ITEM_SCORE = 500; // Picking up a special item while one is stocked
+  readonly DUPLICATE_UPGRADE_SCORE = 1000; // Picking up a one-time upgrade already owned
+  readonly COMBO_DECAY_DURATION = 2000;
+  readonly COMBO_KILLS_PER_MULTIPLIER = 10;
+  readonly MAX_SCORE_MULTIPLIER = 8;
+  readonly ON_BEAT_WINDOW = 100; // ms either side of a sung lyric timestamp
+  readonly ON_BEAT_BONUS = 50;
+  readonly GRAZE_RADIUS = 24; // Beyond the player hitbox
+  readonly GRAZE_SCORE = 20;
+  readonly GRAZE_CHARGE_PER_BULLET = 2;
+  readonly MAX_GRAZE_CHARGE = 100; // A full charge stocks a bomb once the item slot is free
   readonly MOVEMENT_PATTERNS: MovementPattern[] = ['STRAIGHT_DOWN', 'SINE_WAVE', 'ZIG_ZAG', 'DRIFTING', 'ACCELERATING'];
   readonly NORMAL_SHOOTER_PATTERNS: ShooterAttackPattern[] = ['HOMING', 'STRAIGHT_DOWN', 'DELAYED_HOMING', 'SPIRAL', 'BEAT', 'SIDE', 'DECELERATE'];
   readonly LEGACY_SHOOTER_PATTERNS: ShooterAttackPattern[] = ['HOMING', 'STRAIGHT_DOWN', 'DELAYED_HOMING', 'SPIRAL'];
   readonly ELITE_TYPES: EliteShooterType[] = ['MAGIC', 'GATLING', 'LANDMINE', 'LASER', 'CIRCLE'];
 
-  private constructor() {}
+  constructor(overrides: GameConstantOverrides = {}) {
+    Object.assign(this, overrides);
+  }
 
-  static getInstance(): GameConstants {
-    if (!GameConstants.instance) {
-      GameConstants.instance = new GameConstants();
-    }
-    return GameConstants.instance;
+  // Mode overrides first, then any session-specific ones on top
+  static forMode(mode: GameMode, overrides: GameConstantOverrides = {}): GameConstants {
+    return new GameConstants({ ...GAME_MODE_OVERRIDES[mode], ...overrides });
   }
 }
 
+export const GAME_MODE_OVERRIDES: Record<GameMode, GameConstantOverrides> = {
+  normal: {},
+  superHard: {
+    INITIAL_PLAYER_SPEED_MULTIPLIER: 1.15,
+    INITIAL_PROJECTILE_SPEED_MULTIPLIER: 1.15,
+    INITIAL_ENEMY_FIRE_CHANCE: 0.10,
+    ELITE_SHOOTER_PROGRESS_THRESHOLD: 0,
+    ELITE_SHOOTER_CHANCE: 0.20,
+    ITEM_SPAWN_PERCENTAGE: 0.07,
+  },
+};
+
+// Unmodified values, for UI that has no session (volumes, layout)
+export const DEFAULT_GAME_CONSTANTS = new GameConstants();
+
 export default GameConstants;
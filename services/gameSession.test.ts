@@ -0,0 +1,401 @@
+import { describe, it, expect, vi } from 'vitest';
+import GameSession, { GameSessionOptions } from '@/services/gameSession';
+import { Enemy, EnemyProjectile, GameCheckpoint, GameState, GameStats, Item, ItemType, PlayerInput, Projectile, ReplayRecording } from '@/types';
+
+// One far-off line keeps the lyric spawner quiet, so each test controls every entity on screen
+const createSession = (options: Partial<GameSessionOptions> = {}) =>
+  new GameSession({ lyrics: [{ time: 1000, text: 'x' }], seed: 1, songDuration: 2000, ...options });
+
+let nextTestId = 100000;
+
+const playerCenter = (session: GameSession) => {
+  const { PLAYER_WIDTH, PLAYER_HEIGHT } = session.constants;
+  return { x: session.state.playerX + PLAYER_WIDTH / 2, y: session.state.playerY + PLAYER_HEIGHT / 2 };
+};
+
+const addEnemyProjectile = (state: GameState, x: number, y: number): EnemyProjectile => {
+  const projectile: EnemyProjectile = { id: nextTestId++, x, y, width: 8, height: 8, speedX: 0, speedY: 0, attackPattern: 'STRAIGHT_DOWN', entityType: 'enemyProjectile' };
+  state.enemyProjectiles.push(projectile);
+  return projectile;
+};
+
+const addEnemy = (state: GameState, x: number, y: number): Enemy => {
+  const enemy: Enemy = { id: nextTestId++, x, y, width: 36, height: 36, char: 'a', speedY: 0, movementPattern: 'STRAIGHT_DOWN', hp: 1, entityType: 'enemy' };
+  state.enemies.push(enemy);
+  return enemy;
+};
+
+// Parks a stationary player shot on the centre of an enemy
+const shootEnemy = (state: GameState, enemy: Enemy): void => {
+  const projectile: Projectile = { id: nextTestId++, x: enemy.x + enemy.width / 2 - 3, y: enemy.y + enemy.height / 2 - 10, width: 6, height: 20, speedX: 0, speedY: 0, entityType: 'playerProjectile' };
+  state.projectiles.push(projectile);
+};
+
+// Drops an item straight onto the ship so the next tick collects it
+const collectItem = (session: GameSession, type: ItemType): void => {
+  const item: Item = { id: nextTestId++, x: session.state.playerX, y: session.state.playerY, width: 32, height: 32, type, speedY: 0, entityType: 'item' };
+  session.state.items.push(item);
+  session.tick();
+};
+
+// Parks an 8px bullet on the centre of the ship
+const hitShip = (session: GameSession): void => {
+  const center = playerCenter(session);
+  addEnemyProjectile(session.state, center.x - 4, center.y - 4);
+  session.tick();
+};
+
+const ticksFor = (session: GameSession, ms: number) => Math.ceil(ms / (session.clock.tickSeconds * 1000)) + 1;
+
+// Skips the intro so the ship can fire, then holds fire for the given time
+const fireFor = (session: GameSession, ms: number): void => {
+  session.queueAction('skip');
+  session.tick();
+  session.setInput({ moveX: 0, moveY: 0, fire: true, focus: false });
+  session.runTicks(ticksFor(session, ms));
+};
+
+describe('GameSession collisions', () => {
+  it('loses a life when an enemy bullet reaches the core hitbox', () => {
+    const session = createSession();
+    hitShip(session);
+
+    expect(session.state.lives).toBe(session.constants.INITIAL_LIVES - 1);
+    expect(session.state.isRespawning).toBe(true);
+    expect(session.state.enemyProjectiles).toHaveLength(0);
+  });
+
+  it('grazes an enemy bullet that only overlaps the ship outside the core', () => {
+    const session = createSession();
+    addEnemyProjectile(session.state, session.state.playerX, session.state.playerY);
+    session.tick();
+
+    expect(session.state.lives).toBe(session.constants.INITIAL_LIVES);
+    expect(session.state.grazeCount).toBe(1);
+  });
+
+  it('loses a life and clears on-screen enemies when an enemy body touches the ship', () => {
+    const session = createSession();
+    const center = playerCenter(session);
+    addEnemy(session.state, center.x - 18, center.y - 18);
+    addEnemy(session.state, 100, 100);
+    session.tick();
+
+    expect(session.state.lives).toBe(session.constants.INITIAL_LIVES - 1);
+    expect(session.state.enemies).toHaveLength(0);
+    expect(session.state.enemiesDefeated).toBe(2);
+  });
+
+  it('respawns with temporary invincibility after a hit', () => {
+    const session = createSession();
+    const { RESPAWN_DURATION, INVINCIBILITY_DURATION } = session.constants;
+    hitShip(session);
+    session.runTicks(ticksFor(session, RESPAWN_DURATION));
+
+    expect(session.state.isRespawning).toBe(false);
+    expect(session.state.isInvincible).toBe(true);
+
+    hitShip(session);
+    expect(session.state.lives).toBe(session.constants.INITIAL_LIVES - 1);
+
+    session.runTicks(ticksFor(session, INVINCIBILITY_DURATION));
+    expect(session.state.isInvincible).toBe(false);
+  });
+});
+
+describe('GameSession item effects', () => {
+  it.each(['BOMB', 'LASER_BEAM', 'PHASE_SHIELD'] as const)('stocks %s, and scores a duplicate instead', (type) => {
+    const session = createSession();
+    collectItem(session, type);
+    expect(session.state.stockedItem).toBe(type);
+    expect(session.state.itemsCollected[type]).toBe(1);
+
+    collectItem(session, type === 'BOMB' ? 'LASER_BEAM' : 'BOMB');
+    expect(session.state.stockedItem).toBe(type);
+    expect(session.state.score).toBe(500);
+  });
+
+  it('BOMB clears every on-screen enemy when activated', () => {
+    const session = createSession();
+    collectItem(session, 'BOMB');
+    addEnemy(session.state, 100, 100);
+    addEnemy(session.state, 500, 200);
+    session.queueAction('special');
+    session.tick();
+
+    expect(session.state.enemies).toHaveLength(0);
+    expect(session.state.enemiesDefeated).toBe(2);
+    expect(session.state.stockedItem).toBeNull();
+  });
+
+  it('LASER_BEAM destroys enemies above the ship until it runs out', () => {
+    const session = createSession();
+    collectItem(session, 'LASER_BEAM');
+    session.queueAction('special');
+    session.tick();
+    expect(session.state.isLaserActive).toBe(true);
+
+    const center = playerCenter(session);
+    addEnemy(session.state, center.x - 18, 100);
+    session.tick();
+    expect(session.state.enemies).toHaveLength(0);
+    expect(session.state.enemiesDefeated).toBe(1);
+
+    session.runTicks(ticksFor(session, session.constants.LASER_DURATION));
+    expect(session.state.isLaserActive).toBe(false);
+    expect(session.state.stockedItem).toBeNull();
+  });
+
+  it('PHASE_SHIELD absorbs enemy bullets while active', () => {
+    const session = createSession();
+    collectItem(session, 'PHASE_SHIELD');
+    session.queueAction('special');
+    session.tick();
+    expect(session.state.isPhaseShieldActive).toBe(true);
+
+    hitShip(session);
+    expect(session.state.lives).toBe(session.constants.INITIAL_LIVES);
+    expect(session.state.enemyProjectiles).toHaveLength(0);
+  });
+
+  it('SPEED_UP raises ship and shot speed', () => {
+    const session = createSession();
+    collectItem(session, 'SPEED_UP');
+    expect(session.state.speedUpCount).toBe(1);
+    expect(session.state.playerSpeedMultiplier).toBeCloseTo(1.15);
+    expect(session.state.projectileSpeedMultiplier).toBeCloseTo(1.15);
+  });
+
+  it('ONE_UP adds a life', () => {
+    const session = createSession();
+    collectItem(session, 'ONE_UP');
+    expect(session.state.lives).toBe(session.constants.INITIAL_LIVES + 1);
+  });
+
+  it('DIAGONAL_SHOT adds angled shots, and scores a duplicate instead', () => {
+    const session = createSession();
+    collectItem(session, 'DIAGONAL_SHOT');
+    expect(session.state.hasDiagonalShot).toBe(true);
+    collectItem(session, 'DIAGONAL_SHOT');
+    expect(session.state.score).toBe(1000);
+
+    fireFor(session, session.constants.FIRE_COOLDOWN * 4);
+    expect(session.state.projectiles.some(p => p.speedX > 0 && p.speedY > 0)).toBe(true);
+    expect(session.state.projectiles.some(p => p.speedX < 0 && p.speedY > 0)).toBe(true);
+  });
+
+  it('SIDE_SHOT adds sideways shots', () => {
+    const session = createSession();
+    collectItem(session, 'SIDE_SHOT');
+    expect(session.state.hasSideShot).toBe(true);
+
+    fireFor(session, session.constants.FIRE_COOLDOWN * 3);
+    expect(session.state.projectiles.some(p => p.speedY === 0 && p.speedX !== 0)).toBe(true);
+  });
+
+  it('RICOCHET_SHOT stacks bounces on primary shots', () => {
+    const session = createSession();
+    collectItem(session, 'RICOCHET_SHOT');
+    collectItem(session, 'RICOCHET_SHOT');
+    expect(session.state.ricochetStacks).toBe(2);
+
+    fireFor(session, session.constants.FIRE_COOLDOWN * 3);
+    expect(session.state.projectiles.some(p => p.isRicochetPrimary && p.remainingBounces === 2)).toBe(true);
+  });
+
+  it('CANCELLER_SHOT sometimes guards a hit without costing a life', () => {
+    const session = createSession();
+    collectItem(session, 'CANCELLER_SHOT');
+    expect(session.state.hasCancellerShot).toBe(true);
+
+    // Each hit rolls the guard chance; over enough hits some must be guarded
+    let guarded = 0;
+    for (let i = 0; i < 20 && session.state.lives > 1; i++) {
+      const lives = session.state.lives;
+      session.state.isInvincible = false;
+      session.state.isRespawning = false;
+      hitShip(session);
+      if (session.state.lives === lives) guarded++;
+    }
+    expect(guarded).toBeGreaterThan(0);
+  });
+});
+
+describe('GameSession Last Stand and game over', () => {
+  it('grants a bomb or laser when a hit leaves one life and the slot is empty', () => {
+    const session = createSession();
+    session.state.lives = 2;
+    hitShip(session);
+
+    expect(session.state.lives).toBe(1);
+    expect(['BOMB', 'LASER_BEAM']).toContain(session.state.stockedItem);
+    expect(session.state.floatingTexts.some(text => text.text === 'LAST STAND!')).toBe(true);
+  });
+
+  it('keeps an already stocked item at Last Stand', () => {
+    const session = createSession();
+    collectItem(session, 'PHASE_SHIELD');
+    session.state.lives = 2;
+    hitShip(session);
+
+    expect(session.state.lives).toBe(1);
+    expect(session.state.stockedItem).toBe('PHASE_SHIELD');
+  });
+
+  it('reports game over only after the game over delay', () => {
+    const onEnd = vi.fn();
+    const session = createSession({ onEnd });
+    session.state.lives = 1;
+    hitShip(session);
+
+    expect(session.state.lives).toBe(0);
+    expect(session.state.isGameOverDelayed).toBe(true);
+    expect(session.state.showGameOverText).toBe(true);
+    expect(onEnd).not.toHaveBeenCalled();
+
+    session.runTicks(ticksFor(session, 4000));
+    expect(onEnd).not.toHaveBeenCalled();
+
+    session.runTicks(ticksFor(session, 2000));
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onEnd.mock.calls[0][1]).toBe('gameOver');
+    expect(session.state.isGameEnding).toBe(true);
+    expect(session.tick()).toBe(false);
+  });
+});
+
+describe('GameSession word enemies', () => {
+  // Spawns one enemy per word of the line and parks them mid-screen
+  const spawnWords = (text: string) => {
+    const session = createSession({ lyrics: [{ time: 1, text }], spawnTokenMode: 'word' });
+    session.queueAction('skip');
+    session.runTicks(ticksFor(session, 1500));
+    session.state.enemies.forEach((enemy, idx) => {
+      enemy.x = 100 + idx * 200;
+      enemy.y = 200;
+      enemy.speedY = 0;
+      enemy.movementPattern = 'STRAIGHT_DOWN';
+    });
+    return session;
+  };
+
+  it('takes more shots to kill a longer word', () => {
+    const session = spawnWords('a hello');
+    const short = session.state.enemies.find(enemy => enemy.char === 'a')!;
+    const long = session.state.enemies.find(enemy => enemy.char === 'hello')!;
+    expect(short).toBeDefined();
+    expect(long).toBeDefined();
+
+    shootEnemy(session.state, short);
+    shootEnemy(session.state, long);
+    session.tick();
+    expect(session.state.enemies).not.toContain(short);
+    expect(session.state.enemies).toContain(long);
+
+    shootEnemy(session.state, long);
+    session.tick();
+    expect(session.state.enemies).not.toContain(long);
+  });
+});
+
+describe('GameSession touch steering', () => {
+  it('re-aims at the touch target every tick, so a multi-tick frame lands on it without overshooting', () => {
+    const session = createSession();
+    const start = { x: session.state.playerX, y: session.state.playerY };
+    const target = { x: start.x + 10, y: start.y - 25 };
+    session.setInput({ moveX: 0, moveY: 0, fire: false, focus: false, steerTo: target });
+
+    // Axes are quantised for the replay, so the ship settles within a fraction of a pixel
+    for (let i = 0; i < 16; i++) {
+      session.tick();
+      expect(session.state.playerX).toBeLessThanOrEqual(target.x + 0.05);
+      expect(session.state.playerY).toBeGreaterThanOrEqual(target.y - 0.05);
+    }
+    expect(session.state.playerX).toBeCloseTo(target.x, 1);
+    expect(session.state.playerY).toBeCloseTo(target.y, 1);
+  });
+
+  it('lets a held key win on its own axis', () => {
+    const session = createSession();
+    const start = { x: session.state.playerX, y: session.state.playerY };
+    session.setInput({ moveX: -1, moveY: 0, fire: false, focus: false, steerTo: { x: start.x + 50, y: start.y - 5 } });
+
+    session.runTicks(4);
+    expect(session.state.playerX).toBeLessThan(start.x);
+    expect(session.state.playerY).toBeCloseTo(start.y - 5, 1);
+  });
+});
+
+describe('GameSession checkpoints', () => {
+  const lyrics = Array.from({ length: 8 }, (_, idx) => ({ time: 1 + idx, text: 'lyric' }));
+  const songDuration = 11;
+
+  // Input that keeps changing, so sessions only agree if they follow the same script from the same state
+  const scriptedInput = (tick: number): PlayerInput => ({ moveX: Math.sin(tick / 30), moveY: 0, fire: tick % 60 < 40, focus: tick % 90 < 20 });
+
+  const play = (session: GameSession, ticks: number): void => {
+    for (let i = 0; i < ticks; i++) {
+      session.setInput(scriptedInput(session.clock.ticks));
+      if (!session.tick()) return;
+    }
+  };
+
+  // Plays live until the given lyric line has fired and returns the checkpoint there
+  const playToCheckpoint = async (session: GameSession, lyricIndex: number): Promise<GameCheckpoint> => {
+    session.queueAction('skip');
+    while (session.state.currentLyricIndex < lyricIndex) play(session, 1);
+    const checkpoint = await session.checkpoint();
+    expect(checkpoint).not.toBeNull();
+    return checkpoint!;
+  };
+
+  it('picks up exactly where the checkpoint was taken', async () => {
+    const original = createSession({ lyrics, songDuration });
+    const checkpoint = await playToCheckpoint(original, 4);
+    play(original, 300);
+
+    const restarted = createSession({ lyrics, songDuration, checkpoint });
+    expect(restarted.clock.ticks).toBe(checkpoint.tick);
+    play(restarted, 300);
+    expect(restarted.state).toEqual(original.state);
+  });
+
+  it('restores without re-running the ticks before the checkpoint', async () => {
+    const checkpoint = await playToCheckpoint(createSession({ lyrics, songDuration }), 4);
+    const tickSpy = vi.spyOn(GameSession.prototype, 'tick');
+    try {
+      createSession({ lyrics, songDuration, checkpoint });
+      expect(tickSpy).not.toHaveBeenCalled();
+    } finally {
+      tickSpy.mockRestore();
+    }
+  });
+
+  it('can restart from the same checkpoint more than once', async () => {
+    const checkpoint = await playToCheckpoint(createSession({ lyrics, songDuration }), 3);
+    const pristine = structuredClone(checkpoint);
+
+    const first = createSession({ lyrics, songDuration, checkpoint });
+    play(first, 200);
+    const second = createSession({ lyrics, songDuration, checkpoint });
+    play(second, 200);
+
+    expect(checkpoint).toEqual(pristine);
+    expect(second.state).toEqual(first.state);
+  });
+
+  it('records a replay of the whole run after a restart', async () => {
+    const checkpoint = await playToCheckpoint(createSession({ lyrics, songDuration }), 4);
+    let result: { stats: GameStats; replay?: ReplayRecording } | null = null;
+    const restarted = createSession({ lyrics, songDuration, checkpoint, onEnd: (stats, _status, replay) => { result = { stats, replay }; } });
+    play(restarted, ticksFor(restarted, songDuration * 1000));
+    expect(result).not.toBeNull();
+    const { stats, replay } = result!;
+
+    const onEnd = vi.fn();
+    const replayed = createSession({ lyrics, songDuration, replay, onEnd });
+    replayed.runTicks(ticksFor(replayed, songDuration * 1000));
+    expect(onEnd).toHaveBeenCalledTimes(1);
+    expect(onEnd.mock.calls[0][0]).toEqual(stats);
+  });
+});
@@ -0,0 +1,945 @@
+import GameConstants, { GameConstantOverrides } from '@/services/gameConstants';
+import EnemyManager from '@/services/enemyManager';
+import ProjectileManager from '@/services/projectileManager';
+import ItemManager from '@/services/itemManager';
+import ScoreManager from '@/services/scoreManager';
+import SimulationClock from '@/services/simulationClock';
+import SeededRandom, { hashLyricsSeed } from '@/services/seededRandom';
+import ObjectPool from '@/services/objectPool';
+import SpatialGrid from '@/services/spatialGrid';
+import { ReplayRecorder, ReplayPlayer, encodeInput, decodeInput } from '@/services/replay';
+import { filterInPlace } from '@/services/collectionUtils';
+import { steerAxis } from '@/services/touchDrag';
+import { getSpawnTokens, countLineEnemies } from '@/services/lrcParser';
+import {
+  LyricLine,
+  Enemy,
+  Projectile,
+  EnemyProjectile,
+  Explosion,
+  Mine,
+  GameObject,
+  GameState,
+  GameStats,
+  ItemType,
+  PlayerSnapshot,
+  PlayerInput,
+  SpawnTokenMode,
+  ReplayRecording,
+  ReplayActionType,
+  GameCheckpoint,
+  SessionSnapshot,
+} from '@/types';
+
+// The song as the simulation sees it; the browser wraps an <audio> element, tests use SimulatedAudio
+export interface GameSessionAudio {
+  currentTime(): number; // seconds
+  ended(): boolean;
+  seek(time: number): void;
+  pause(): void;
+}
+
+// Sound and music cues; every hook is optional so headless sessions stay silent
+export interface GameSessionEffects {
+  shipHit?: () => void;
+  bomb?: () => void;
+  cancel?: () => void;
+  fadeOutBgm?: (seconds: number) => void;
+}
+
+export type GameEndStatus = 'cleared' | 'gameOver';
+
+export interface GameSessionOptions {
+  lyrics: LyricLine[];
+  seed: number;
+  superHardMode?: boolean;
+  constants?: GameConstantOverrides; // Applied on top of the mode's constants
+  initialItem?: ItemType;
+  spawnTokenMode?: SpawnTokenMode;
+  replay?: ReplayRecording; // Plays this recording back instead of reading setInput/queueAction
+  checkpoint?: GameCheckpoint; // Starts live play from this checkpoint instead of the top of the song
+  audio?: GameSessionAudio; // Defaults to SimulatedAudio on the session clock
+  songDuration?: number; // Seconds, for the default SimulatedAudio
+  effects?: GameSessionEffects;
+  onEnd?: (stats: GameStats, status: GameEndStatus, replay?: ReplayRecording) => void;
+}
+
+/** What GameScreen and the renderers need from a session, whether it runs on this thread or in a worker. */
+export interface GameSessionHandle {
+  readonly state: GameState;
+  readonly clock: { readonly now: number; readonly alpha: number };
+  readonly constants: GameConstants;
+  readonly totalEnemies: number;
+  readonly isReplay: boolean;
+  readonly prevPlayerPos: { x: number; y: number };
+  readonly itemSpawnMilestone: { current: number };
+  readonly songProgressPercentage: number;
+  setInput(input: PlayerInput): void;
+  queueAction(action: Exclude<ReplayActionType, 'songEnd'>): void;
+  pressSkip(): void;
+  releaseSkip(): void;
+  pressQuit(): void;
+  releaseQuit(): void;
+  advance(realNow: number): boolean;
+  // Call before advancing again after the game loop was paused, so the gap is not simulated
+  resume(): void;
+  // The start of the latest lyric line, or null before the first one and during replays
+  checkpoint(): Promise<GameCheckpoint | null>;
+  dispose(): void;
+}
+
+const IDLE_INPUT: PlayerInput = { moveX: 0, moveY: 0, fire: false, focus: false };
+
+// Record where objects stood before a tick moves them, so frames between ticks can be interpolated
+const snapshotPositions = (objects: GameObject[]) => {
+  for (let i = 0; i < objects.length; i++) {
+    objects[i].prevX = objects[i].x;
+    objects[i].prevY = objects[i].y;
+  }
+};
+
+/**
+ * Song playback driven by simulated time instead of a media element: the song
+ * advances with the session clock and ends after `duration` seconds.
+ */
+export class SimulatedAudio implements GameSessionAudio {
+  private readonly clock: SimulationClock;
+  private readonly duration: number;
+  private offset = 0;
+  private pausedAt: number | null = null;
+
+  constructor(clock: SimulationClock, duration = Infinity) {
+    this.clock = clock;
+    this.duration = duration;
+  }
+
+  currentTime(): number {
+    const position = (this.pausedAt ?? this.clock.now / 1000) + this.offset;
+    return Math.min(this.duration, Math.max(0, position));
+  }
+
+  ended(): boolean {
+    return this.currentTime() >= this.duration;
+  }
+
+  seek(time: number): void {
+    this.offset += time - this.currentTime();
+  }
+
+  pause(): void {
+    if (this.pausedAt === null) this.pausedAt = this.clock.now / 1000;
+  }
+}
+
+export const createInitialState = (constants: GameConstants): GameState => {
+  const {
+    GAME_WIDTH,
+    GAME_HEIGHT,
+    PLAYER_WIDTH,
+    PLAYER_HEIGHT,
+    INITIAL_LIVES,
+    INITIAL_ENEMY_FIRE_CHANCE,
+    INITIAL_PLAYER_SPEED_MULTIPLIER,
+    INITIAL_PROJECTILE_SPEED_MULTIPLIER,
+  } = constants;
+  return {
+    playerX: GAME_WIDTH / 2 - PLAYER_WIDTH / 2,
+    playerY: GAME_HEIGHT - PLAYER_HEIGHT - 20,
+    lives: INITIAL_LIVES,
+    isInvincible: false,
+    invincibilityEndTime: 0,
+    isRespawning: false,
+    respawnEndTime: 0,
+    projectiles: [],
+    enemyProjectiles: [],
+    playerSpeedMultiplier: INITIAL_PLAYER_SPEED_MULTIPLIER,
+    isFocused: false,
+    projectileSpeedMultiplier: INITIAL_PROJECTILE_SPEED_MULTIPLIER,
+    speedUpCount: 0,
+    hasDiagonalShot: false,
+    hasSideShot: false,
+    hasCancellerShot: false,
+    hasRicochetShot: false,
+    ricochetStacks: 0,
+    mainShotCounter: 0,
+    stockedItem: null,
+    stockedItemActiveUntil: 0,
+    isLaserActive: false,
+    laserEndTime: 0,
+    isPhaseShieldActive: false,
+    phaseShieldEndTime: 0,
+    enemies: [],
+    items: [],
+    mines: [],
+    explosions: [],
+    floatingTexts: [],
+    score: 0,
+    combo: 0,
+    maxCombo: 0,
+    comboExpiresAt: 0,
+    scoreMultiplier: 1,
+    onBeatKills: 0,
+    grazeCount: 0,
+    grazeCharge: 0,
+    enemiesDefeated: 0,
+    itemsCollected: {},
+    currentLyricIndex: 0,
+    baseShooterChance: INITIAL_ENEMY_FIRE_CHANCE,
+    difficultyMilestone: 0,
+    isGameEnding: false,
+    showSkip: true,
+    spacePressProgress: 0,
+    // Enemy spawn rate tracking
+    totalEnemiesSpawned: 0,
+    gameStartTime: 0,
+    currentEnemySpawnRate: 0,
+    lastSpawnRateUpdate: 0,
+    // Super Hard Mode state
+    isMidGameBuffActive: false,
+    enemyProjectileSpeedMultiplier: 1,
+    // Game Over delay state
+    isGameOverDelayed: false,
+    gameOverDelayEndTime: 0,
+    shouldHidePlayer: false,
+    showGameOverText: false,
+    // Backspace key long press for restart
+    backspacePressStart: 0,
+    backspacePressProgress: 0,
+    fps: 0,
+    pendingSpawns: [],
+    pendingSpawnCursor: 0,
+  };
+};
+
+/**
+ * One game of Lyric Shooter without any DOM or audio: owns the GameState, the
+ * constants, the clock, the RNG, the pools and its own managers, and advances
+ * the simulation tick by tick. Sessions share nothing, so several can run side
+ * by side. GameScreen renders one; tests script it directly.
+ */
+class GameSession implements GameSessionHandle {
+  readonly state: GameState;
+  readonly constants: GameConstants;
+  readonly clock = new SimulationClock();
+  readonly random: SeededRandom;
+  readonly lyrics: LyricLine[];
+  readonly seed: number;
+  readonly totalEnemies: number;
+  readonly isReplay: boolean;
+  // Player position at the start of the current tick, for render interpolation
+  readonly prevPlayerPos: { x: number; y: number };
+  // Defeat ratio at which the last item dropped; the HUD shows progress toward the next one
+  readonly itemSpawnMilestone = { current: 0 };
+
+  private readonly enemyManager: EnemyManager;
+  private readonly projectileManager: ProjectileManager;
+  private readonly itemManager: ItemManager;
+  private readonly scoreManager: ScoreManager;
+  private readonly superHardMode: boolean;
+  private readonly spawnTokenMode: SpawnTokenMode;
+  private readonly audio: GameSessionAudio;
+  // Real audio keeps playing between frames, so ticks caught up in one frame see its position back-dated
+  private readonly backdateAudio: boolean;
+  private frameAudioTime: number | null = null;
+  private readonly effects: GameSessionEffects;
+  private readonly onEnd?: GameSessionOptions['onEnd'];
+
+  private readonly projectilePool: ObjectPool<Projectile>;
+  private readonly enemyProjectilePool: ObjectPool<EnemyProjectile>;
+  private readonly explosionPool: ObjectPool<Explosion>;
+  private readonly spatialGrid: SpatialGrid;
+  private readonly collisionBuffers = {
+    enemies: [] as Enemy[],
+    enemyProjectiles: [] as EnemyProjectile[],
+    mines: [] as Mine[],
+  };
+
+  private readonly replayPlayer: ReplayPlayer | null;
+  private readonly replayRecorder: ReplayRecorder | null;
+  // Actions from input handlers wait here so they land on a tick boundary, where they can be recorded
+  private readonly queuedActions: ReplayActionType[] = [];
+  private input: PlayerInput = IDLE_INPUT;
+  private readonly lastFireTime = { current: 0 };
+  private spacebarPressStart = 0;
+  private nextId = 1;
+  // Taken at the end of each tick that fires a lyric line, for checkpoint()
+  private lastSnapshot: SessionSnapshot | null = null;
+
+  constructor(options: GameSessionOptions) {
+    this.lyrics = options.lyrics;
+    this.seed = options.seed;
+    this.superHardMode = options.superHardMode ?? false;
+    this.constants = GameConstants.forMode(this.superHardMode ? 'superHard' : 'normal', options.constants);
+    const { PROJECTILE_WIDTH, PROJECTILE_HEIGHT, GAME_WIDTH, GAME_HEIGHT } = this.constants;
+    this.spawnTokenMode = options.spawnTokenMode ?? 'auto';
+    this.random = new SeededRandom(options.seed);
+    this.audio = options.audio ?? new SimulatedAudio(this.clock, options.songDuration);
+    this.backdateAudio = Boolean(options.audio);
+    this.effects = options.effects ?? {};
+    this.onEnd = options.onEnd;
+    this.totalEnemies = this.lyrics.reduce((acc, line) => acc + countLineEnemies(line, this.spawnTokenMode), 0);
+    this.state = createInitialState(this.constants);
+    this.prevPlayerPos = { x: this.state.playerX, y: this.state.playerY };
+
+    this.isReplay = Boolean(options.replay);
+    this.replayPlayer = options.replay ? new ReplayPlayer(options.replay) : null;
+    this.replayRecorder = options.replay
+      ? null
+      : new ReplayRecorder({
+          seed: options.seed,
+          lyricsHash: hashLyricsSeed(this.lyrics),
+          superHardMode: this.superHardMode,
+          initialItem: options.initialItem,
+          spawnTokenMode: this.spawnTokenMode,
+        });
+
+    this.projectilePool = new ObjectPool<Projectile>(
+      () => ({ id: 0, x: 0, y: 0, width: PROJECTILE_WIDTH, height: PROJECTILE_HEIGHT, speedY: 0, speedX: 0, entityType: 'playerProjectile' }),
+      (obj) => {
+        obj.id = 0;
+        obj.x = 0;
+        obj.y = 0;
+        obj.width = PROJECTILE_WIDTH;
+        obj.height = PROJECTILE_HEIGHT;
+        obj.speedY = 0;
+        obj.speedX = 0;
+        obj.entityType = 'playerProjectile';
+        obj.isRicochetPrimary = undefined;
+        obj.hasBounced = undefined;
+        obj.remainingBounces = undefined;
+        obj.rotationDeg = undefined;
+        obj.prevX = undefined;
+        obj.prevY = undefined;
+      }
+    );
+    this.enemyProjectilePool = new ObjectPool<EnemyProjectile>(
+      () => ({ id: 0, x: 0, y: 0, width: 8, height: 8, speedX: 0, speedY: 0, attackPattern: 'STRAIGHT_DOWN', entityType: 'enemyProjectile' }),
+      (obj) => {
+        obj.id = 0;
+        obj.x = 0;
+        obj.y = 0;
+        obj.width = 8;
+        obj.height = 8;
+        obj.speedX = 0;
+        obj.speedY = 0;
+        obj.entityType = 'enemyProjectile';
+        obj.attackPattern = 'STRAIGHT_DOWN';
+        obj.isDelayed = false;
+        obj.delayEndTime = undefined;
+        obj.beatTargetSide = undefined;
+        obj.initialSpeed = undefined;
+        obj.slowSpeed = undefined;
+        obj.circleMode = undefined;
+        obj.orbitCenterX = undefined;
+        obj.orbitCenterY = undefined;
+        obj.orbitRadius = undefined;
+        obj.orbitAngle = undefined;
+        obj.orbitAngularSpeed = undefined;
+        obj.orbitAccumulatedAngle = undefined;
+        obj.orbitDirection = undefined;
+        obj.directionX = undefined;
+        obj.directionY = undefined;
+        obj.decelerateInitialDistance = undefined;
+        obj.circleGuideUntil = undefined;
+        obj.hasGrazed = undefined;
+        obj.prevX = undefined;
+        obj.prevY = undefined;
+      }
+    );
+    this.explosionPool = new ObjectPool<Explosion>(
+      () => ({ id: 0, x: 0, y: 0, size: 'small', createdAt: 0 }),
+      (obj) => { obj.id = 0; obj.x = 0; obj.y = 0; obj.size = 'small'; obj.createdAt = 0; }
+    );
+    this.spatialGrid = new SpatialGrid(GAME_WIDTH, GAME_HEIGHT);
+
+    const playCancelSound = () => this.effects.cancel?.();
+    this.scoreManager = new ScoreManager({
+      constants: this.constants,
+      state: this.state,
+      generateId: this.generateId,
+      clock: this.clock,
+    });
+    this.enemyManager = new EnemyManager({
+      constants: this.constants,
+      state: this.state,
+      generateId: this.generateId,
+      superHardMode: this.superHardMode,
+      enemyProjectilePool: this.enemyProjectilePool,
+      explosionPool: this.explosionPool,
+      clock: this.clock,
+      random: this.random,
+    });
+    this.projectileManager = new ProjectileManager({
+      constants: this.constants,
+      state: this.state,
+      generateId: this.generateId,
+      projectilePool: this.projectilePool,
+      enemyProjectilePool: this.enemyProjectilePool,
+      explosionPool: this.explosionPool,
+      enemyManager: this.enemyManager,
+      scoreManager: this.scoreManager,
+      playCancelSound,
+      clock: this.clock,
+      random: this.random,
+    });
+    this.itemManager = new ItemManager({
+      constants: this.constants,
+      state: this.state,
+      generateId: this.generateId,
+      scoreManager: this.scoreManager,
+      playCancelSound,
+      clock: this.clock,
+      random: this.random,
+    });
+
+    if (options.initialItem) this.applyInitialItem(options.initialItem);
+    if (options.checkpoint) this.restoreCheckpoint(options.checkpoint);
+  }
+
+  get songProgressPercentage(): number {
+    const totalLines = this.lyrics.length;
+    return totalLines > 0 ? (this.state.currentLyricIndex / totalLines) * 100 : 0;
+  }
+
+  // --- Input ---
+
+  /** Live held input, sampled at the start of every tick until replaced. Ignored during replays. */
+  setInput(input: PlayerInput): void {
+    this.input = input;
+  }
+
+  // A touch target is re-aimed from where the ship stands now, so the replay records plain axes
+  private steeredInput(): PlayerInput {
+    const input = this.input;
+    if (!input.steerTo) return input;
+    const { PLAYER_SPEED_PER_SECOND, FOCUS_SPEED_MULTIPLIER } = this.constants;
+    const state = this.state;
+    const distancePerTick = PLAYER_SPEED_PER_SECOND * state.playerSpeedMultiplier * (input.focus ? FOCUS_SPEED_MULTIPLIER : 1) * this.clock.tickSeconds;
+    return {
+      moveX: input.moveX !== 0 ? input.moveX : steerAxis(input.steerTo.x - state.playerX, distancePerTick),
+      moveY: input.moveY !== 0 ? input.moveY : steerAxis(input.steerTo.y - state.playerY, distancePerTick),
+      fire: input.fire,
+      focus: input.focus,
+    };
+  }
+
+  queueAction(action: Exclude<ReplayActionType, 'songEnd'>): void {
+    if (!this.isReplay) this.queuedActions.push(action);
+  }
+
+  // Holding Space on the skip prompt skips after SKIP_LONG_PRESS_DURATION; a tap skips on release
+  pressSkip(): void {
+    if (this.isReplay || !this.state.showSkip || this.spacebarPressStart !== 0) return;
+    this.spacebarPressStart = this.clock.now;
+  }
+
+  releaseSkip(): void {
+    if (this.isReplay || !this.state.showSkip) return;
+    this.spacebarPressStart = 0;
+    this.state.spacePressProgress = 0;
+    this.queueAction('skip');
+  }
+
+  // Holding Backspace quits; this works during replays too
+  pressQuit(): void {
+    if (this.state.backspacePressStart === 0) this.state.backspacePressStart = this.clock.now;
+  }
+
+  releaseQuit(): void {
+    this.state.backspacePressStart = 0;
+    this.state.backspacePressProgress = 0;
+  }
+
+  // --- Running ---
+
+  /** Feeds in the real frame time and runs every tick it pays for. Returns false once the game is over. */
+  advance(realNow: number): boolean {
+    const dueTicks = this.clock.advance(realNow);
+    this.frameAudioTime = this.backdateAudio && dueTicks > 0 ? this.audio.currentTime() : null;
+    try {
+      for (let i = 0; i < dueTicks; i++) {
+        if (!this.tick()) return false;
+      }
+    } finally {
+      this.frameAudioTime = null;
+    }
+    return !this.state.isGameEnding;
+  }
+
+  /** Runs exactly one fixed tick. Returns false once the game is over. */
+  tick(): boolean {
+    if (this.state.isGameEnding) return false;
+    this.clock.step();
+    const lyricIndex = this.state.currentLyricIndex;
+    const running = this.simulateTick();
+    if (running && this.replayRecorder && this.state.currentLyricIndex !== lyricIndex) this.lastSnapshot = this.takeSnapshot();
+    return running;
+  }
+
+  resume(): void {
+    this.clock.resync();
+  }
+
+  async checkpoint(): Promise<GameCheckpoint | null> {
+    const recorder = this.replayRecorder;
+    const trigger = recorder?.lastLyricTrigger();
+    const snapshot = this.lastSnapshot;
+    if (!recorder || !trigger || !snapshot) return null;
+    const [tick, audioTime] = trigger;
+    return { recording: recorder.sliceUntil(tick), tick, audioTime, snapshot };
+  }
+
+  // Nothing to release; the worker-backed session terminates its worker here
+  dispose(): void {}
+
+  /** Runs up to `maxTicks` ticks, stopping early when the game ends. Returns the number run. */
+  runTicks(maxTicks: number): number {
+    let ran = 0;
+    while (ran < maxTicks && this.tick()) ran++;
+    return ran;
+  }
+
+  private generateId = (): number => this.nextId++;
+
+  // Song position at the current tick: the frame's audio sample minus how far real time is ahead of this tick
+  private songTime(): number {
+    if (this.frameAudioTime === null) return this.audio.currentTime();
+    return this.frameAudioTime - (this.clock.targetTime - this.clock.now) / 1000;
+  }
+
+  private applyInitialItem(initialItem: ItemType): void {
+    const state = this.state;
+    state.itemsCollected[initialItem] = (state.itemsCollected[initialItem] || 0) + 1;
+    switch (initialItem) {
+      case 'ONE_UP': state.lives++; break;
+      case 'SPEED_UP':
+        state.playerSpeedMultiplier *= 1.15;
+        state.projectileSpeedMultiplier *= 1.15;
+        state.speedUpCount++;
+        break;
+      case 'DIAGONAL_SHOT': if (!state.hasDiagonalShot) { state.hasDiagonalShot = true; state.baseShooterChance += 0.05; } break;
+      case 'SIDE_SHOT': if (!state.hasSideShot) { state.hasSideShot = true; } break;
+      case 'CANCELLER_SHOT': if (!state.hasCancellerShot) { state.hasCancellerShot = true; } break;
+      case 'RICOCHET_SHOT':
+        state.hasRicochetShot = true;
+        state.ricochetStacks = (state.ricochetStacks || 0) + 1;
+        break;
+      case 'BOMB': case 'LASER_BEAM': case 'PHASE_SHIELD': state.stockedItem = initialItem; break;
+    }
+  }
+
+  private takeSnapshot(): SessionSnapshot {
+    return {
+      state: structuredClone(this.state),
+      randomState: this.random.snapshot(),
+      nextId: this.nextId,
+      lastFireTime: this.lastFireTime.current,
+      itemSpawnMilestone: this.itemSpawnMilestone.current,
+      beats: this.scoreManager.snapshot(),
+      gridQueryToken: this.spatialGrid.snapshot(),
+    };
+  }
+
+  // Picks up where the checkpoint's snapshot left off, with the song moved there. The recorder
+  // starts from the recording up to that tick, so the finished replay still covers the whole run.
+  private restoreCheckpoint(checkpoint: GameCheckpoint): void {
+    // Copied, so the same checkpoint can be restarted from again
+    const snapshot = structuredClone(checkpoint.snapshot);
+    Object.assign(this.state, snapshot.state);
+    this.prevPlayerPos.x = this.state.playerX;
+    this.prevPlayerPos.y = this.state.playerY;
+    this.random.restore(snapshot.randomState);
+    this.scoreManager.restore(snapshot.beats);
+    this.spatialGrid.restore(snapshot.gridQueryToken);
+    this.nextId = snapshot.nextId;
+    this.lastFireTime.current = snapshot.lastFireTime;
+    this.itemSpawnMilestone.current = snapshot.itemSpawnMilestone;
+    this.replayRecorder?.restore(checkpoint.recording);
+    this.clock.restore(checkpoint.tick);
+    this.audio.seek(checkpoint.audioTime);
+  }
+
+  private buildStats(songProgressPercentage: number): GameStats {
+    return {
+      score: this.state.score,
+      enemiesDefeated: this.state.enemiesDefeated,
+      totalEnemies: this.totalEnemies,
+      itemsCollected: this.state.itemsCollected,
+      songProgressPercentage,
+      seed: this.seed,
+      maxCombo: this.state.maxCombo,
+      onBeatKills: this.state.onBeatKills,
+      grazes: this.state.grazeCount,
+    };
+  }
+
+  private endGame(status: GameEndStatus): void {
+    const state = this.state;
+    if (status === 'cleared' && state.isGameEnding) return;
+    state.isGameEnding = true;
+    this.audio.pause();
+    const progress = this.lyrics.length > 0 ? this.songProgressPercentage : 100;
+    this.onEnd?.(this.buildStats(progress), status, this.replayRecorder?.finish(state.score));
+  }
+
+  private handleSkip(): void {
+    const state = this.state;
+    if (this.lyrics.length > 0 && state.showSkip) {
+      this.audio.seek(Math.max(0, this.lyrics[0].time - 3));
+      // The frame's sample predates the seek
+      this.frameAudioTime = null;
+      state.showSkip = false;
+      state.spacePressProgress = 0;
+      this.spacebarPressStart = 0;
+    }
+  }
+
+  // Wipes every on-screen enemy, scoring each as a kill (the bomb item and the hit that costs a life)
+  private clearOnScreenEnemies(now: number): void {
+    const { ENEMY_HEIGHT, GAME_HEIGHT } = this.constants;
+    const state = this.state;
+    const onScreenEnemies = state.enemies.filter(e => e.y > -ENEMY_HEIGHT && e.y < GAME_HEIGHT);
+    onScreenEnemies.forEach(e => {
+      const explosion = this.explosionPool.get();
+      explosion.id = this.generateId();
+      explosion.x = e.x + e.width / 2;
+      explosion.y = e.y + e.height / 2;
+      explosion.size = 'small';
+      explosion.createdAt = now;
+      state.explosions.push(explosion);
+      this.scoreManager.scoreKill(e);
+      state.enemiesDefeated++;
+    });
+    const onScreenEnemyIds = new Set(onScreenEnemies.map(e => e.id));
+    if (onScreenEnemyIds.size > 0) {
+      filterInPlace(state.enemies, (enemy) => !onScreenEnemyIds.has(enemy.id));
+    }
+  }
+
+  private activateSpecialItem(): void {
+    const { LASER_DURATION, PHASE_SHIELD_DURATION } = this.constants;
+    const state = this.state;
+    const now = this.clock.now;
+    if (!state.stockedItem || state.isGameOverDelayed) return;
+    // Prevent re-activation while a duration-based item is active and held in the slot
+    if (state.stockedItemActiveUntil && now < state.stockedItemActiveUntil) return;
+
+    if (state.stockedItem === 'BOMB') {
+      this.effects.bomb?.();
+      state.itemsCollected['BOMB'] = (state.itemsCollected['BOMB'] || 0) + 1;
+      this.clearOnScreenEnemies(now);
+    } else if (state.stockedItem === 'LASER_BEAM') {
+      state.isLaserActive = true;
+      state.laserEndTime = now + LASER_DURATION;
+      state.stockedItemActiveUntil = state.laserEndTime;
+      this.effects.cancel?.();
+      return; // keep icon in slot semi-transparent while active
+    } else if (state.stockedItem === 'PHASE_SHIELD') {
+      state.isPhaseShieldActive = true;
+      state.phaseShieldEndTime = now + PHASE_SHIELD_DURATION;
+      state.isInvincible = true;
+      state.invincibilityEndTime = state.phaseShieldEndTime;
+      state.stockedItemActiveUntil = state.phaseShieldEndTime;
+      state.floatingTexts.push({ id: this.generateId(), x: state.playerX, y: state.playerY, text: 'PHASE SHIELD!', createdAt: now });
+      this.effects.cancel?.();
+      return; // keep icon in slot semi-transparent while active
+    }
+    // Non-duration items are consumed immediately
+    state.stockedItem = null;
+  }
+
+  private takeHit(isLastStand: boolean): void {
+    const { CANCELLER_INVINCIBILITY_DURATION, PLAYER_WIDTH, PLAYER_HEIGHT, RESPAWN_DURATION } = this.constants;
+    const state = this.state;
+    const now = this.clock.now;
+    if (state.isInvincible || state.isRespawning || state.isGameEnding || state.isGameOverDelayed) return;
+
+    const cancellerChance = isLastStand ? 0.35 : 0.15;
+    if (state.hasCancellerShot && this.random.chance(cancellerChance)) {
+      this.effects.cancel?.();
+      state.floatingTexts.push({ id: this.generateId(), x: state.playerX, y: state.playerY, text: 'GUARD!', createdAt: now });
+      state.isInvincible = true;
+      state.invincibilityEndTime = now + CANCELLER_INVINCIBILITY_DURATION;
+      return;
+    }
+
+    state.lives--;
+    this.effects.shipHit?.();
+    const playerExplosion = this.explosionPool.get();
+    playerExplosion.id = this.generateId();
+    playerExplosion.x = state.playerX + PLAYER_WIDTH / 2;
+    playerExplosion.y = state.playerY + PLAYER_HEIGHT / 2;
+    playerExplosion.size = 'large';
+    playerExplosion.createdAt = now;
+    state.explosions.push(playerExplosion);
+
+    this.effects.bomb?.();
+    this.clearOnScreenEnemies(now);
+    // The enemies the hit wipes still score at the old multiplier
+    this.scoreManager.breakCombo();
+
+    if (state.lives === 1 && !state.stockedItem) {
+      state.stockedItem = this.random.pick(['BOMB', 'LASER_BEAM'] as const);
+      state.floatingTexts.push({ id: this.generateId(), x: state.playerX, y: state.playerY, text: 'LAST STAND!', createdAt: now });
+    }
+
+    if (state.lives <= 0) {
+      state.isGameOverDelayed = true;
+      state.gameOverDelayEndTime = now + 5000;
+      state.shouldHidePlayer = true;
+      state.showGameOverText = true;
+      this.effects.fadeOutBgm?.(4);
+    } else {
+      state.isRespawning = true;
+      state.respawnEndTime = now + RESPAWN_DURATION;
+    }
+  }
+
+  // Advances the simulation by exactly one fixed tick. Returns false once the game loop should stop.
+  private simulateTick(): boolean {
+    const {
+      GAME_WIDTH,
+      GAME_HEIGHT,
+      PLAYER_WIDTH,
+      PLAYER_HEIGHT,
+      PLAYER_SPEED_PER_SECOND,
+      FOCUS_SPEED_MULTIPLIER,
+      ENEMY_PROJECTILE_SPEED_PER_SECOND,
+      FIRE_COOLDOWN,
+      INVINCIBILITY_DURATION,
+      EXPLOSION_DURATION,
+      SKIP_LONG_PRESS_DURATION,
+      MINE_LIFETIME,
+      FLOATING_TEXT_DURATION,
+      MAX_SPAWNS_PER_TICK,
+    } = this.constants;
+    const clock = this.clock;
+    const dt = clock.tickSeconds;
+    const state = this.state;
+    const lyrics = this.lyrics;
+    const totalLyricLines = lyrics.length;
+    const isLastStand = state.lives === 1;
+    const { enemyManager, projectileManager, itemManager } = this;
+
+    this.prevPlayerPos.x = state.playerX;
+    this.prevPlayerPos.y = state.playerY;
+    snapshotPositions(state.enemies);
+    snapshotPositions(state.projectiles);
+    snapshotPositions(state.enemyProjectiles);
+    snapshotPositions(state.items);
+
+    // --- Input (live input is sampled once per tick; replays feed back what was recorded) ---
+    const tick = clock.ticks;
+    const replayer = this.replayPlayer;
+    const recorder = this.replayRecorder;
+    const inputMask = replayer ? replayer.inputAt(tick) : encodeInput(this.steeredInput());
+    recorder?.recordInput(tick, inputMask);
+    const tickInput = decodeInput(inputMask);
+    const tickActions = replayer ? replayer.actionsAt(tick) : this.queuedActions.splice(0);
+    let replayedSongEnd = false;
+    for (const action of tickActions) {
+      recorder?.recordAction(tick, action);
+      if (action === 'special') this.activateSpecialItem();
+      else if (action === 'skip') this.handleSkip();
+      else replayedSongEnd = true;
+    }
+
+    // --- Super Hard Mode Mid-game Buff ---
+    const songProgressPercentage = this.songProgressPercentage;
+    if (this.superHardMode && !state.isMidGameBuffActive && songProgressPercentage >= 50) {
+      state.isMidGameBuffActive = true;
+      state.enemyProjectileSpeedMultiplier = 1.05;
+    }
+
+    // --- Skip Logic ---
+    if (state.showSkip && this.spacebarPressStart > 0) {
+      const pressDuration = clock.now - this.spacebarPressStart;
+      state.spacePressProgress = Math.min(100, (pressDuration / SKIP_LONG_PRESS_DURATION) * 100);
+      if (pressDuration > SKIP_LONG_PRESS_DURATION) {
+        recorder?.recordAction(tick, 'skip');
+        this.handleSkip();
+        this.spacebarPressStart = 0;
+        state.spacePressProgress = 0;
+      }
+    } else if (this.spacebarPressStart === 0 && state.spacePressProgress > 0) {
+      state.spacePressProgress = 0;
+    }
+
+    // --- Backspace Restart Logic ---
+    if (state.backspacePressStart > 0) {
+      const pressDuration = clock.now - state.backspacePressStart;
+      state.backspacePressProgress = Math.min(100, (pressDuration / 1500) * 100);
+      if (pressDuration > 1500) {
+        // Quitting returns to the READY screen without a result or replay
+        state.isGameEnding = true;
+        this.audio.pause();
+        this.onEnd?.({ ...this.buildStats(0), score: 0, enemiesDefeated: 0, totalEnemies: 0, itemsCollected: {} }, 'gameOver');
+        return false;
+      }
+    } else if (state.backspacePressStart === 0 && state.backspacePressProgress > 0) {
+      state.backspacePressProgress = 0;
+    }
+
+    // --- Process Pending Enemy Spawns ---
+    enemyManager.processPendingSpawns(MAX_SPAWNS_PER_TICK);
+
+    // --- Update Enemy Spawn Rate (every 1 second) ---
+    enemyManager.updateSpawnRate(clock.now);
+
+    // --- Player Movement ---
+    state.isFocused = tickInput.focus;
+    if (!state.isRespawning) {
+      const currentPlayerSpeed = PLAYER_SPEED_PER_SECOND * state.playerSpeedMultiplier * (state.isFocused ? FOCUS_SPEED_MULTIPLIER : 1);
+      const newX = state.playerX + tickInput.moveX * currentPlayerSpeed * dt;
+      state.playerX = Math.max(0, Math.min(GAME_WIDTH - PLAYER_WIDTH, newX));
+      const newY = state.playerY + tickInput.moveY * currentPlayerSpeed * dt;
+      state.playerY = Math.max(0, Math.min(GAME_HEIGHT - PLAYER_HEIGHT, newY));
+    }
+
+    const player: PlayerSnapshot = { x: state.playerX, y: state.playerY, width: PLAYER_WIDTH, height: PLAYER_HEIGHT };
+
+    // --- Player Firing ---
+    projectileManager.handlePlayerFire({
+      isLastStand,
+      isFiring: tickInput.fire,
+      lastFireTime: this.lastFireTime,
+      player,
+      isRespawning: state.isRespawning,
+      isGameOverDelayed: state.isGameOverDelayed,
+      isLaserActive: state.isLaserActive,
+      showSkip: state.showSkip,
+      isFocused: state.isFocused,
+      fireCooldown: FIRE_COOLDOWN,
+    });
+
+    // --- Timers & State Updates ---
+    const currentTime = clock.now;
+
+    // Game over delay: the explosion plays out before results are reported
+    if (state.isGameOverDelayed && currentTime > state.gameOverDelayEndTime) {
+      this.endGame('gameOver');
+      return false;
+    }
+
+    if (state.isRespawning && currentTime > state.respawnEndTime) {
+      state.isRespawning = false;
+      state.isInvincible = true;
+      state.invincibilityEndTime = currentTime + INVINCIBILITY_DURATION;
+      state.playerX = GAME_WIDTH / 2 - PLAYER_WIDTH / 2;
+      state.playerY = GAME_HEIGHT - PLAYER_HEIGHT - 20;
+    }
+    if (state.isInvincible && currentTime > state.invincibilityEndTime) state.isInvincible = false;
+    if (state.isLaserActive && currentTime > state.laserEndTime) { state.isLaserActive = false; this.effects.cancel?.(); }
+    if (state.isPhaseShieldActive && currentTime > state.phaseShieldEndTime) { state.isPhaseShieldActive = false; this.effects.cancel?.(); state.isInvincible = true; state.invincibilityEndTime = currentTime + 500; }
+    // Clear duration-based item from slot when its effect ends
+    if (state.stockedItemActiveUntil && currentTime > state.stockedItemActiveUntil) {
+      state.stockedItemActiveUntil = 0;
+      state.stockedItem = null;
+    }
+    for (let i = 0; i < state.enemies.length; i++) {
+      const e = state.enemies[i];
+      if (e.isFlashing && currentTime > e.flashEndTime!) e.isFlashing = false;
+    }
+    filterInPlace(state.mines, (m) => currentTime - m.createdAt < MINE_LIFETIME);
+    filterInPlace(state.floatingTexts, (ft) => currentTime - ft.createdAt < FLOATING_TEXT_DURATION);
+
+    // Clean up expired explosions and return to pool
+    filterInPlace(state.explosions, (ex) => {
+      const keep = currentTime - ex.createdAt <= EXPLOSION_DURATION;
+      if (!keep) {
+        this.explosionPool.release(ex);
+      }
+      return keep;
+    });
+
+    // --- Object Movement ---
+    projectileManager.updatePlayerProjectiles(dt);
+
+    const currentEnemyProjectileSpeed = ENEMY_PROJECTILE_SPEED_PER_SECOND * state.enemyProjectileSpeedMultiplier;
+    const playerCenterX = state.playerX + PLAYER_WIDTH / 2;
+    const playerCenterY = state.playerY + PLAYER_HEIGHT / 2;
+
+    projectileManager.updateEnemyProjectiles({
+      dt,
+      currentTime,
+      projectileSpeed: currentEnemyProjectileSpeed,
+      playerCenterX,
+      playerCenterY,
+    });
+
+    // Update items and enemies without reallocating arrays
+    itemManager.updateItems(dt);
+
+    enemyManager.updateEnemies(dt);
+    enemyManager.updateEliteStates(currentTime);
+    enemyManager.handleFiring(currentTime, currentEnemyProjectileSpeed, player);
+
+    this.scoreManager.update();
+
+    // --- Lyric Syncing and Enemy Spawning ---
+    if (replayer ? replayedSongEnd : this.audio.ended()) {
+      recorder?.recordAction(tick, 'songEnd');
+      this.endGame('cleared');
+      return false;
+    }
+
+    // Replays fire lines on their recorded ticks, since audio playback timing never repeats exactly
+    const lyricAudioTime = replayer ? replayer.lyricTriggerAt(tick) : this.songTime();
+    if (!state.showSkip && state.currentLyricIndex < lyrics.length && lyricAudioTime !== null && lyricAudioTime >= lyrics[state.currentLyricIndex].time) {
+      recorder?.recordLyricTrigger(tick, lyricAudioTime);
+      const spawnTokens = getSpawnTokens(lyrics[state.currentLyricIndex], this.spawnTokenMode);
+      enemyManager.triggerBeatShooters(currentTime, playerCenterX, playerCenterY);
+
+      const progress = totalLyricLines > 0 ? (state.currentLyricIndex / totalLyricLines) : 0;
+      // Schedule each token at its sung time relative to the current audio position
+      const startTime = clock.now;
+      const beats: number[] = [];
+      for (let idx = 0; idx < spawnTokens.length; idx++) {
+        const delayMs = Math.max(0, (spawnTokens[idx].time - lyricAudioTime) * 1000);
+        state.pendingSpawns.push({ time: startTime + delayMs, token: spawnTokens[idx].text, reading: spawnTokens[idx].reading, progress });
+        beats.push(startTime + delayMs);
+      }
+      this.scoreManager.addBeats(beats);
+      // Word timings are monotonic within a line but may overlap the next line's spawns
+      state.pendingSpawns.sort((a, b) => a.time - b.time);
+
+      state.totalEnemiesSpawned += spawnTokens.length;
+      if (state.gameStartTime === 0) {
+        state.gameStartTime = clock.now;
+      }
+      state.currentLyricIndex++;
+    }
+
+    // --- Collision Detection with Spatial Grid ---
+    const spatialGrid = this.spatialGrid;
+    spatialGrid.clear();
+    for (let i = 0; i < state.enemies.length; i++) spatialGrid.insert(state.enemies[i]);
+    for (let i = 0; i < state.projectiles.length; i++) spatialGrid.insert(state.projectiles[i]);
+    for (let i = 0; i < state.enemyProjectiles.length; i++) spatialGrid.insert(state.enemyProjectiles[i]);
+    for (let i = 0; i < state.items.length; i++) spatialGrid.insert(state.items[i]);
+    for (let i = 0; i < state.mines.length; i++) spatialGrid.insert(state.mines[i]);
+
+    projectileManager.resolveCollisions({
+      isLastStand,
+      enemyProjectileSpeed: currentEnemyProjectileSpeed,
+      currentTime,
+      player: { x: state.playerX, y: state.playerY, width: PLAYER_WIDTH, height: PLAYER_HEIGHT },
+      spatialGrid,
+      collisionBuffers: this.collisionBuffers,
+      playerHitCallback: () => this.takeHit(isLastStand),
+      hasLaser: state.enemies.some(e => e.eliteType === 'LASER'),
+      laserActive: state.isLaserActive,
+      generateId: this.generateId,
+    });
+
+    // Items vs Player
+    itemManager.collectItems({ x: state.playerX, y: state.playerY, width: PLAYER_WIDTH, height: PLAYER_HEIGHT });
+
+    // Item Spawning
+    itemManager.spawnItems(this.itemSpawnMilestone, this.totalEnemies);
+
+    return true;
+  }
+}
+
+export default GameSession;
@@ -0,0 +1,107 @@
+export interface AtlasSprite {
+  // Source rectangle in the atlas canvas, in device pixels
+  sx: number;
+  sy: number;
+  sw: number;
+  sh: number;
+  // Size to draw at, in game pixels; the sprite's origin sits `pad` pixels inside its top-left
+  width: number;
+  height: number;
+  pad: number;
+}
+
+const ATLAS_SIZE = 2048;
+
+/**
+ * Caches pre-rendered sprites (lyric glyphs, glowing bullets) on one shared
+ * canvas so each frame is only drawImage calls. Sprites are packed onto
+ * shelves; when the atlas fills up it is wiped and refilled on demand.
+ */
+class GlyphAtlas {
+  readonly canvas: HTMLCanvasElement;
+  private readonly ctx: CanvasRenderingContext2D;
+  private readonly scale: number;
+  private readonly sprites = new Map<string, AtlasSprite>();
+  private shelfX = 0;
+  private shelfY = 0;
+  private shelfHeight = 0;
+
+  constructor(scale = 1) {
+    this.scale = scale;
+    this.canvas = document.createElement('canvas');
+    this.canvas.width = ATLAS_SIZE;
+    this.canvas.height = ATLAS_SIZE;
+    this.ctx = this.canvas.getContext('2d')!;
+  }
+
+  clear(): void {
+    this.ctx.clearRect(0, 0, ATLAS_SIZE, ATLAS_SIZE);
+    this.sprites.clear();
+    this.shelfX = 0;
+    this.shelfY = 0;
+    this.shelfHeight = 0;
+  }
+
+  /** Returns the sprite for `key`, calling `draw` once to render it into a width x height box (plus `pad` on every side). */
+  getSprite(key: string, width: number, height: number, pad: number, draw: (ctx: CanvasRenderingContext2D) => void): AtlasSprite {
+    const cached = this.sprites.get(key);
+    if (cached) return cached;
+
+    const sw = Math.ceil((width + pad * 2) * this.scale);
+    const sh = Math.ceil((height + pad * 2) * this.scale);
+    if (this.shelfX + sw > ATLAS_SIZE) {
+      this.shelfX = 0;
+      this.shelfY += this.shelfHeight;
+      this.shelfHeight = 0;
+    }
+    if (this.shelfY + sh > ATLAS_SIZE) this.clear();
+
+    const sprite: AtlasSprite = { sx: this.shelfX, sy: this.shelfY, sw, sh, width: width + pad * 2, height: height + pad * 2, pad };
+    const ctx = this.ctx;
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(sprite.sx, sprite.sy, sw, sh);
+    ctx.clip();
+    ctx.translate(sprite.sx, sprite.sy);
+    ctx.scale(this.scale, this.scale);
+    ctx.translate(pad, pad);
+    draw(ctx);
+    ctx.restore();
+
+    this.shelfX += sw;
+    this.shelfHeight = Math.max(this.shelfHeight, sh);
+    this.sprites.set(key, sprite);
+    return sprite;
+  }
+
+  /** A line of text, centred in a box sized to fit it. `glow` adds a text-shadow style halo in that color. */
+  getGlyph(text: string, font: string, color: string, glow?: string): AtlasSprite {
+    const key = `g|${font}|${color}|${glow ?? ''}|${text}`;
+    const cached = this.sprites.get(key);
+    if (cached) return cached;
+
+    this.ctx.font = font;
+    const metrics = this.ctx.measureText(text);
+    const width = Math.ceil(metrics.width);
+    const height = Math.ceil(metrics.actualBoundingBoxAscent + metrics.actualBoundingBoxDescent) || 1;
+    const pad = glow ? 16 : 2;
+    return this.getSprite(key, width, height, pad, (ctx) => {
+      ctx.font = font;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'alphabetic';
+      ctx.fillStyle = color;
+      const baseline = metrics.actualBoundingBoxAscent;
+      if (glow) {
+        ctx.shadowColor = glow;
+        for (const blur of [8, 15, 25]) {
+          ctx.shadowBlur = blur * this.scale; // shadows ignore the context transform
+          ctx.fillText(text, width / 2, baseline);
+        }
+        ctx.shadowBlur = 0;
+      }
+      ctx.fillText(text, width / 2, baseline);
+    });
+  }
+}
+
+export default GlyphAtlas;
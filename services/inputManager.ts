@@ -0,0 +1,148 @@
+import { INPUT_ACTIONS } from '@/services/controlBindings';
+import type { ControlBindings, InputAction, PlayerInput } from '@/types';
+
+// Stick travel below this is drift, not intent; the rest is rescaled to start from zero
+const STICK_DEADZONE = 0.2;
+
+const noActions = (): Record<InputAction, boolean> =>
+  Object.fromEntries(INPUT_ACTIONS.map(action => [action, false])) as Record<InputAction, boolean>;
+
+// Radial deadzone on the left stick, so diagonals are not clipped into the axes
+function readStick(pad: Gamepad): { x: number; y: number } {
+  const x = pad.axes[0] ?? 0;
+  const y = pad.axes[1] ?? 0;
+  const magnitude = Math.hypot(x, y);
+  if (magnitude < STICK_DEADZONE) return { x: 0, y: 0 };
+  const scale = (Math.min(1, magnitude) - STICK_DEADZONE) / (1 - STICK_DEADZONE) / magnitude;
+  return { x: x * scale, y: y * scale };
+}
+
+/**
+ * Merges the keyboard and every connected gamepad into one set of named
+ * actions. Keyboard events are fed in by the caller; gamepads are polled once
+ * per frame in poll(), which also returns the held input for the simulation.
+ * `onAction` fires when an action goes from released to held on any device,
+ * and again when no device holds it any more.
+ */
+class InputManager {
+  private readonly bindings: ControlBindings;
+  private readonly onAction: (action: InputAction, pressed: boolean) => void;
+  private readonly heldKeys = new Set<string>();
+  private keyboardActions = noActions();
+  private gamepadActions = noActions();
+  private touchInput: PlayerInput | null = null;
+
+  constructor(bindings: ControlBindings, onAction: (action: InputAction, pressed: boolean) => void) {
+    this.bindings = bindings;
+    this.onAction = onAction;
+  }
+
+  /** Returns true when the key is bound, so the caller can keep the browser from acting on it. */
+  handleKeyDown(e: KeyboardEvent): boolean {
+    if (!this.isBound(e.code)) return false;
+    e.preventDefault();
+    if (!e.repeat) {
+      this.heldKeys.add(e.code);
+      this.updateKeyboard();
+    }
+    return true;
+  }
+
+  handleKeyUp(e: KeyboardEvent): void {
+    if (!this.heldKeys.delete(e.code)) return;
+    this.updateKeyboard();
+  }
+
+  /** Reads the gamepads and returns the input to hold for the coming ticks. */
+  poll(): PlayerInput {
+    const next = noActions();
+    let stick = { x: 0, y: 0 };
+    const pads = typeof navigator !== 'undefined' && navigator.getGamepads ? navigator.getGamepads() : [];
+    for (const pad of pads) {
+      if (!pad || !pad.connected) continue;
+      for (const action of INPUT_ACTIONS) {
+        if (this.bindings.gamepad[action].some(index => pad.buttons[index]?.pressed)) next[action] = true;
+      }
+      const padStick = readStick(pad);
+      if (Math.hypot(padStick.x, padStick.y) > Math.hypot(stick.x, stick.y)) stick = padStick;
+    }
+    const previous = this.gamepadActions;
+    this.gamepadActions = next;
+    this.emitChanges(previous, this.keyboardActions, next, this.keyboardActions);
+
+    const held = this.heldActions();
+    // A touch drag steers only while the stick is at rest
+    const touch = this.touchInput;
+    const isTouchSteering = touch !== null && stick.x === 0 && stick.y === 0;
+    if (isTouchSteering) stick = { x: touch.moveX, y: touch.moveY };
+    // D-pad and keys are full tilt; the stick only counts on an axis they leave alone
+    const digitalX = (held.right ? 1 : 0) - (held.left ? 1 : 0);
+    const digitalY = (held.down ? 1 : 0) - (held.up ? 1 : 0);
+    return {
+      moveX: digitalX !== 0 ? digitalX : stick.x,
+      moveY: digitalY !== 0 ? digitalY : stick.y,
+      fire: held.fire || (touch?.fire ?? false),
+      focus: held.focus,
+      steerTo: isTouchSteering ? touch.steerTo : undefined,
+    };
+  }
+
+  /** Input from the touch overlay for the next poll, or null when no finger is down. */
+  setTouchInput(input: PlayerInput | null): void {
+    this.touchInput = input;
+  }
+
+  /** Forgets held keys without emitting releases, e.g. when the game pauses. Gamepads are re-read on the next poll. */
+  releaseKeys(): void {
+    this.heldKeys.clear();
+    this.keyboardActions = noActions();
+    this.touchInput = null;
+  }
+
+  /** Rumbles every gamepad that supports it. */
+  rumble(durationMs: number, strength: number): void {
+    if (typeof navigator === 'undefined' || !navigator.getGamepads) return;
+    for (const pad of navigator.getGamepads()) {
+      pad?.vibrationActuator?.playEffect('dual-rumble', {
+        duration: durationMs,
+        strongMagnitude: strength,
+        weakMagnitude: strength * 0.6,
+      }).catch(() => {});
+    }
+  }
+
+  private isBound(code: string): boolean {
+    return INPUT_ACTIONS.some(action => this.bindings.keyboard[action].includes(code));
+  }
+
+  private updateKeyboard(): void {
+    const next = noActions();
+    for (const action of INPUT_ACTIONS) {
+      next[action] = this.bindings.keyboard[action].some(code => this.heldKeys.has(code));
+    }
+    const previous = this.keyboardActions;
+    this.keyboardActions = next;
+    this.emitChanges(this.gamepadActions, previous, this.gamepadActions, next);
+  }
+
+  private heldActions(): Record<InputAction, boolean> {
+    const held = noActions();
+    for (const action of INPUT_ACTIONS) held[action] = this.keyboardActions[action] || this.gamepadActions[action];
+    return held;
+  }
+
+  private emitChanges(
+    previousPad: Record<InputAction, boolean>,
+    previousKeys: Record<InputAction, boolean>,
+    nextPad: Record<InputAction, boolean>,
+    nextKeys: Record<InputAction, boolean>,
+  ): void {
+    for (const action of INPUT_ACTIONS) {
+      const was = previousPad[action] || previousKeys[action];
+      const is = nextPad[action] || nextKeys[action];
+      if (was !== is) this.onAction(action, is);
+    }
+  }
+}
+
+export default InputManager;
@@ -1,37 +1,37 @@
-import GameConstants from '@/services/gameConstants';
+import type GameConstants from '@/services/gameConstants';
 import { filterInPlace } from '@/services/collectionUtils';
+import type ScoreManager from '@/services/scoreManager';
+import type SimulationClock from '@/services/simulationClock';
+import type SeededRandom from '@/services/seededRandom';
 import { GameState, PlayerSnapshot, Item, ItemType, SpecialWeapon } from '@/types';
 
 interface ItemManagerContext {
+  constants: GameConstants;
   state: GameState;
   generateId: () => number;
+  scoreManager: ScoreManager;
   playCancelSound: () => void;
-  superHardMode: boolean;
+  clock: SimulationClock;
+  random: SeededRandom;
 }
 
 class ItemManager {
-  private static instance: ItemManager;
-
-  private readonly constants = GameConstants.getInstance();
-  private state!: GameState;
-  private generateId!: () => number;
-  private playCancelSound!: () => void;
-  private superHardMode = false;
-
-  private constructor() {}
-
-  static getInstance(): ItemManager {
-    if (!ItemManager.instance) {
-      ItemManager.instance = new ItemManager();
-    }
-    return ItemManager.instance;
-  }
-
-  initialize(context: ItemManagerContext): void {
+  private readonly constants: GameConstants;
+  private readonly state: GameState;
+  private readonly generateId: () => number;
+  private readonly scoreManager: ScoreManager;
+  private readonly playCancelSound: () => void;
+  private readonly clock: SimulationClock;
+  private readonly random: SeededRandom;
+
+  constructor(context: ItemManagerContext) {
+    this.constants = context.constants;
     this.state = context.state;
     this.generateId = context.generateId;
+    this.scoreManager = context.scoreManager;
     this.playCancelSound = context.playCancelSound;
-    this.superHardMode = context.superHardMode;
+    this.clock = context.clock;
+    this.random = context.random;
   }
 
   updateItems(dt: number): void {
@@ -62,7 +62,7 @@ class ItemManager {
   spawnItems(itemSpawnMilestone: { current: number }, totalChars: number): void {
     if (totalChars <= 0) return;
 
-    const threshold = this.superHardMode ? 0.07 : this.constants.ITEM_SPAWN_PERCENTAGE;
+    const threshold = this.constants.ITEM_SPAWN_PERCENTAGE;
     if (this.state.enemiesDefeated / totalChars < itemSpawnMilestone.current + threshold) return;
 
     itemSpawnMilestone.current += threshold;
@@ -91,13 +91,13 @@ class ItemManager {
 
     if (available.length === 0) return;
 
-    const type = available[Math.floor(Math.random() * available.length)];
+    const type = this.random.pick(available);
     const { GAME_WIDTH, ITEM_WIDTH, ITEM_HEIGHT, ENEMY_SPEED_PER_SECOND } = this.constants;
 
     this.state.items.push({
       id: this.generateId(),
       type,
-      x: Math.random() * (GAME_WIDTH - ITEM_WIDTH),
+      x: this.random.next() * (GAME_WIDTH - ITEM_WIDTH),
       y: -ITEM_HEIGHT,
       width: ITEM_WIDTH,
       height: ITEM_HEIGHT,
@@ -107,6 +107,7 @@ class ItemManager {
   }
 
   private handleItemCollection(item: Item, playerX: number, playerY: number): void {
+    const { DUPLICATE_STOCKED_ITEM_SCORE, DUPLICATE_UPGRADE_SCORE } = this.constants;
     this.state.itemsCollected[item.type] = (this.state.itemsCollected[item.type] || 0) + 1;
     this.playCancelSound();
 
@@ -116,7 +117,7 @@ class ItemManager {
         x,
         y,
         text,
-        createdAt: Date.now(),
+        createdAt: this.clock.now,
       });
     };
 
@@ -125,8 +126,8 @@ class ItemManager {
       case 'LASER_BEAM':
       case 'PHASE_SHIELD':
         if (this.state.stockedItem) {
-          this.state.score += 500;
-          pushFloatingText('+500', item.x, item.y);
+          this.scoreManager.awardBonus(DUPLICATE_STOCKED_ITEM_SCORE);
+          pushFloatingText(`+${DUPLICATE_STOCKED_ITEM_SCORE}`, item.x, item.y);
         } else {
           this.state.stockedItem = item.type as SpecialWeapon;
           pushFloatingText(this.getItemLabel(item.type), playerX, playerY);
@@ -144,8 +145,8 @@ class ItemManager {
           this.state.baseShooterChance += 0.05;
           pushFloatingText('DIAGONAL!', playerX, playerY);
         } else {
-          this.state.score += 1000;
-          pushFloatingText('+1000', item.x, item.y);
+          this.scoreManager.awardBonus(DUPLICATE_UPGRADE_SCORE);
+          pushFloatingText(`+${DUPLICATE_UPGRADE_SCORE}`, item.x, item.y);
         }
         break;
       case 'SIDE_SHOT':
@@ -153,8 +154,8 @@ class ItemManager {
           this.state.hasSideShot = true;
           pushFloatingText('SIDE!', playerX, playerY);
         } else {
-          this.state.score += 1000;
-          pushFloatingText('+1000', item.x, item.y);
+          this.scoreManager.awardBonus(DUPLICATE_UPGRADE_SCORE);
+          pushFloatingText(`+${DUPLICATE_UPGRADE_SCORE}`, item.x, item.y);
         }
         break;
       case 'CANCELLER_SHOT':
@@ -162,8 +163,8 @@ class ItemManager {
           this.state.hasCancellerShot = true;
           pushFloatingText('CANCELLER!', playerX, playerY);
         } else {
-          this.state.score += 1000;
-          pushFloatingText('+1000', item.x, item.y);
+          this.scoreManager.awardBonus(DUPLICATE_UPGRADE_SCORE);
+          pushFloatingText(`+${DUPLICATE_UPGRADE_SCORE}`, item.x, item.y);
         }
         break;
       case 'RICOCHET_SHOT':
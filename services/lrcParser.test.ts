@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseLRC, parseLRCFile, serializeLRC } from '@/services/lrcParser';
+import { LyricLine } from '@/types';
+
+describe('parseLRCFile timestamps', () => {
+  it('reads [mm:ss.xx] and single-digit minutes', () => {
+    const lines = parseLRC('[01:23.45]one\n[1:24.5]two\n[2:05]three\n');
+    expect(lines.map(line => line.time)).toEqual([83.45, 84.5, 125]);
+  });
+
+  it('reads [mm:ss:xx] as centiseconds, not hours', () => {
+    const lines = parseLRC('[01:23:45]one\n[00:05:07]two\n');
+    expect(lines.map(line => line.text)).toEqual(['two', 'one']);
+    expect(lines[0].time).toBeCloseTo(5.07);
+    expect(lines[1].time).toBeCloseTo(83.45);
+  });
+
+  it('reads [h:mm:ss.xx] when the last group has a fraction', () => {
+    const [line] = parseLRC('[1:02:03.50]long mix\n');
+    expect(line.time).toBeCloseTo(3723.5);
+  });
+
+  it('reads three groups as hours when the first is past 59 minutes', () => {
+    const [line] = parseLRC('[75:10:20]late\n');
+    expect(line.time).toBe(75 * 3600 + 10 * 60 + 20);
+  });
+
+  it('applies the same rules to Enhanced LRC word stamps', () => {
+    const [line] = parseLRC('[00:10:00]<00:10:00>Hel<00:10:50>lo\n');
+    expect(line.words?.map(word => word.time)).toEqual([10, 10.5]);
+  });
+});
+
+describe('parseLRCFile multi-stamp lines', () => {
+  it('repeats the text at every leading stamp, in time order', () => {
+    const lines = parseLRC('[00:12.00][01:05.30]chorus\n[00:30.00]verse\n');
+    expect(lines.map(line => [line.time, line.text])).toEqual([
+      [12, 'chorus'],
+      [30, 'verse'],
+      [65.3, 'chorus'],
+    ]);
+  });
+
+  it('shifts word timings along with each repeated stamp', () => {
+    const lines = parseLRC('[00:10.00][00:20.00]<00:10.00>la <00:10.50>la\n');
+    expect(lines[1].time).toBe(20);
+    expect(lines[1].words?.map(word => word.time)).toEqual([20, 20.5]);
+  });
+
+  it('reports unrecognised lines with their 1-based line numbers', () => {
+    const { lines, skipped } = parseLRCFile('[ti:Song]\n[00:01.00]ok\nnot a lyric\n\n[xx:yy]broken\n');
+    expect(lines).toHaveLength(1);
+    expect(skipped).toEqual([
+      { lineNumber: 3, content: 'not a lyric' },
+      { lineNumber: 5, content: '[xx:yy]broken' },
+    ]);
+  });
+});
+
+describe('parseLRCFile translations', () => {
+  it('folds a same-stamp line in another script into the subtitle', () => {
+    const lines = parseLRC('[00:01.00]こんにちは\n[00:01.00]hello\n[00:02.00]verse\n[00:03.00]verse two\n');
+    expect(lines).toHaveLength(3);
+    expect(lines[0]).toEqual({ time: 1, text: 'こんにちは', secondary: 'hello' });
+  });
+
+  it('folds same-script pairs when most stamps in the file are paired', () => {
+    const lines = parseLRC('[00:01.00]hello\n[00:01.00]hola\n[00:02.00]goodbye\n[00:02.00]adiós\n[00:03.00]instrumental\n');
+    expect(lines.map(line => [line.text, line.secondary])).toEqual([
+      ['hello', 'hola'],
+      ['goodbye', 'adiós'],
+      ['instrumental', undefined],
+    ]);
+  });
+
+  it('keeps a same-script duet on one stamp as separate lines', () => {
+    const lines = parseLRC('[00:01.00]first\n[00:02.00]me\n[00:02.00]you\n[00:03.00]last\n');
+    expect(lines.map(line => line.text)).toEqual(['first', 'me', 'you', 'last']);
+    expect(lines.some(line => line.secondary)).toBe(false);
+  });
+
+  it('keeps a multi-stamp copy separate from another line on the same stamp', () => {
+    const lines = parseLRC('[00:10.00]verse\n[00:10.00][00:20.00]chorus\n[00:30.00]outro\n');
+    expect(lines.map(line => [line.time, line.text])).toEqual([
+      [10, 'verse'],
+      [10, 'chorus'],
+      [20, 'chorus'],
+      [30, 'outro'],
+    ]);
+  });
+});
+
+describe('serializeLRC round-trip', () => {
+  const roundTrip = (lines: LyricLine[]) => parseLRC(serializeLRC(lines));
+
+  it('keeps distinct lines that share a stamp apart, even in a translated file', () => {
+    const lines: LyricLine[] = [
+      { time: 1, text: 'hello', secondary: 'hola' },
+      { time: 2, text: 'goodbye', secondary: 'adiós' },
+      { time: 2, text: 'tapped onto the same stamp' },
+    ];
+    const result = roundTrip(lines);
+    expect(result.map(line => [line.text, line.secondary])).toEqual([
+      ['hello', 'hola'],
+      ['goodbye', 'adiós'],
+      ['tapped onto the same stamp', undefined],
+    ]);
+    expect(result[2].time).toBeCloseTo(2.01);
+  });
+
+  it('keeps a lone same-script subtitle', () => {
+    const lines: LyricLine[] = [
+      { time: 1, text: 'hello', secondary: 'hola' },
+      { time: 2, text: 'verse' },
+      { time: 3, text: 'chorus' },
+    ];
+    expect(roundTrip(lines)).toEqual(lines);
+  });
+
+  it('keeps cross-script subtitles and word timings', () => {
+    const lines: LyricLine[] = [
+      { time: 1, text: '歌詞', secondary: 'lyrics', words: [{ time: 1, text: '歌' }, { time: 1.5, text: '詞' }] },
+      { time: 2, text: 'verse' },
+    ];
+    expect(roundTrip(lines)).toEqual(lines);
+  });
+});
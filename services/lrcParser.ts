@@ -1,28 +1,442 @@
+import { LyricLine, LyricWordTiming, LyricRuby, LrcHeader, LrcParseResult, LrcSkippedLine, LyricLanguage, SpawnToken, SpawnTokenMode } from '../types';
 
-import { LyricLine } from '../types';
+// Accepts [m:ss], [mm:ss.xx], [mm:ss:xx], [mmm:ss.xxx] and [h:mm:ss.xx]
+const TIMESTAMP_PATTERN = '(\\d+):(\\d{1,2})(?::(\\d{2}))?(?:\\.(\\d{1,3}))?';
+const leadingStampsRegex = new RegExp(`^((?:\\[${TIMESTAMP_PATTERN}\\]\\s*)+)(.*)$`);
+const lineStampRegex = new RegExp(`\\[${TIMESTAMP_PATTERN}\\]`, 'g');
+const wordTimeRegex = new RegExp(`<${TIMESTAMP_PATTERN}>`, 'g');
+const headerRegex = /^\[([a-zA-Z#]+):(.*)\]\s*$/;
+const lengthRegex = new RegExp(`^${TIMESTAMP_PATTERN}$`);
+// "原文【translation】" and "原文 (romaji)" keep the secondary text in a trailing bracket
+const lenticularSecondaryRegex = /^(.*\S)\s*【([^】]+)】$/;
+const parenSecondaryRegex = /^(.*\S)\s+[(（]([^()（）]+)[)）]$/;
+const cjkRegex = /[\u3040-\u30FF\u3400-\u9FFF\uAC00-\uD7AF]/;
+// Ruby annotations: "{漢字|かんじ}" anywhere, or "漢字(かんじ)" / "晴れ(はれ)" with a kana-only
+// reading straight after kanji (plus any okurigana)
+const rubyRegex = /\{([^{}|]+)\|([^{}]+)\}|([\u3400-\u9FFF々〆ヶ]+[\u3040-\u309F]*)[(（]([\u3040-\u30FFー]+)[)）]/g;
 
-const timeRegex = /\[(\d{2}):(\d{2})\.(\d{2,3})\](.*)/;
+// Fallback spread (ms) for characters whose segment has no known end time
+const DEFAULT_LINE_SPAWN_WINDOW = 100;
 
-export function parseLRC(lrcContent: string): LyricLine[] {
+// Converts the capture groups of TIMESTAMP_PATTERN (starting at `offset`) to seconds
+function stampToSeconds(match: RegExpMatchArray, offset = 1): number {
+  const first = parseInt(match[offset], 10);
+  const second = parseInt(match[offset + 1], 10);
+  const third = match[offset + 2];
+  const fraction = match[offset + 3] ?? '0';
+  const milliseconds = parseInt(fraction.padEnd(3, '0'), 10); // Pad to 3 digits for consistency
+  if (third === undefined) return first * 60 + second + milliseconds / 1000;
+  // [mm:ss:xx] is a common centisecond variant; only a fraction or more than 59 minutes makes it [h:mm:ss]
+  const isHourStamp = match[offset + 3] !== undefined || first > 59;
+  if (!isHourStamp) return first * 60 + second + parseInt(third, 10) / 100;
+  return first * 3600 + second * 60 + parseInt(third, 10) + milliseconds / 1000;
+}
+
+// Splits an A2-style body like "<00:12.00>Hel<00:12.40>lo" into timed segments.
+// Text before the first inline stamp is attributed to the line time.
+function parseWordTimings(body: string, lineTime: number): { text: string; words?: LyricWordTiming[] } {
+  const matches = Array.from(body.matchAll(wordTimeRegex));
+  if (matches.length === 0) {
+    return { text: body.trim() };
+  }
+
+  const words: LyricWordTiming[] = [];
+  const leading = body.slice(0, matches[0].index);
+  if (leading.trim()) {
+    words.push({ time: lineTime, text: leading });
+  }
+
+  for (let i = 0; i < matches.length; i++) {
+    const match = matches[i];
+    const start = match.index! + match[0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : body.length;
+    words.push({ time: stampToSeconds(match), text: body.slice(start, end) });
+  }
+
+  const text = words.map(word => word.text).join('').trim();
+  return { text, words };
+}
+
+function applyHeaderTag(header: LrcHeader, tag: string, rawValue: string): void {
+  const value = rawValue.trim();
+  if (!value) return;
+  switch (tag.toLowerCase()) {
+    case 'ti':
+      header.title = value;
+      break;
+    case 'ar':
+      header.artist = value;
+      break;
+    case 'al':
+      header.album = value;
+      break;
+    case 'offset': {
+      const offset = parseInt(value, 10);
+      if (Number.isFinite(offset)) header.offset = offset;
+      break;
+    }
+    case 'length': {
+      const match = value.match(lengthRegex);
+      if (match) header.length = stampToSeconds(match);
+      break;
+    }
+    default:
+      break;
+  }
+}
+
+// Strips ruby markup, recording each reading against the offset of its base text
+function extractRuby(raw: string): { text: string; ruby?: LyricRuby[] } {
+  const ruby: LyricRuby[] = [];
+  let text = '';
+  let cursor = 0;
+  for (const match of raw.matchAll(rubyRegex)) {
+    const base = match[1] ?? match[3];
+    const reading = (match[2] ?? match[4]).trim();
+    text += raw.slice(cursor, match.index);
+    if (reading) ruby.push({ start: text.length, length: base.length, reading });
+    text += base;
+    cursor = match.index! + match[0].length;
+  }
+  if (cursor === 0) return { text: raw };
+  text += raw.slice(cursor);
+  return ruby.length > 0 ? { text, ruby } : { text };
+}
+
+/**
+ * Moves ruby markup out of line (and word) text into `ruby` annotations.
+ * Lines that already carry annotations are left untouched.
+ */
+export function applyRubyAnnotations(lines: LyricLine[]): LyricLine[] {
+  return lines.map(line => {
+    if (line.ruby || line.words?.some(word => word.ruby)) return line;
+    if (line.words) {
+      const words = line.words.map(word => {
+        const { text, ruby } = extractRuby(word.text);
+        return ruby ? { time: word.time, text, ruby } : { time: word.time, text };
+      });
+      return { ...line, text: words.map(word => word.text).join('').trim(), words };
+    }
+    const { text, ruby } = extractRuby(line.text);
+    return ruby ? { ...line, text, ruby } : line;
+  });
+}
+
+// Plain parentheses only count when the two halves are in different scripts, so "(ooh)" stays sung text
+function splitBracketedSecondary(text: string): { text: string; secondary?: string } {
+  const lenticular = text.match(lenticularSecondaryRegex);
+  if (lenticular) return { text: lenticular[1], secondary: lenticular[2].trim() };
+  const paren = text.match(parenSecondaryRegex);
+  if (paren && cjkRegex.test(paren[1]) !== cjkRegex.test(paren[2])) {
+    return { text: paren[1], secondary: paren[2].trim() };
+  }
+  return { text };
+}
+
+// Lines sharing a stamp only count as a translation when the script changes (歌詞 / lyrics) or
+// when most stamps in the file come in such groups; duets and tap-synced lines stay separate
+function mergeSameTimestampLines(lines: LyricLine[]): LyricLine[] {
+  const groups: LyricLine[][] = [];
+  for (const line of lines) {
+    const group = groups[groups.length - 1];
+    if (group && group[0].time === line.time) group.push(line);
+    else groups.push([line]);
+  }
+  const hasDistinctRepeat = (group: LyricLine[]) => group.some(line => line.text !== group[0].text);
+  const sharedGroups = groups.filter(hasDistinctRepeat).length;
+  const isInterleavedFile = sharedGroups >= 2 && sharedGroups * 2 >= groups.length;
+
+  const merged: LyricLine[] = [];
+  for (const group of groups) {
+    const [original, ...repeats] = group;
+    const changesScript = repeats.some(line => cjkRegex.test(line.text) !== cjkRegex.test(original.text));
+    if (!hasDistinctRepeat(group) || !(isInterleavedFile || changesScript)) {
+      merged.push(...group);
+      continue;
+    }
+    merged.push(original);
+    for (const line of repeats) {
+      if (line.text === original.text) {
+        merged.push(line);
+        continue;
+      }
+      original.secondary = [original.secondary, line.text, line.secondary].filter(Boolean).join(' / ');
+    }
+  }
+  return merged;
+}
+
+// LRC convention: a positive [offset] shifts lyrics earlier
+function applyOffset(lines: LyricLine[], offsetMs: number): void {
+  const shift = offsetMs / 1000;
+  for (const line of lines) {
+    line.time = Math.max(0, line.time - shift);
+    if (line.words) {
+      for (const word of line.words) {
+        word.time = Math.max(0, word.time - shift);
+      }
+    }
+  }
+}
+
+export function parseLRCFile(lrcContent: string): LrcParseResult {
   const lines = lrcContent.split('\n');
   const lyrics: LyricLine[] = [];
+  const header: LrcHeader = {};
+  const skipped: LrcSkippedLine[] = [];
 
-  for (const line of lines) {
-    const match = line.match(timeRegex);
-    if (match) {
-      const minutes = parseInt(match[1], 10);
-      const seconds = parseInt(match[2], 10);
-      const milliseconds = parseInt(match[3].padEnd(3, '0'), 10); // Pad to 3 digits for consistency
-      const text = match[4].trim();
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
 
-      const timeInSeconds = minutes * 60 + seconds + milliseconds / 1000;
+    const match = line.match(leadingStampsRegex);
+    if (match) {
+      // Compressed lines ("[00:12.00][01:05.30]chorus") repeat the same text at every stamp
+      const stamps = Array.from(match[1].matchAll(lineStampRegex), stamp => stampToSeconds(stamp));
+      const body = match[match.length - 1];
+      const parsed = parseWordTimings(body, stamps[0]);
+      const { words } = parsed;
+      if (!parsed.text) return;
+      // Word-timed bodies are sung in full; brackets there are part of the karaoke
+      const { text, secondary } = words ? { text: parsed.text, secondary: undefined } : splitBracketedSecondary(parsed.text);
 
-      if (text) {
-        lyrics.push({ time: timeInSeconds, text });
+      for (const time of stamps) {
+        if (!words) {
+          lyrics.push(secondary ? { time, text, secondary } : { time, text });
+          continue;
+        }
+        const shift = time - stamps[0];
+        lyrics.push({ time, text, words: words.map(word => ({ ...word, time: word.time + shift })) });
       }
+      return;
+    }
+
+    const headerMatch = line.match(headerRegex);
+    if (headerMatch) {
+      applyHeaderTag(header, headerMatch[1], headerMatch[2]);
+      return;
+    }
+
+    skipped.push({ lineNumber: index + 1, content: line });
+  });
+
+  // Sort by time to ensure correct order; the stable sort keeps originals ahead of their translations
+  lyrics.sort((a, b) => a.time - b.time);
+  // Merge on the file's own stamps: the offset clamps early lines to 0, which would make distinct lines look like translations
+  const merged = mergeSameTimestampLines(lyrics);
+  if (header.offset) {
+    applyOffset(merged, header.offset);
+  }
+  return { header, lines: applyRubyAnnotations(merged), skipped };
+}
+
+export function parseLRC(lrcContent: string): LyricLine[] {
+  return parseLRCFile(lrcContent).lines;
+}
+
+/**
+ * Returns lines whose spawned text is the chosen language. Choosing the secondary
+ * text swaps it with the original (which becomes the subtitle) and drops word
+ * timings, since those belong to the original text.
+ */
+export function selectLyricLanguage(lines: LyricLine[], language: LyricLanguage): LyricLine[] {
+  if (language === 'original') return lines;
+  return lines.map(line => (line.secondary
+    ? { time: line.time, text: line.secondary, secondary: line.text }
+    : line));
+}
+
+export function hasSecondaryLyrics(lines: LyricLine[]): boolean {
+  return lines.some(line => Boolean(line.secondary));
+}
+
+// Replaces each annotated base with its reading so the kana spawn instead of the kanji
+function substituteRuby(text: string, ruby: LyricRuby[]): string {
+  let result = '';
+  let cursor = 0;
+  for (const annotation of ruby) {
+    result += text.slice(cursor, annotation.start) + annotation.reading;
+    cursor = annotation.start + annotation.length;
+  }
+  return result + text.slice(cursor);
+}
+
+export function selectRubyReading(lines: LyricLine[]): LyricLine[] {
+  return lines.map(line => {
+    if (line.words?.some(word => word.ruby)) {
+      const words = line.words.map(word => ({ time: word.time, text: word.ruby ? substituteRuby(word.text, word.ruby) : word.text }));
+      return { ...line, text: words.map(word => word.text).join('').trim(), words };
+    }
+    if (!line.ruby) return line;
+    const { ruby, ...rest } = line;
+    return { ...rest, text: substituteRuby(line.text, ruby) };
+  });
+}
+
+export function hasRubyAnnotations(lines: LyricLine[]): boolean {
+  return lines.some(line => Boolean(line.ruby || line.words?.some(word => word.ruby)));
+}
+
+interface TimedUnit {
+  char: string;
+  time: number;
+  reading?: string;
+  wordStart: boolean; // Preceded by whitespace (or first in the line)
+}
+
+// Spawn units of a segment: one per non-whitespace character, except that a ruby base is a single unit
+function splitSpawnUnits(text: string, ruby: LyricRuby[] | undefined, afterBreak: boolean): { units: Omit<TimedUnit, 'time'>[]; afterBreak: boolean } {
+  const units: Omit<TimedUnit, 'time'>[] = [];
+  let rubyIdx = 0;
+  let pendingBreak = afterBreak;
+  for (let idx = 0; idx < text.length; idx++) {
+    const annotation = ruby?.[rubyIdx];
+    if (annotation && annotation.start === idx) {
+      units.push({ char: text.slice(idx, idx + annotation.length), reading: annotation.reading, wordStart: pendingBreak });
+      pendingBreak = false;
+      idx += annotation.length - 1;
+      rubyIdx++;
+      continue;
+    }
+    if (/\s/.test(text[idx])) {
+      pendingBreak = true;
+      continue;
+    }
+    units.push({ char: text[idx], wordStart: pendingBreak });
+    pendingBreak = false;
+  }
+  return { units, afterBreak: pendingBreak };
+}
+
+function collectTimedUnits(line: LyricLine): TimedUnit[] {
+  const result: TimedUnit[] = [];
+
+  if (!line.words || line.words.length === 0) {
+    const { units } = splitSpawnUnits(line.text, line.ruby, true);
+    const interval = DEFAULT_LINE_SPAWN_WINDOW / Math.max(1, units.length) / 1000;
+    for (let idx = 0; idx < units.length; idx++) {
+      result.push({ ...units[idx], time: line.time + idx * interval });
+    }
+    return result;
+  }
+
+  // Enhanced LRC segments are often syllables, so word breaks carry over between segments
+  let afterBreak = true;
+  for (let i = 0; i < line.words.length; i++) {
+    const word = line.words[i];
+    const split = splitSpawnUnits(word.text, word.ruby, afterBreak);
+    afterBreak = split.afterBreak;
+    const { units } = split;
+    if (!units.length) continue;
+    const next = line.words[i + 1];
+    const duration = next && next.time > word.time
+      ? next.time - word.time
+      : DEFAULT_LINE_SPAWN_WINDOW / 1000;
+    const interval = duration / units.length;
+    for (let idx = 0; idx < units.length; idx++) {
+      result.push({ ...units[idx], time: word.time + idx * interval });
+    }
+  }
+  return result;
+}
+
+/**
+ * Resolves the sung time (seconds) of every non-whitespace character in a line.
+ * Characters inside a timed word are spread across that word's duration; lines
+ * without word timings fall back to a short even stagger after the line time.
+ * A ruby-annotated base counts as one character and carries its reading.
+ */
+export function getCharTimings(line: LyricLine): SpawnToken[] {
+  return collectTimedUnits(line).map(({ char, time, reading }) => (reading ? { text: char, time, reading } : { text: char, time }));
+}
+
+// Latin letters make up more than half of the line's letters
+function isMostlyLatin(text: string): boolean {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return false;
+  const latin = text.match(/\p{Script=Latin}/gu)?.length ?? 0;
+  return latin / letters > 0.5;
+}
+
+export function resolveSpawnTokenMode(line: LyricLine, mode: SpawnTokenMode): Exclude<SpawnTokenMode, 'auto'> {
+  if (mode !== 'auto') return mode;
+  return isMostlyLatin(line.text) ? 'word' : 'char';
+}
+
+/**
+ * Splits a line into the tokens that become enemies: single characters, or
+ * whole whitespace-separated words sung at the time of their first character.
+ */
+export function getSpawnTokens(line: LyricLine, mode: SpawnTokenMode = 'auto'): SpawnToken[] {
+  if (resolveSpawnTokenMode(line, mode) === 'char') return getCharTimings(line);
+
+  const tokens: SpawnToken[] = [];
+  let unitsInToken = 0;
+  for (const unit of collectTimedUnits(line)) {
+    const current = tokens[tokens.length - 1];
+    if (unit.wordStart || !current) {
+      tokens.push(unit.reading ? { text: unit.char, time: unit.time, reading: unit.reading } : { text: unit.char, time: unit.time });
+      unitsInToken = 1;
+      continue;
     }
+    current.text += unit.char;
+    unitsInToken++;
+    // A reading only makes sense above a token it fully covers
+    if (unitsInToken > 1) delete current.reading;
+  }
+  return tokens;
+}
+
+export function countLineEnemies(line: LyricLine, mode: SpawnTokenMode = 'auto'): number {
+  return getSpawnTokens(line, mode).length;
+}
+
+// Inverse of extractRuby, always in the unambiguous "{base|reading}" form
+function formatRubyMarkup(text: string, ruby?: LyricRuby[]): string {
+  if (!ruby) return text;
+  let result = '';
+  let cursor = 0;
+  for (const annotation of ruby) {
+    const end = annotation.start + annotation.length;
+    result += `${text.slice(cursor, annotation.start)}{${text.slice(annotation.start, end)}|${annotation.reading}}`;
+    cursor = end;
   }
+  return result + text.slice(cursor);
+}
+
+// Formats seconds as an LRC stamp body ("mm:ss.xx"); minutes grow past two digits for long mixes
+export function formatLRCTimestamp(seconds: number): string {
+  const totalCentiseconds = Math.max(0, Math.round(seconds * 100));
+  const minutes = Math.floor(totalCentiseconds / 6000);
+  const secs = Math.floor((totalCentiseconds % 6000) / 100);
+  const centis = totalCentiseconds % 100;
+  return `${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}.${String(centis).padStart(2, '0')}`;
+}
 
-  // Sort by time to ensure correct order
-  return lyrics.sort((a, b) => a.time - b.time);
+/**
+ * Writes lines back out as LRC, keeping Enhanced LRC word stamps so the
+ * result round-trips through parseLRC. Secondary text is written as a
+ * same-stamp line right after its original, or as a trailing 【】 bracket when
+ * parseLRC would not recognise the pair. A different line that lands on an
+ * already used stamp is written 1cs later so it cannot read back as one.
+ */
+export function serializeLRC(lines: LyricLine[]): string {
+  const translatedLines = lines.filter(line => line.secondary).length;
+  const isInterleaved = translatedLines >= 2 && translatedLines * 2 >= lines.length;
+  const stampTexts = new Map<number, string>();
+  return lines
+    .map(line => {
+      let centiseconds = Math.max(0, Math.round(line.time * 100));
+      while (stampTexts.has(centiseconds) && stampTexts.get(centiseconds) !== line.text) centiseconds++;
+      stampTexts.set(centiseconds, line.text);
+      const stamp = `[${formatLRCTimestamp(centiseconds / 100)}]`;
+      const body = line.words && line.words.length > 0
+        ? line.words.map(word => `<${formatLRCTimestamp(word.time)}>${formatRubyMarkup(word.text, word.ruby)}`).join('')
+        : formatRubyMarkup(line.text, line.ruby);
+      if (!line.secondary) return `${stamp}${body}`;
+      const isRecognisedPair = isInterleaved || cjkRegex.test(line.secondary) !== cjkRegex.test(line.text);
+      if (!isRecognisedPair && !line.words?.length) return `${stamp}${body}【${line.secondary}】`;
+      return `${stamp}${body}\n${stamp}${line.secondary}`;
+    })
+    .join('\n') + '\n';
 }
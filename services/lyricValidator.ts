@@ -0,0 +1,93 @@
+import type { LyricLine, LyricValidationIssue } from '@/types';
+import { formatLRCTimestamp } from '@/services/lrcParser';
+
+// Instrumental breaks longer than this (seconds) are usually a missing or mistimed line
+export const LYRIC_GAP_WARNING_SECONDS = 30;
+// Clamped lines land this far (seconds) before the end so they still trigger before the song stops
+const DURATION_CLAMP_MARGIN = 1;
+// Seconds between clamped lines, so the fix never creates new shared timestamps
+const CLAMPED_LINE_SPACING = 0.01;
+
+const hasValidDuration = (duration?: number): duration is number =>
+  typeof duration === 'number' && Number.isFinite(duration) && duration > 0;
+
+const wordsOutOfOrder = (line: LyricLine): boolean =>
+  Boolean(line.words?.some((word, idx) => idx > 0 && word.time < line.words![idx - 1].time));
+
+/**
+ * Checks parsed lyrics (and optionally the audio duration in seconds) for timing
+ * problems that make the game play badly. Issues are returned in line order.
+ */
+export function validateLyrics(lines: LyricLine[], duration?: number): LyricValidationIssue[] {
+  const issues: LyricValidationIssue[] = [];
+  const seen = new Map<number, Set<string>>();
+
+  lines.forEach((line, idx) => {
+    const base = { lineIndex: idx, time: line.time, text: line.text };
+    const stamp = formatLRCTimestamp(line.time);
+    const prev = idx > 0 ? lines[idx - 1] : null;
+
+    if (prev && line.time < prev.time) {
+      issues.push({ ...base, type: 'nonMonotonic', fixable: true, message: `[${stamp}] comes before the previous line [${formatLRCTimestamp(prev.time)}]` });
+    }
+    if (wordsOutOfOrder(line)) {
+      issues.push({ ...base, type: 'nonMonotonic', fixable: true, message: `[${stamp}] has word timings out of order` });
+    }
+
+    const textsAtTime = seen.get(line.time) ?? new Set<string>();
+    if (textsAtTime.has(line.text)) {
+      issues.push({ ...base, type: 'duplicate', fixable: true, message: `[${stamp}] is repeated with the same text` });
+    } else if (textsAtTime.size > 0) {
+      issues.push({ ...base, type: 'duplicate', fixable: false, message: `[${stamp}] shares its timestamp with another line` });
+    }
+    textsAtTime.add(line.text);
+    seen.set(line.time, textsAtTime);
+
+    if (hasValidDuration(duration) && line.time >= duration) {
+      issues.push({ ...base, type: 'pastDuration', fixable: true, message: `[${stamp}] starts after the song ends (${formatLRCTimestamp(duration)})` });
+    }
+
+    if (prev && line.time - prev.time > LYRIC_GAP_WARNING_SECONDS) {
+      const gap = Math.round(line.time - prev.time);
+      issues.push({ ...base, type: 'largeGap', fixable: false, message: `${gap}s gap before [${stamp}]` });
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Resolves the safe issues: sorts lines (and word stamps within a line), drops exact
+ * duplicates and pulls lines that start past the audio duration back inside it, a few
+ * ms apart in their original order. Gaps and shared timestamps with different text are
+ * left alone since they may be intentional.
+ */
+export function autoFixLyrics(lines: LyricLine[], duration?: number): LyricLine[] {
+  const limit = hasValidDuration(duration) ? Math.max(0, duration - DURATION_CLAMP_MARGIN) : Infinity;
+  const seen = new Set<string>();
+  const fixed: LyricLine[] = [];
+
+  // Stable sort keeps the original order of lines sharing a timestamp
+  const sorted = [...lines].sort((a, b) => a.time - b.time);
+  for (const line of sorted) {
+    const key = `${line.time}\u0000${line.text}`;
+    if (seen.has(key)) continue;
+    seen.add(key);
+
+    // Overrunning lines stack up from the limit so none of them share a timestamp
+    const prevTime = fixed.length > 0 ? fixed[fixed.length - 1].time : -Infinity;
+    const time = line.time > limit ? Math.max(limit, prevTime + CLAMPED_LINE_SPACING) : line.time;
+    const shift = time - line.time;
+    const wordLimit = Math.max(limit, time);
+    let lastWordTime = -Infinity;
+    const words = line.words?.map(word => {
+      // Keep word order (it spells the text) but never let a stamp run backwards
+      lastWordTime = Math.max(lastWordTime, Math.min(word.time + shift, wordLimit));
+      return { ...word, time: lastWordTime };
+    });
+    // Spread the line (and words) so translations and furigana survive the fix
+    fixed.push(words ? { ...line, time, words } : { ...line, time });
+  }
+
+  return fixed;
+}
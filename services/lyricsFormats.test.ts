@@ -0,0 +1,40 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { parseLyrics } from '@/services/lyricsFormats';
+
+const ttml = (body: string) => `<?xml version="1.0" encoding="UTF-8"?>
+<tt xmlns="http://www.w3.org/ns/ttml">
+  <body>
+${body}
+  </body>
+</tt>
+`;
+
+describe('parseLyrics TTML', () => {
+  it('adds ancestor begin offsets to paragraph and span times', () => {
+    const { lines } = parseLyrics(ttml(`    <div begin="10s">
+      <p begin="1.5s">plain</p>
+      <p begin="00:00:03.000"><span begin="3s">Hel</span><span begin="3.5s">lo</span></p>
+    </div>`), { format: 'ttml' });
+
+    expect(lines.map(line => line.time)).toEqual([11.5, 13]);
+    expect(lines[1].words?.map(word => word.time)).toEqual([13, 13.5]);
+  });
+
+  it('leaves times alone when no ancestor has a begin', () => {
+    const { lines } = parseLyrics(ttml('    <div><p begin="2s">two</p></div>'), { format: 'ttml' });
+    expect(lines[0].time).toBe(2);
+  });
+
+  it('reports untimed paragraphs at their source line', () => {
+    const { lines, skipped } = parseLyrics(ttml(`    <div>
+      <!-- a comment
+           over two lines with <p> in it -->
+      <p begin="1s">timed</p>
+      <p>untimed</p>
+    </div>`), { format: 'ttml' });
+
+    expect(lines).toHaveLength(1);
+    expect(skipped).toEqual([{ lineNumber: 8, content: 'untimed' }]);
+  });
+});
@@ -0,0 +1,234 @@
+import { LyricLine, LyricWordTiming, LrcParseResult, LrcSkippedLine, LyricsFormatId, ParsedLyrics } from '@/types';
+import { parseLRCFile, applyRubyAnnotations } from '@/services/lrcParser';
+
+interface LyricsFormat {
+  id: LyricsFormatId;
+  label: string;
+  extensions: string[];
+  detect: (content: string) => boolean;
+  parse: (content: string) => LrcParseResult;
+}
+
+// 00:01:02,345 (SRT) / 00:01:02.345 or 01:02.345 (WebVTT)
+const cueTimeRegex = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/;
+const cueTimingLineRegex = /^(\S+)\s+-->\s+(\S+)/;
+const vttInlineTimeRegex = /<((?:\d+:)?\d{1,2}:\d{2}\.\d{1,3})>/g;
+const markupRegex = /<[^>]*>|\{\\[^}]*\}/g;
+
+function parseCueTime(value: string): number | null {
+  const match = value.trim().match(cueTimeRegex);
+  if (!match) return null;
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  const milliseconds = parseInt(match[4].padEnd(3, '0'), 10);
+  return hours * 3600 + minutes * 60 + seconds + milliseconds / 1000;
+}
+
+// TTML clock values: "12.3s", "1500ms", "1:02.345", "00:01:02.345" or bare seconds
+function parseTtmlTime(value: string | null): number | null {
+  if (!value) return null;
+  const raw = value.trim();
+  const unitMatch = raw.match(/^(\d+(?:\.\d+)?)(h|m|s|ms)$/);
+  if (unitMatch) {
+    const amount = parseFloat(unitMatch[1]);
+    switch (unitMatch[2]) {
+      case 'h': return amount * 3600;
+      case 'm': return amount * 60;
+      case 'ms': return amount / 1000;
+      default: return amount;
+    }
+  }
+  const parts = raw.split(':');
+  if (parts.length > 3 || parts.some(part => !/^\d+(?:\.\d+)?$/.test(part))) return null;
+  return parts.reduce((acc, part) => acc * 60 + parseFloat(part), 0);
+}
+
+function stripMarkup(text: string): string {
+  return text.replace(markupRegex, '').replace(/\s+/g, ' ').trim();
+}
+
+// WebVTT karaoke cues carry <hh:mm:ss.mmm> stamps between syllables
+function parseVttWords(text: string, cueStart: number): LyricWordTiming[] | undefined {
+  const matches = Array.from(text.matchAll(vttInlineTimeRegex));
+  if (matches.length === 0) return undefined;
+  const words: LyricWordTiming[] = [];
+  const leading = stripMarkup(text.slice(0, matches[0].index));
+  if (leading) words.push({ time: cueStart, text: leading });
+  for (let i = 0; i < matches.length; i++) {
+    const start = matches[i].index! + matches[i][0].length;
+    const end = i + 1 < matches.length ? matches[i + 1].index! : text.length;
+    const time = parseCueTime(matches[i][1]);
+    if (time === null) continue;
+    words.push({ time, text: text.slice(start, end).replace(markupRegex, '') });
+  }
+  return words;
+}
+
+// Shared by SRT and WebVTT: blank-line separated blocks with a "start --> end" line
+function parseCueBlocks(content: string, allowInlineTimings: boolean): LrcParseResult {
+  const lines: LyricLine[] = [];
+  const skipped: LrcSkippedLine[] = [];
+  const rows = content.replace(/\r\n?/g, '\n').split('\n');
+
+  let index = 0;
+  while (index < rows.length) {
+    while (index < rows.length && !rows[index].trim()) index++;
+    const blockStart = index;
+    const block: string[] = [];
+    while (index < rows.length && rows[index].trim()) {
+      block.push(rows[index].trim());
+      index++;
+    }
+    if (block.length === 0) break;
+
+    const timingIndex = block.findIndex(row => cueTimingLineRegex.test(row));
+    if (timingIndex === -1) {
+      // WebVTT header, NOTE and STYLE blocks carry no timing and are expected
+      if (!/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block[0])) {
+        skipped.push({ lineNumber: blockStart + 1, content: block[0] });
+      }
+      continue;
+    }
+
+    const timing = block[timingIndex].match(cueTimingLineRegex)!;
+    const time = parseCueTime(timing[1]);
+    if (time === null) {
+      skipped.push({ lineNumber: blockStart + timingIndex + 1, content: block[timingIndex] });
+      continue;
+    }
+
+    const rawText = block.slice(timingIndex + 1).join(' ');
+    const text = stripMarkup(rawText);
+    if (!text) continue;
+    const words = allowInlineTimings ? parseVttWords(rawText, time) : undefined;
+    lines.push(words ? { time, text, words } : { time, text });
+  }
+
+  lines.sort((a, b) => a.time - b.time);
+  return { header: {}, lines: applyRubyAnnotations(lines), skipped };
+}
+
+// Sums the begin offsets of a paragraph's ancestors, which its own times are relative to
+function inheritedTtmlOffset(el: Element): number {
+  let offset = 0;
+  for (let parent = el.parentElement; parent; parent = parent.parentElement) {
+    offset += parseTtmlTime(parent.getAttribute('begin')) ?? 0;
+  }
+  return offset;
+}
+
+// Source line of every <p> start tag, in document order; comments keep their newlines so counts stay right
+function ttmlParagraphLines(content: string): number[] {
+  const source = content.replace(/<!--[\s\S]*?-->/g, comment => comment.replace(/[^\n]/g, ''));
+  return Array.from(source.matchAll(/<p[\s>\/]/g), match => source.slice(0, match.index).split('\n').length);
+}
+
+function parseTTML(content: string): LrcParseResult {
+  const lines: LyricLine[] = [];
+  const skipped: LrcSkippedLine[] = [];
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    return { header: {}, lines, skipped: [{ lineNumber: 1, content: 'Malformed TTML document' }] };
+  }
+
+  // Background vocals, translations and romanizations are tagged with ttm:role="x-*"
+  const isAuxiliary = (el: Element) => (el.getAttribute('ttm:role') || el.getAttribute('role') || '').startsWith('x-');
+
+  const paragraphs = Array.from(doc.getElementsByTagName('p'));
+  const sourceLines = ttmlParagraphLines(content);
+  paragraphs.forEach((p, idx) => {
+    const begin = parseTtmlTime(p.getAttribute('begin'));
+    if (begin === null) {
+      skipped.push({ lineNumber: sourceLines[idx] ?? 1, content: (p.textContent || '').trim() });
+      return;
+    }
+    // Spans are timed on the same base as their paragraph
+    const offset = inheritedTtmlOffset(p);
+    const time = offset + begin;
+
+    const words: LyricWordTiming[] = [];
+    let hasTimedSpans = false;
+    p.childNodes.forEach(node => {
+      if (node.nodeType === Node.TEXT_NODE) {
+        const value = node.textContent || '';
+        if (words.length > 0) words[words.length - 1].text += value;
+        else if (value.trim()) words.push({ time, text: value });
+        return;
+      }
+      if (node.nodeType !== Node.ELEMENT_NODE) return;
+      const el = node as Element;
+      if (isAuxiliary(el)) return;
+      const spanBegin = parseTtmlTime(el.getAttribute('begin'));
+      if (spanBegin !== null) hasTimedSpans = true;
+      const spanTime = spanBegin !== null ? offset + spanBegin : (words.length > 0 ? words[words.length - 1].time : time);
+      words.push({ time: spanTime, text: el.textContent || '' });
+    });
+
+    const text = words.map(word => word.text).join('').replace(/\s+/g, ' ').trim();
+    if (!text) return;
+    lines.push(hasTimedSpans ? { time, text, words } : { time, text });
+  });
+
+  lines.sort((a, b) => a.time - b.time);
+  return { header: {}, lines: applyRubyAnnotations(lines), skipped };
+}
+
+const LYRICS_FORMATS: LyricsFormat[] = [
+  {
+    id: 'ttml',
+    label: 'TTML',
+    extensions: ['.ttml', '.xml'],
+    detect: (content) => /<tt[\s>]/.test(content),
+    parse: parseTTML,
+  },
+  {
+    id: 'vtt',
+    label: 'WebVTT',
+    extensions: ['.vtt'],
+    detect: (content) => /^\uFEFF?WEBVTT/.test(content),
+    parse: (content) => parseCueBlocks(content, true),
+  },
+  {
+    id: 'srt',
+    label: 'SRT',
+    extensions: ['.srt'],
+    detect: (content) => /^\s*\d+\s*\r?\n\s*\d{1,2}:\d{2}:\d{2},\d{1,3}\s+-->/.test(content.replace(/^\uFEFF/, '')),
+    parse: (content) => parseCueBlocks(content, false),
+  },
+  {
+    id: 'lrc',
+    label: 'LRC',
+    extensions: ['.lrc'],
+    detect: () => true,
+    parse: parseLRCFile,
+  },
+];
+
+export const LYRICS_FILE_ACCEPT = LYRICS_FORMATS.flatMap(format => format.extensions).join(',');
+export const LYRICS_FORMAT_LABELS = LYRICS_FORMATS.map(format => format.label).join('/');
+
+export function isSupportedLyricsFile(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return LYRICS_FORMATS.some(format => format.extensions.some(ext => lower.endsWith(ext)));
+}
+
+/**
+ * Picks a format from an explicit id, then the file extension, then the content itself.
+ * LRC is the catch-all, so this always returns a format.
+ */
+function resolveLyricsFormat(content: string, hint?: { format?: string; fileName?: string }): LyricsFormat {
+  const byId = hint?.format ? LYRICS_FORMATS.find(format => format.id === hint.format) : undefined;
+  if (byId) return byId;
+  const lowerName = hint?.fileName?.toLowerCase();
+  if (lowerName) {
+    const byExtension = LYRICS_FORMATS.find(format => format.extensions.some(ext => lowerName.endsWith(ext)));
+    if (byExtension) return byExtension;
+  }
+  return LYRICS_FORMATS.find(format => format.detect(content))!;
+}
+
+export function parseLyrics(content: string, hint?: { format?: string; fileName?: string }): ParsedLyrics {
+  const format = resolveLyricsFormat(content, hint);
+  return { ...format.parse(content), format: format.id };
+}
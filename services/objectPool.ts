@@ -0,0 +1,35 @@
+// Object pools for performance
+class ObjectPool<T> {
+  private pool: T[] = [];
+  private createFn: () => T;
+  private resetFn: (obj: T) => void;
+
+  constructor(createFn: () => T, resetFn: (obj: T) => void, initialSize = 50) {
+    this.createFn = createFn;
+    this.resetFn = resetFn;
+    // Pre-populate pool
+    for (let i = 0; i < initialSize; i++) {
+      this.pool.push(createFn());
+    }
+  }
+
+  get(): T {
+    if (this.pool.length > 0) {
+      return this.pool.pop()!;
+    }
+    return this.createFn();
+  }
+
+  release(obj: T): void {
+    this.resetFn(obj);
+    if (this.pool.length < 200) { // Prevent unlimited growth
+      this.pool.push(obj);
+    }
+  }
+
+  releaseAll(objects: T[]): void {
+    objects.forEach(obj => this.release(obj));
+  }
+}
+
+export default ObjectPool;
@@ -1,6 +1,9 @@
-import GameConstants from '@/services/gameConstants';
+import type GameConstants from '@/services/gameConstants';
 import { filterInPlace } from '@/services/collectionUtils';
-import EnemyManager from '@/services/enemyManager';
+import type EnemyManager from '@/services/enemyManager';
+import type ScoreManager from '@/services/scoreManager';
+import type SimulationClock from '@/services/simulationClock';
+import type SeededRandom from '@/services/seededRandom';
 import {
   Enemy,
   Projectile,
@@ -30,26 +33,29 @@ interface SpatialGridLike {
 }
 
 interface ProjectileManagerContext {
+  constants: GameConstants;
   state: GameState;
   generateId: () => number;
   projectilePool: Pool<Projectile>;
   enemyProjectilePool: Pool<EnemyProjectile>;
   explosionPool: Pool<Explosion>;
   enemyManager: EnemyManager;
+  scoreManager: ScoreManager;
   playCancelSound: () => void;
+  clock: SimulationClock;
+  random: SeededRandom;
 }
 
 interface PlayerFireParams {
-  now: number;
   isLastStand: boolean;
-  keysPressed: Record<string, boolean>;
+  isFiring: boolean;
   lastFireTime: { current: number };
-  spacebarPressStart: number;
   player: PlayerSnapshot;
   isRespawning: boolean;
   isGameOverDelayed: boolean;
   isLaserActive: boolean;
   showSkip: boolean;
+  isFocused: boolean;
   fireCooldown: number;
 }
 
@@ -84,34 +90,30 @@ const isMineObject = (obj: GameObject | null | undefined): obj is Mine =>
   !!obj && obj.entityType === 'mine';
 
 class ProjectileManager {
-  private static instance: ProjectileManager;
-
-  private readonly constants = GameConstants.getInstance();
-  private state!: GameState;
-  private generateId!: () => number;
-  private projectilePool!: Pool<Projectile>;
-  private enemyProjectilePool!: Pool<EnemyProjectile>;
-  private explosionPool!: Pool<Explosion>;
-  private enemyManager!: EnemyManager;
-  private playCancelSound!: () => void;
-
-  private constructor() {}
-
-  static getInstance(): ProjectileManager {
-    if (!ProjectileManager.instance) {
-      ProjectileManager.instance = new ProjectileManager();
-    }
-    return ProjectileManager.instance;
-  }
-
-  initialize(context: ProjectileManagerContext): void {
+  private readonly constants: GameConstants;
+  private readonly state: GameState;
+  private readonly generateId: () => number;
+  private readonly projectilePool: Pool<Projectile>;
+  private readonly enemyProjectilePool: Pool<EnemyProjectile>;
+  private readonly explosionPool: Pool<Explosion>;
+  private readonly enemyManager: EnemyManager;
+  private readonly scoreManager: ScoreManager;
+  private readonly playCancelSound: () => void;
+  private readonly clock: SimulationClock;
+  private readonly random: SeededRandom;
+
+  constructor(context: ProjectileManagerContext) {
+    this.constants = context.constants;
     this.state = context.state;
     this.generateId = context.generateId;
     this.projectilePool = context.projectilePool;
     this.enemyProjectilePool = context.enemyProjectilePool;
     this.explosionPool = context.explosionPool;
     this.enemyManager = context.enemyManager;
+    this.scoreManager = context.scoreManager;
     this.playCancelSound = context.playCancelSound;
+    this.clock = context.clock;
+    this.random = context.random;
   }
 
   handlePlayerFire(params: PlayerFireParams): void {
@@ -120,31 +122,32 @@ class ProjectileManager {
       PROJECTILE_HEIGHT,
       PLAYER_WIDTH,
       INITIAL_PROJECTILE_SPEED_PER_SECOND,
+      DIAGONAL_SHOT_SPREAD,
+      FOCUS_DIAGONAL_SHOT_SPREAD,
     } = this.constants;
 
     const {
-      now,
       isLastStand,
-      keysPressed,
+      isFiring,
       lastFireTime,
-      spacebarPressStart,
       player,
       isRespawning,
       isGameOverDelayed,
       isLaserActive,
       showSkip,
+      isFocused,
       fireCooldown,
     } = params;
 
-    const isSpacePressed = keysPressed[' '] || keysPressed['Space'] || keysPressed['Spacebar'];
-
+    // Fire held during the skip prompt always counts toward skipping, so it never fires
     const canFire =
       !isRespawning &&
       !isGameOverDelayed &&
-      isSpacePressed &&
+      isFiring &&
       !isLaserActive &&
-      !(showSkip && spacebarPressStart > 0);
+      !showSkip;
 
+    const now = this.clock.now;
     if (!canFire || now - lastFireTime.current <= fireCooldown) return;
 
     lastFireTime.current = now;
@@ -175,6 +178,8 @@ class ProjectileManager {
 
     const diagonalInterval = isLastStand ? 2 : 3;
     if (this.state.hasDiagonalShot && this.state.mainShotCounter % diagonalInterval === 0) {
+      // Focus narrows the spread to concentrate fire ahead
+      const spread = isFocused ? FOCUS_DIAGONAL_SHOT_SPREAD : DIAGONAL_SHOT_SPREAD;
       const rightDiagonal = this.projectilePool.get();
       rightDiagonal.id = this.generateId();
       rightDiagonal.x = pX;
@@ -183,7 +188,7 @@ class ProjectileManager {
       rightDiagonal.height = PROJECTILE_HEIGHT;
       rightDiagonal.entityType = 'playerProjectile';
       rightDiagonal.speedY = currentProjectileSpeed;
-      rightDiagonal.speedX = currentProjectileSpeed * 0.4;
+      rightDiagonal.speedX = currentProjectileSpeed * spread;
       rightDiagonal.isRicochetPrimary = false;
       rightDiagonal.hasBounced = false;
       rightDiagonal.remainingBounces = 0;
@@ -197,7 +202,7 @@ class ProjectileManager {
       leftDiagonal.height = PROJECTILE_HEIGHT;
       leftDiagonal.entityType = 'playerProjectile';
       leftDiagonal.speedY = currentProjectileSpeed;
-      leftDiagonal.speedX = -currentProjectileSpeed * 0.4;
+      leftDiagonal.speedX = -currentProjectileSpeed * spread;
       leftDiagonal.isRicochetPrimary = false;
       leftDiagonal.hasBounced = false;
       leftDiagonal.remainingBounces = 0;
@@ -338,7 +343,7 @@ class ProjectileManager {
                 );
                 projectile.orbitAngularSpeed = CIRCLE_ORBIT_ANGULAR_SPEED;
                 projectile.orbitAccumulatedAngle = 0;
-                projectile.orbitDirection = projectile.orbitDirection || (Math.random() > 0.5 ? 1 : -1);
+                projectile.orbitDirection = projectile.orbitDirection || this.random.sign();
                 projectile.speedX = 0;
                 projectile.speedY = 0;
               }
@@ -412,17 +417,18 @@ class ProjectileManager {
       generateId,
     } = params;
 
-    const { PLAYER_WIDTH, PLAYER_HEIGHT, INITIAL_PROJECTILE_SPEED_PER_SECOND, PROJECTILE_WIDTH, PROJECTILE_HEIGHT } =
+    const { PLAYER_WIDTH, PLAYER_HEIGHT, PLAYER_HITBOX_SIZE, INITIAL_PROJECTILE_SPEED_PER_SECOND, PROJECTILE_WIDTH, PROJECTILE_HEIGHT, PLAYER_SHOT_DAMAGE } =
       this.constants;
 
     const hitProjectiles = new Set<Projectile>();
     const enemiesHitThisFrame = new Set<number>();
 
+    // Only the small core at the ship's center takes damage; items are still collected with the whole ship
     const playerHitbox = {
-      x: player.x,
-      y: player.y,
-      width: PLAYER_WIDTH,
-      height: PLAYER_HEIGHT,
+      x: player.x + (PLAYER_WIDTH - PLAYER_HITBOX_SIZE) / 2,
+      y: player.y + (PLAYER_HEIGHT - PLAYER_HITBOX_SIZE) / 2,
+      width: PLAYER_HITBOX_SIZE,
+      height: PLAYER_HITBOX_SIZE,
     };
 
     const enemyBuffer = collisionBuffers.enemies;
@@ -443,9 +449,8 @@ class ProjectileManager {
           projectile.y < enemy.y + enemy.height &&
           projectile.y + projectile.height > enemy.y
         ) {
-          enemy.hp = (enemy.hp ?? 1) - 1;
+          enemy.hp = (enemy.hp ?? 1) - PLAYER_SHOT_DAMAGE;
           hitProjectiles.add(projectile);
-          enemy.hp!--;
           enemy.isFlashing = true;
           enemy.flashEndTime = currentTime + 100;
 
@@ -457,7 +462,7 @@ class ProjectileManager {
 
           if ((enemy.hp || 0) <= 0) {
             enemiesHitThisFrame.add(enemy.id);
-            this.state.score += enemy.isElite || enemy.isBig ? 75 : 10;
+            this.scoreManager.scoreKill(enemy);
             this.state.enemiesDefeated++;
             const explosion = this.explosionPool.get();
             explosion.id = generateId();
@@ -493,7 +498,7 @@ class ProjectileManager {
           enemy.y <= player.y &&
           enemy.y + enemy.height >= 0;
         if (intersects) {
-          this.state.score += 5;
+          this.scoreManager.scoreKill(enemy, 'laser');
           this.state.enemiesDefeated++;
           const explosion = this.explosionPool.get();
           explosion.id = generateId();
@@ -543,6 +548,9 @@ class ProjectileManager {
           }
           return false;
         }
+        if (!projectile.hasGrazed && this.isWithinGrazeRadius(projectile, playerHitbox)) {
+          this.grazeProjectile(projectile);
+        }
         return true;
       },
       (projectile) => {
@@ -599,8 +607,7 @@ class ProjectileManager {
         enemy.y + enemy.height > playerHitbox.y;
       if (intersects) {
         if (this.state.isPhaseShieldActive) {
-          const scored = enemy.isElite || enemy.isBig ? 75 : 10;
-          this.state.score += scored;
+          this.scoreManager.scoreKill(enemy);
           this.state.enemiesDefeated++;
           const explosion = this.explosionPool.get();
           explosion.id = generateId();
@@ -816,6 +823,34 @@ class ProjectileManager {
     }
   }
 
+  // Distance from the bullet's edge to the nearest point of the hitbox, measured like a circle around the bullet
+  private isWithinGrazeRadius(projectile: EnemyProjectile, hitbox: PlayerSnapshot): boolean {
+    const { GRAZE_RADIUS } = this.constants;
+    const centerX = projectile.x + projectile.width / 2;
+    const centerY = projectile.y + projectile.height / 2;
+    const dx = Math.max(hitbox.x - centerX, 0, centerX - (hitbox.x + hitbox.width));
+    const dy = Math.max(hitbox.y - centerY, 0, centerY - (hitbox.y + hitbox.height));
+    return Math.hypot(dx, dy) <= GRAZE_RADIUS + Math.min(projectile.width, projectile.height) / 2;
+  }
+
+  // Skimming a bullet scores and builds charge; a full charge turns into a stocked bomb
+  private grazeProjectile(projectile: EnemyProjectile): void {
+    const { GRAZE_SCORE, GRAZE_CHARGE_PER_BULLET, MAX_GRAZE_CHARGE } = this.constants;
+    const state = this.state;
+    // Invincible ships cannot be hit, so they cannot near-miss either
+    if (state.isInvincible || state.isRespawning || state.isGameOverDelayed) return;
+    projectile.hasGrazed = true;
+    state.grazeCount++;
+    this.scoreManager.awardBonus(GRAZE_SCORE);
+    state.grazeCharge = Math.min(MAX_GRAZE_CHARGE, state.grazeCharge + GRAZE_CHARGE_PER_BULLET);
+    if (state.grazeCharge >= MAX_GRAZE_CHARGE && !state.stockedItem) {
+      state.grazeCharge = 0;
+      state.stockedItem = 'BOMB';
+      state.floatingTexts.push({ id: this.generateId(), x: state.playerX, y: state.playerY, text: 'GRAZE BOMB!', createdAt: this.clock.now });
+      this.playCancelSound();
+    }
+  }
+
   private lineIntersectsRect(
     line: { p1: { x: number; y: number }; p2: { x: number; y: number } },
     rect: { x: number; y: number; width: number; height: number }
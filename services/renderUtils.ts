@@ -0,0 +1,58 @@
+import type GameConstants from '@/services/gameConstants';
+import { EnemyProjectile, GameObject } from '@/types';
+
+export const lerp = (from: number | undefined, to: number, alpha: number) => (from === undefined ? to : from + (to - from) * alpha);
+
+// Where an object appears between its last two ticks
+export const interpolatePosition = (obj: GameObject, alpha: number) => ({
+  x: lerp(obj.prevX, obj.x, alpha),
+  y: lerp(obj.prevY, obj.y, alpha),
+});
+
+export interface GuideSegment {
+  key: string;
+  x1: number;
+  y1: number;
+  x2: number;
+  y2: number;
+  thickness: number;
+  opacity: number;
+}
+
+/** The red guide lines a CIRCLE bullet shows: its orbit ahead of it, then the drop line below it. Shared by both renderers. */
+export function collectCircleGuideSegments(p: EnemyProjectile, now: number, constants: GameConstants, out: GuideSegment[]): void {
+  if (p.attackPattern !== 'CIRCLE') return;
+  const { CIRCLE_ORBIT_LOOPS, CIRCLE_GUIDE_SEGMENTS, CIRCLE_GUIDE_DURATION, GAME_HEIGHT } = constants;
+  const centerDefined = p.orbitCenterX !== undefined && p.orbitCenterY !== undefined && p.orbitRadius !== undefined && p.orbitAngle !== undefined;
+  if (centerDefined && (p.circleMode === 'GUIDE_ORBIT' || p.circleMode === 'ORBIT')) {
+    const centerX = p.orbitCenterX!;
+    const centerY = p.orbitCenterY!;
+    const radius = p.orbitRadius!;
+    const direction = p.orbitDirection || 1;
+    const totalSegments = Math.max(12, CIRCLE_ORBIT_LOOPS * CIRCLE_GUIDE_SEGMENTS);
+    const progress = p.circleMode === 'ORBIT'
+      ? Math.max(0, Math.min(1, (p.orbitAccumulatedAngle || 0) / (Math.PI * 2 * CIRCLE_ORBIT_LOOPS)))
+      : 0;
+    const opacity = p.circleMode === 'GUIDE_ORBIT' ? 0.45 : 0.45 * Math.max(0, 1 - progress);
+    let prevX = centerX + Math.cos(p.orbitAngle!) * radius;
+    let prevY = centerY + Math.sin(p.orbitAngle!) * radius;
+    const angleStep = direction * ((Math.PI * 2 * CIRCLE_ORBIT_LOOPS) / totalSegments);
+    for (let segIndex = 1; segIndex <= totalSegments; segIndex++) {
+      const angle = p.orbitAngle! + angleStep * segIndex;
+      const nextX = centerX + Math.cos(angle) * radius;
+      const nextY = centerY + Math.sin(angle) * radius;
+      out.push({ key: `circle-guide-${p.id}-${segIndex}`, x1: prevX, y1: prevY, x2: nextX, y2: nextY, thickness: 2, opacity });
+      prevX = nextX;
+      prevY = nextY;
+    }
+  }
+  if (p.circleMode === 'GUIDE_DROP' || (p.circleMode === 'DROP' && p.circleGuideUntil !== undefined)) {
+    const fadeBase = p.circleGuideUntil !== undefined
+      ? Math.max(0, Math.min(1, (p.circleGuideUntil - now) / CIRCLE_GUIDE_DURATION))
+      : 1;
+    const opacity = (p.circleMode === 'GUIDE_DROP' ? 0.55 : 0.45) * fadeBase;
+    if (opacity > 0.01) {
+      out.push({ key: `circle-drop-guide-${p.id}`, x1: p.x, y1: p.y, x2: p.x, y2: GAME_HEIGHT, thickness: 3, opacity });
+    }
+  }
+}
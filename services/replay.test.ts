@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { decodeInput, encodeInput, parseReplay, ReplayPlayer, ReplayRecorder, REPLAY_VERSION, serializeReplay } from '@/services/replay';
+import { PlayerInput, ReplayData } from '@/types';
+
+const input = (moveX: number, moveY: number, fire = false, focus = false): PlayerInput => ({ moveX, moveY, fire, focus });
+
+describe('encodeInput / decodeInput', () => {
+  it('round-trips full-tilt directions with fire and focus', () => {
+    for (const held of [input(0, 0), input(-1, 0, true), input(1, -1, false, true), input(0, 1, true, true)]) {
+      expect(decodeInput(encodeInput(held))).toEqual(held);
+    }
+  });
+
+  it('keeps digital masks in the low bits so keyboard runs stay compact', () => {
+    expect(encodeInput(input(1, 1, true, true))).toBeLessThan(256);
+  });
+
+  it('round-trips analog axes to within one quantisation step', () => {
+    const decoded = decodeInput(encodeInput(input(0.5, -0.25, true)));
+    expect(decoded.moveX).toBeCloseTo(0.5, 2);
+    expect(decoded.moveY).toBeCloseTo(-0.25, 2);
+    expect(decoded.fire).toBe(true);
+    expect(decoded.focus).toBe(false);
+  });
+
+  it('keeps focus on analog input and clamps axes past full tilt', () => {
+    const decoded = decodeInput(encodeInput(input(0.3, 2, false, true)));
+    expect(decoded.focus).toBe(true);
+    expect(decoded.moveY).toBe(1);
+  });
+
+  it('does not carry a touch target; the session records the axes it steered with', () => {
+    const mask = encodeInput({ ...input(0, 0, true), steerTo: { x: 10, y: 20 } });
+    expect(decodeInput(mask)).toEqual(input(0, 0, true));
+  });
+});
+
+describe('ReplayRecorder / ReplayPlayer', () => {
+  const header = { seed: 7, lyricsHash: 42, superHardMode: false, spawnTokenMode: 'auto' as const };
+
+  it('stores only mask changes and plays each mask back until the next one', () => {
+    const recorder = new ReplayRecorder(header);
+    const masks = [0, 0, 5, 5, 5, 16, 0];
+    masks.forEach((mask, tick) => recorder.recordInput(tick, mask));
+    recorder.recordAction(3, 'special');
+    const recording = recorder.finish(1234);
+
+    expect(recording.inputs).toEqual([[2, 5], [5, 16], [6, 0]]);
+    const player = new ReplayPlayer(recording);
+    expect(masks.map((_, tick) => player.inputAt(tick))).toEqual(masks);
+    expect(new ReplayPlayer(recording).actionsAt(3)).toEqual(['special']);
+  });
+
+  it('cuts a recording at a tick and carries on from it', () => {
+    const recorder = new ReplayRecorder(header);
+    recorder.recordInput(1, 4);
+    recorder.recordInput(10, 8);
+    const cut = recorder.sliceUntil(5);
+    expect(cut.inputs).toEqual([[1, 4]]);
+
+    const resumed = new ReplayRecorder(header);
+    resumed.restore(cut);
+    resumed.recordInput(6, 4);
+    expect(resumed.finish(0).inputs).toEqual([[1, 4]]);
+  });
+});
+
+describe('parseReplay', () => {
+  const data: ReplayData = {
+    version: REPLAY_VERSION,
+    seed: 1,
+    lyricsHash: 2,
+    superHardMode: false,
+    spawnTokenMode: 'auto',
+    inputs: [[0, 16]],
+    actions: [[4, 'skip']],
+    lyricTriggers: [[3, 1.5]],
+    finalScore: 900,
+    lyricLanguage: 'original',
+    rubySpawnMode: 'base',
+  };
+
+  it('reads back what serializeReplay wrote', () => {
+    expect(parseReplay(serializeReplay(data))).toEqual(data);
+  });
+
+  it('rejects other versions and files missing their inputs', () => {
+    expect(() => parseReplay(JSON.stringify({ ...data, version: REPLAY_VERSION + 1 }))).toThrow('Unsupported replay file version.');
+    expect(() => parseReplay(JSON.stringify({ ...data, inputs: undefined }))).toThrow('missing required data');
+    expect(() => parseReplay('not json')).toThrow('not valid JSON');
+  });
+});
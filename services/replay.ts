@@ -0,0 +1,205 @@
+import type { ItemType, PlayerInput, ReplayActionType, ReplayData, ReplayRecording, SpawnTokenMode } from '@/types';
+
+export const REPLAY_VERSION = 1;
+export const REPLAY_FILE_ACCEPT = '.json,application/json';
+
+// Held input packed into one integer. Full-tilt directions use one bit each; anything in between
+// (an analog stick) sets `analog` and stores each axis as a byte in bits 8-15 and 16-23
+const INPUT_BITS = {
+  left: 1,
+  right: 2,
+  up: 4,
+  down: 8,
+  fire: 16,
+  analog: 32,
+  focus: 64,
+} as const;
+const AXIS_STEPS = 127;
+
+const quantizeAxis = (value: number) => Math.round(Math.max(-1, Math.min(1, value)) * AXIS_STEPS);
+
+export function encodeInput(input: PlayerInput): number {
+  const x = quantizeAxis(input.moveX);
+  const y = quantizeAxis(input.moveY);
+  let mask = (input.fire ? INPUT_BITS.fire : 0) | (input.focus ? INPUT_BITS.focus : 0);
+  const isDigital = (axis: number) => axis === 0 || Math.abs(axis) === AXIS_STEPS;
+  if (isDigital(x) && isDigital(y)) {
+    if (x < 0) mask |= INPUT_BITS.left;
+    if (x > 0) mask |= INPUT_BITS.right;
+    if (y < 0) mask |= INPUT_BITS.up;
+    if (y > 0) mask |= INPUT_BITS.down;
+  } else {
+    mask |= INPUT_BITS.analog | ((x + AXIS_STEPS) << 8) | ((y + AXIS_STEPS) << 16);
+  }
+  return mask;
+}
+
+// The simulation only ever sees decoded input, so live and replayed ticks move by identical amounts
+export function decodeInput(mask: number): PlayerInput {
+  const fire = (mask & INPUT_BITS.fire) !== 0;
+  const focus = (mask & INPUT_BITS.focus) !== 0;
+  if (mask & INPUT_BITS.analog) {
+    return {
+      moveX: (((mask >> 8) & 0xff) - AXIS_STEPS) / AXIS_STEPS,
+      moveY: (((mask >> 16) & 0xff) - AXIS_STEPS) / AXIS_STEPS,
+      fire,
+      focus,
+    };
+  }
+  const axis = (negative: number, positive: number) => ((mask & positive) !== 0 ? 1 : 0) - ((mask & negative) !== 0 ? 1 : 0);
+  return { moveX: axis(INPUT_BITS.left, INPUT_BITS.right), moveY: axis(INPUT_BITS.up, INPUT_BITS.down), fire, focus };
+}
+
+interface ReplayHeader {
+  seed: number;
+  lyricsHash: number;
+  superHardMode: boolean;
+  initialItem?: ItemType;
+  spawnTokenMode: SpawnTokenMode;
+}
+
+export class ReplayRecorder {
+  private readonly header: ReplayHeader;
+  private readonly inputs: [number, number][] = [];
+  private readonly actions: [number, ReplayActionType][] = [];
+  private readonly lyricTriggers: [number, number][] = [];
+  private lastMask = 0;
+
+  constructor(header: ReplayHeader) {
+    this.header = header;
+  }
+
+  // Carries on from an earlier recording of the same run, e.g. one cut at a checkpoint
+  restore(recording: ReplayRecording): void {
+    this.inputs.splice(0, this.inputs.length, ...recording.inputs);
+    this.actions.splice(0, this.actions.length, ...recording.actions);
+    this.lyricTriggers.splice(0, this.lyricTriggers.length, ...recording.lyricTriggers);
+    this.lastMask = recording.inputs[recording.inputs.length - 1]?.[1] ?? 0;
+  }
+
+  recordInput(tick: number, mask: number): void {
+    if (mask === this.lastMask) return;
+    this.lastMask = mask;
+    this.inputs.push([tick, mask]);
+  }
+
+  recordAction(tick: number, action: ReplayActionType): void {
+    this.actions.push([tick, action]);
+  }
+
+  recordLyricTrigger(tick: number, audioTime: number): void {
+    this.lyricTriggers.push([tick, audioTime]);
+  }
+
+  finish(finalScore: number): ReplayRecording {
+    return {
+      version: REPLAY_VERSION,
+      ...this.header,
+      inputs: [...this.inputs],
+      actions: [...this.actions],
+      lyricTriggers: [...this.lyricTriggers],
+      finalScore,
+    };
+  }
+
+  // [tick, audio time] of the most recent lyric line, if any has fired
+  lastLyricTrigger(): [number, number] | undefined {
+    return this.lyricTriggers[this.lyricTriggers.length - 1];
+  }
+
+  // The recording so far, cut off after `tick`; the run has no final score yet
+  sliceUntil(tick: number): ReplayRecording {
+    const upTo = <T>(entries: [number, T][]) => entries.filter(([entryTick]) => entryTick <= tick);
+    return {
+      version: REPLAY_VERSION,
+      ...this.header,
+      inputs: upTo(this.inputs),
+      actions: upTo(this.actions),
+      lyricTriggers: upTo(this.lyricTriggers),
+      finalScore: 0,
+    };
+  }
+}
+
+/**
+ * Feeds a recording back tick by tick. Ticks must be queried in increasing
+ * order, as the game loop does.
+ */
+export class ReplayPlayer {
+  private readonly recording: ReplayRecording;
+  private inputCursor = 0;
+  private actionCursor = 0;
+  private lyricCursor = 0;
+  private mask = 0;
+
+  constructor(recording: ReplayRecording) {
+    this.recording = recording;
+  }
+
+  inputAt(tick: number): number {
+    const { inputs } = this.recording;
+    while (this.inputCursor < inputs.length && inputs[this.inputCursor][0] <= tick) {
+      this.mask = inputs[this.inputCursor][1];
+      this.inputCursor++;
+    }
+    return this.mask;
+  }
+
+  actionsAt(tick: number): ReplayActionType[] {
+    const { actions } = this.recording;
+    const due: ReplayActionType[] = [];
+    while (this.actionCursor < actions.length && actions[this.actionCursor][0] <= tick) {
+      due.push(actions[this.actionCursor][1]);
+      this.actionCursor++;
+    }
+    return due;
+  }
+
+  // The audio time a lyric line fired at on this tick, if one did
+  lyricTriggerAt(tick: number): number | null {
+    const { lyricTriggers } = this.recording;
+    while (this.lyricCursor < lyricTriggers.length && lyricTriggers[this.lyricCursor][0] < tick) {
+      this.lyricCursor++;
+    }
+    const next = lyricTriggers[this.lyricCursor];
+    if (!next || next[0] !== tick) return null;
+    this.lyricCursor++;
+    return next[1];
+  }
+}
+
+export function serializeReplay(data: ReplayData): string {
+  return JSON.stringify(data);
+}
+
+const isTickPairList = (value: unknown): value is [number, unknown][] =>
+  Array.isArray(value) && value.every(entry => Array.isArray(entry) && entry.length === 2 && Number.isInteger(entry[0]));
+
+export function parseReplay(text: string): ReplayData {
+  let data: Partial<ReplayData>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The replay file is not valid JSON.');
+  }
+  if (!data || typeof data !== 'object' || data.version !== REPLAY_VERSION) {
+    throw new Error('Unsupported replay file version.');
+  }
+  if (
+    typeof data.seed !== 'number' ||
+    typeof data.lyricsHash !== 'number' ||
+    !isTickPairList(data.inputs) ||
+    !isTickPairList(data.actions) ||
+    !isTickPairList(data.lyricTriggers)
+  ) {
+    throw new Error('The replay file is missing required data.');
+  }
+  return {
+    ...data,
+    superHardMode: Boolean(data.superHardMode),
+    spawnTokenMode: data.spawnTokenMode ?? 'auto',
+    lyricLanguage: data.lyricLanguage ?? 'original',
+    rubySpawnMode: data.rubySpawnMode ?? 'base',
+    finalScore: data.finalScore ?? 0,
+  } as ReplayData;
+}
@@ -0,0 +1,111 @@
+import type GameConstants from '@/services/gameConstants';
+import { filterInPlace } from '@/services/collectionUtils';
+import type SimulationClock from '@/services/simulationClock';
+import { Enemy, GameState } from '@/types';
+
+interface ScoreManagerContext {
+  constants: GameConstants;
+  state: GameState;
+  generateId: () => number;
+  clock: SimulationClock;
+}
+
+// How an enemy was defeated; the laser sweeps whole columns, so its kills are worth less
+export type KillSource = 'shot' | 'laser';
+
+/**
+ * Every point the player earns goes through here. Kills build a chain that
+ * drops after COMBO_DECAY_DURATION without another kill, and the chain sets the
+ * score multiplier. Kills close to a sung lyric timestamp earn an on-beat
+ * bonus. Beats are kept on the simulation clock, so replays score identically.
+ */
+class ScoreManager {
+  private readonly constants: GameConstants;
+  private readonly state: GameState;
+  private readonly generateId: () => number;
+  private readonly clock: SimulationClock;
+  // Simulation times (ms) at which lyric tokens are sung, oldest first
+  private readonly beats: number[] = [];
+
+  constructor(context: ScoreManagerContext) {
+    this.constants = context.constants;
+    this.state = context.state;
+    this.generateId = context.generateId;
+    this.clock = context.clock;
+  }
+
+  snapshot(): number[] {
+    return [...this.beats];
+  }
+
+  restore(beats: number[]): void {
+    this.beats.splice(0, this.beats.length, ...beats);
+  }
+
+  addBeats(times: number[]): void {
+    this.beats.push(...times);
+    this.beats.sort((a, b) => a - b);
+  }
+
+  /** Drops the chain once it has decayed, and forgets beats too old to match a kill. */
+  update(): void {
+    const { ON_BEAT_WINDOW } = this.constants;
+    const now = this.clock.now;
+    if (this.state.combo > 0 && now >= this.state.comboExpiresAt) this.resetCombo();
+    filterInPlace(this.beats, (time) => time >= now - ON_BEAT_WINDOW);
+  }
+
+  scoreKill(enemy: Enemy, source: KillSource = 'shot'): void {
+    const { ENEMY_SCORE, HEAVY_ENEMY_SCORE, LASER_KILL_SCORE, COMBO_DECAY_DURATION, ON_BEAT_BONUS } = this.constants;
+    const state = this.state;
+    const now = this.clock.now;
+
+    state.combo++;
+    state.maxCombo = Math.max(state.maxCombo, state.combo);
+    state.comboExpiresAt = now + COMBO_DECAY_DURATION;
+    state.scoreMultiplier = this.multiplierFor(state.combo);
+
+    const base = source === 'laser' ? LASER_KILL_SCORE : enemy.isElite || enemy.isBig ? HEAVY_ENEMY_SCORE : ENEMY_SCORE;
+    state.score += base * state.scoreMultiplier;
+
+    if (this.isOnBeat(now)) {
+      const bonus = ON_BEAT_BONUS * state.scoreMultiplier;
+      state.score += bonus;
+      state.onBeatKills++;
+      state.floatingTexts.push({ id: this.generateId(), x: enemy.x, y: enemy.y, text: `ON BEAT +${bonus}`, createdAt: now });
+    }
+  }
+
+  /** Flat points outside the kill chain, e.g. for duplicate items. */
+  awardBonus(points: number): void {
+    this.state.score += points;
+  }
+
+  // Taking a hit loses the chain and with it the multiplier
+  breakCombo(): void {
+    this.resetCombo();
+  }
+
+  private resetCombo(): void {
+    this.state.combo = 0;
+    this.state.comboExpiresAt = 0;
+    this.state.scoreMultiplier = 1;
+  }
+
+  private multiplierFor(combo: number): number {
+    const { COMBO_KILLS_PER_MULTIPLIER, MAX_SCORE_MULTIPLIER } = this.constants;
+    return Math.min(MAX_SCORE_MULTIPLIER, 1 + Math.floor(combo / COMBO_KILLS_PER_MULTIPLIER));
+  }
+
+  private isOnBeat(now: number): boolean {
+    const { ON_BEAT_WINDOW } = this.constants;
+    for (let i = 0; i < this.beats.length; i++) {
+      const offset = this.beats[i] - now;
+      if (offset > ON_BEAT_WINDOW) return false;
+      if (offset >= -ON_BEAT_WINDOW) return true;
+    }
+    return false;
+  }
+}
+
+export default ScoreManager;
@@ -0,0 +1,88 @@
+import type { LyricLine } from '@/types';
+
+// Seeds are unsigned 32-bit integers
+const SEED_MODULUS = 0x100000000;
+
+// FNV-1a, folded over UTF-16 code units
+const hashString = (text: string, hash = 0x811c9dc5): number => {
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Seedable PRNG (mulberry32) for every gameplay roll. The same seed replays
+ * the same enemy patterns, item drops and procs.
+ */
+class SeededRandom {
+  readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Uniform float in [0, 1), a drop-in for Math.random(). */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / SEED_MODULUS;
+  }
+
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  pick<T>(options: readonly T[]): T {
+    return options[Math.floor(this.next() * options.length)];
+  }
+
+  sign(): 1 | -1 {
+    return this.next() > 0.5 ? 1 : -1;
+  }
+
+  reset(): void {
+    this.state = this.seed;
+  }
+
+  // The generator's position, so a checkpoint can resume the same sequence
+  snapshot(): number {
+    return this.state;
+  }
+
+  restore(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+// Same lyrics (timing and text) always give the same chart
+export function hashLyricsSeed(lines: LyricLine[]): number {
+  let hash = 0x811c9dc5;
+  for (const line of lines) {
+    hash = hashString(`${line.time.toFixed(3)}\u0000${line.text}\n`, hash);
+  }
+  return hash;
+}
+
+// Numbers are used as-is; any other text is hashed so seeds can be shared as words
+export function parseSeed(input: string): number | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) % SEED_MODULUS;
+  return hashString(trimmed);
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * SEED_MODULUS);
+}
+
+export default SeededRandom;
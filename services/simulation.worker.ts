@@ -0,0 +1,76 @@
+import GameSession from '@/services/gameSession';
+import { SnapshotEncoder } from '@/services/simulationSnapshot';
+import { decodeInput } from '@/services/replay';
+import type { FromWorkerMessage, ToWorkerMessage } from '@/services/workerGameSession';
+
+// Runs one GameSession off the UI thread; see WorkerGameSession for the other end
+
+// The project compiles against the DOM lib, so the worker global is typed by hand
+const scope = self as unknown as {
+  postMessage(message: FromWorkerMessage, transfer: Transferable[]): void;
+  onmessage: ((e: MessageEvent<ToWorkerMessage>) => void) | null;
+};
+const post = (message: FromWorkerMessage, transfer: Transferable[] = []) => scope.postMessage(message, transfer);
+
+const encoder = new SnapshotEncoder();
+let session: GameSession | null = null;
+// Latest song position reported by the UI thread; seeks apply locally at once so later ticks in the frame see them
+const song = { time: 0, ended: false };
+
+scope.onmessage = (e: MessageEvent<ToWorkerMessage>) => {
+  const message = e.data;
+  switch (message.type) {
+    case 'start': {
+      const { hasAudio, ...options } = message.options;
+      session = new GameSession({
+        ...options,
+        audio: hasAudio
+          ? {
+              currentTime: () => song.time,
+              ended: () => song.ended,
+              seek: (time) => {
+                song.time = time;
+                post({ type: 'audio', command: 'seek', time });
+              },
+              pause: () => post({ type: 'audio', command: 'pause' }),
+            }
+          : undefined,
+        effects: {
+          shipHit: () => post({ type: 'effect', effect: 'shipHit' }),
+          bomb: () => post({ type: 'effect', effect: 'bomb' }),
+          cancel: () => post({ type: 'effect', effect: 'cancel' }),
+          fadeOutBgm: (seconds) => post({ type: 'effect', effect: 'fadeOutBgm', seconds }),
+        },
+        onEnd: (stats, status, replay) => {
+          post({ type: 'end', stats, status, replay });
+          session = null;
+        },
+      });
+      break;
+    }
+    case 'frame': {
+      if (!session) return;
+      song.time = message.audioTime;
+      song.ended = message.audioEnded;
+      session.setInput({ ...decodeInput(message.inputMask), steerTo: message.steerTo });
+      if (!session.advance(message.realNow) || !session) return;
+      const { snapshot, transfer } = encoder.encode(session);
+      post({ type: 'snapshot', snapshot }, transfer);
+      break;
+    }
+    case 'input': {
+      if (!session) return;
+      const { action } = message;
+      if (action === 'pressSkip') session.pressSkip();
+      else if (action === 'releaseSkip') session.releaseSkip();
+      else if (action === 'pressQuit') session.pressQuit();
+      else if (action === 'releaseQuit') session.releaseQuit();
+      else if (action === 'resume') session.resume();
+      else session.queueAction(action);
+      break;
+    }
+    case 'checkpoint':
+      (session?.checkpoint() ?? Promise.resolve(null)).then(checkpoint => post({ type: 'checkpoint', checkpoint }));
+      break;
+  }
+};
@@ -0,0 +1,45 @@
+import { describe, it, expect } from 'vitest';
+import SimulationClock, { MAX_DUE_TICKS } from '@/services/simulationClock';
+
+// Advances like a frame loop: asks how many ticks are due, then runs them
+const frame = (clock: SimulationClock, realNow: number): number => {
+  const due = clock.advance(realNow);
+  for (let i = 0; i < due; i++) clock.step();
+  return due;
+};
+
+describe('SimulationClock', () => {
+  it('pays out whole ticks and carries the remainder', () => {
+    const clock = new SimulationClock(10);
+    expect(frame(clock, 1000)).toBe(0);
+    expect(frame(clock, 1025)).toBe(2);
+    expect(clock.alpha).toBeCloseTo(0.5);
+    expect(frame(clock, 1030)).toBe(1);
+    expect(clock.now).toBe(30);
+  });
+
+  it(`never owes more than ${MAX_DUE_TICKS} ticks after a stall`, () => {
+    const clock = new SimulationClock(10);
+    frame(clock, 0);
+    expect(frame(clock, 5000)).toBe(MAX_DUE_TICKS);
+    expect(clock.now).toBe(MAX_DUE_TICKS * 10);
+    // The dropped time is gone: the next normal frame is back to its own share
+    expect(frame(clock, 5010)).toBe(1);
+  });
+
+  it('counts ticks not yet run toward the cap', () => {
+    const clock = new SimulationClock(10);
+    frame(clock, 0);
+    expect(clock.advance(45)).toBe(4);
+    expect(clock.advance(10000)).toBe(MAX_DUE_TICKS);
+  });
+
+  it('does not simulate time spent paused after a resync', () => {
+    const clock = new SimulationClock(10);
+    frame(clock, 0);
+    frame(clock, 20);
+    clock.resync();
+    expect(frame(clock, 60000)).toBe(0);
+    expect(frame(clock, 60010)).toBe(1);
+  });
+});
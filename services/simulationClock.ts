@@ -0,0 +1,81 @@
+// Simulation runs at a fixed 60 Hz regardless of display refresh rate
+export const SIMULATION_TICK_MS = 1000 / 60;
+// Most ticks one frame can owe; a longer stall (GC pause, debugger) is dropped rather than caught up,
+// so a slow frame cannot queue enough work to make the next frame slow too
+export const MAX_DUE_TICKS = 8;
+
+/**
+ * Fixed-timestep clock for the game simulation. Real frame time is accumulated
+ * and paid out in whole ticks, so every run advances by identical steps and a
+ * slow machine simply runs more ticks per rendered frame.
+ */
+class SimulationClock {
+  readonly tickMs: number;
+  readonly tickSeconds: number;
+
+  private tickCount = 0;
+  private accumulator = 0;
+  private lastRealTime: number | null = null;
+
+  constructor(tickMs: number = SIMULATION_TICK_MS) {
+    this.tickMs = tickMs;
+    this.tickSeconds = tickMs / 1000;
+  }
+
+  // Simulated milliseconds since the session started; replaces Date.now() inside the simulation
+  get now(): number {
+    return this.tickCount * this.tickMs;
+  }
+
+  get ticks(): number {
+    return this.tickCount;
+  }
+
+  // How far (0..1) real time has run past the last completed tick, for render interpolation
+  get alpha(): number {
+    return Math.min(1, this.accumulator / this.tickMs);
+  }
+
+  // Simulated time real time had reached at the last advance(): completed ticks plus the unpaid remainder
+  get targetTime(): number {
+    return this.tickCount * this.tickMs + this.accumulator;
+  }
+
+  /** Feeds in the real frame timestamp and returns how many ticks are due. */
+  advance(realNow: number): number {
+    if (this.lastRealTime === null) {
+      this.lastRealTime = realNow;
+      return 0;
+    }
+    const delta = Math.max(0, realNow - this.lastRealTime);
+    this.lastRealTime = realNow;
+    this.accumulator = Math.min(this.accumulator + delta, MAX_DUE_TICKS * this.tickMs);
+    return Math.floor(this.accumulator / this.tickMs);
+  }
+
+  /** Consumes one due tick and moves simulated time forward. */
+  step(): void {
+    this.tickCount++;
+    this.accumulator = Math.max(0, this.accumulator - this.tickMs);
+  }
+
+  /** Forgets the last frame time, so real time spent paused is never simulated. */
+  resync(): void {
+    this.lastRealTime = null;
+  }
+
+  /** Jumps to `ticks` completed ticks, e.g. when a session picks up from a checkpoint. */
+  restore(ticks: number): void {
+    this.tickCount = ticks;
+    this.accumulator = 0;
+    this.lastRealTime = null;
+  }
+
+  reset(): void {
+    this.tickCount = 0;
+    this.accumulator = 0;
+    this.lastRealTime = null;
+  }
+}
+
+export default SimulationClock;
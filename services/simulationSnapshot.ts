@@ -0,0 +1,327 @@
+import type GameSession from '@/services/gameSession';
+import {
+  Enemy,
+  EnemyProjectile,
+  EliteShooterType,
+  Explosion,
+  FloatingText,
+  GameState,
+  Item,
+  ItemType,
+  Mine,
+  Projectile,
+  ShooterAttackPattern,
+} from '@/types';
+
+// Enum values travel as their index in these lists; -1 means unset
+const ELITE_TYPES: EliteShooterType[] = ['MAGIC', 'GATLING', 'LANDMINE', 'LASER', 'CIRCLE'];
+const ATTACK_PATTERNS: ShooterAttackPattern[] = ['HOMING', 'STRAIGHT_DOWN', 'DELAYED_HOMING', 'SPIRAL', 'BEAT', 'SIDE', 'DECELERATE', 'CIRCLE'];
+const LASER_STATES: NonNullable<Enemy['laserState']>[] = ['IDLE', 'AIMING', 'FIRING', 'COOLDOWN'];
+const CIRCLE_MODES: NonNullable<EnemyProjectile['circleMode']>[] = ['APPROACH', 'GUIDE_ORBIT', 'ORBIT', 'GUIDE_DROP', 'DROP'];
+const ITEM_TYPES: ItemType[] = ['BOMB', 'LASER_BEAM', 'PHASE_SHIELD', 'SPEED_UP', 'DIAGONAL_SHOT', 'ONE_UP', 'SIDE_SHOT', 'CANCELLER_SHOT', 'RICOCHET_SHOT'];
+
+// Floats per entity; optional numbers travel as NaN
+const ENEMY_STRIDE = 13;
+const PROJECTILE_STRIDE = 8;
+const ENEMY_PROJECTILE_STRIDE = 17;
+const ITEM_STRIDE = 8;
+const MINE_STRIDE = 6;
+const EXPLOSION_STRIDE = 5;
+
+const ENEMY_ELITE = 1;
+const ENEMY_SHOOTER = 2;
+const ENEMY_BIG = 4;
+const ENEMY_FLASHING = 8;
+const PROJECTILE_RICOCHET_PRIMARY = 1;
+const PROJECTILE_BOUNCED = 2;
+
+type EntityKey = 'projectiles' | 'enemyProjectiles' | 'enemies' | 'items' | 'mines' | 'explosions' | 'floatingTexts' | 'pendingSpawns';
+
+// Everything in GameState except the entity lists; fps is measured on the UI thread
+export type SnapshotScalars = Omit<GameState, EntityKey | 'pendingSpawnCursor' | 'fps'>;
+
+/** One rendered frame of a worker-run session, with entity lists packed into transferable typed arrays. */
+export interface SimulationSnapshot {
+  now: number;
+  alpha: number;
+  prevPlayerX: number;
+  prevPlayerY: number;
+  itemSpawnMilestone: number;
+  scalars: SnapshotScalars;
+  enemies: Float32Array;
+  projectiles: Float32Array;
+  enemyProjectiles: Float32Array;
+  items: Float32Array;
+  mines: Float32Array;
+  explosions: Float32Array;
+  // Text for enemies the UI thread has not seen yet: [id, char, reading]
+  labels: [number, string, string | undefined][];
+  floatingTexts: FloatingText[];
+}
+
+const enumIndex = <T>(values: readonly T[], value: T | undefined) => (value === undefined ? -1 : values.indexOf(value));
+const enumValue = <T>(values: readonly T[], index: number): T | undefined => (index < 0 ? undefined : values[index]);
+const optional = (value: number | undefined) => (value === undefined ? NaN : value);
+const fromOptional = (value: number) => (Number.isNaN(value) ? undefined : value);
+
+/** Worker side: packs a session's state after each frame. */
+export class SnapshotEncoder {
+  // Enemies whose label was already sent; rebuilt every frame so dead ids drop out
+  private sentLabels = new Set<number>();
+
+  encode(session: GameSession): { snapshot: SimulationSnapshot; transfer: ArrayBuffer[] } {
+    const { projectiles, enemyProjectiles, enemies, items, mines, explosions, floatingTexts, pendingSpawns, pendingSpawnCursor, fps, ...scalars } = session.state;
+    const labels: SimulationSnapshot['labels'] = [];
+    const nextSent = new Set<number>();
+
+    const enemyData = new Float32Array(enemies.length * ENEMY_STRIDE);
+    for (let i = 0; i < enemies.length; i++) {
+      const e = enemies[i];
+      const o = i * ENEMY_STRIDE;
+      enemyData[o] = e.id;
+      enemyData[o + 1] = e.x;
+      enemyData[o + 2] = e.y;
+      enemyData[o + 3] = optional(e.prevX);
+      enemyData[o + 4] = optional(e.prevY);
+      enemyData[o + 5] = e.width;
+      enemyData[o + 6] = e.height;
+      enemyData[o + 7] = (e.isElite ? ENEMY_ELITE : 0) | (e.isShooter ? ENEMY_SHOOTER : 0) | (e.isBig ? ENEMY_BIG : 0) | (e.isFlashing ? ENEMY_FLASHING : 0);
+      enemyData[o + 8] = enumIndex(ELITE_TYPES, e.eliteType);
+      enemyData[o + 9] = enumIndex(ATTACK_PATTERNS, e.attackPattern);
+      enemyData[o + 10] = enumIndex(LASER_STATES, e.laserState);
+      enemyData[o + 11] = e.laserTarget ? e.laserTarget.x : NaN;
+      enemyData[o + 12] = e.laserTarget ? e.laserTarget.y : NaN;
+      if (!this.sentLabels.has(e.id)) labels.push([e.id, e.char, e.reading]);
+      nextSent.add(e.id);
+    }
+    this.sentLabels = nextSent;
+
+    const projectileData = new Float32Array(projectiles.length * PROJECTILE_STRIDE);
+    for (let i = 0; i < projectiles.length; i++) {
+      const p = projectiles[i];
+      const o = i * PROJECTILE_STRIDE;
+      projectileData[o] = p.id;
+      projectileData[o + 1] = p.x;
+      projectileData[o + 2] = p.y;
+      projectileData[o + 3] = optional(p.prevX);
+      projectileData[o + 4] = optional(p.prevY);
+      projectileData[o + 5] = p.width;
+      projectileData[o + 6] = p.height;
+      projectileData[o + 7] = (p.isRicochetPrimary ? PROJECTILE_RICOCHET_PRIMARY : 0) | (p.hasBounced ? PROJECTILE_BOUNCED : 0);
+    }
+
+    const enemyProjectileData = new Float32Array(enemyProjectiles.length * ENEMY_PROJECTILE_STRIDE);
+    for (let i = 0; i < enemyProjectiles.length; i++) {
+      const p = enemyProjectiles[i];
+      const o = i * ENEMY_PROJECTILE_STRIDE;
+      enemyProjectileData[o] = p.id;
+      enemyProjectileData[o + 1] = p.x;
+      enemyProjectileData[o + 2] = p.y;
+      enemyProjectileData[o + 3] = optional(p.prevX);
+      enemyProjectileData[o + 4] = optional(p.prevY);
+      enemyProjectileData[o + 5] = p.width;
+      enemyProjectileData[o + 6] = p.height;
+      enemyProjectileData[o + 7] = enumIndex(ATTACK_PATTERNS, p.attackPattern);
+      enemyProjectileData[o + 8] = p.isDelayed ? 1 : 0;
+      enemyProjectileData[o + 9] = enumIndex(CIRCLE_MODES, p.circleMode);
+      enemyProjectileData[o + 10] = optional(p.orbitCenterX);
+      enemyProjectileData[o + 11] = optional(p.orbitCenterY);
+      enemyProjectileData[o + 12] = optional(p.orbitRadius);
+      enemyProjectileData[o + 13] = optional(p.orbitAngle);
+      enemyProjectileData[o + 14] = optional(p.orbitAccumulatedAngle);
+      enemyProjectileData[o + 15] = optional(p.orbitDirection);
+      enemyProjectileData[o + 16] = optional(p.circleGuideUntil);
+    }
+
+    const itemData = new Float32Array(items.length * ITEM_STRIDE);
+    for (let i = 0; i < items.length; i++) {
+      const item = items[i];
+      const o = i * ITEM_STRIDE;
+      itemData[o] = item.id;
+      itemData[o + 1] = item.x;
+      itemData[o + 2] = item.y;
+      itemData[o + 3] = optional(item.prevX);
+      itemData[o + 4] = optional(item.prevY);
+      itemData[o + 5] = item.width;
+      itemData[o + 6] = item.height;
+      itemData[o + 7] = enumIndex(ITEM_TYPES, item.type);
+    }
+
+    const mineData = new Float32Array(mines.length * MINE_STRIDE);
+    for (let i = 0; i < mines.length; i++) {
+      const m = mines[i];
+      const o = i * MINE_STRIDE;
+      mineData[o] = m.id;
+      mineData[o + 1] = m.x;
+      mineData[o + 2] = m.y;
+      mineData[o + 3] = m.width;
+      mineData[o + 4] = m.height;
+      mineData[o + 5] = m.createdAt;
+    }
+
+    const explosionData = new Float32Array(explosions.length * EXPLOSION_STRIDE);
+    for (let i = 0; i < explosions.length; i++) {
+      const ex = explosions[i];
+      const o = i * EXPLOSION_STRIDE;
+      explosionData[o] = ex.id;
+      explosionData[o + 1] = ex.x;
+      explosionData[o + 2] = ex.y;
+      explosionData[o + 3] = ex.size === 'large' ? 1 : 0;
+      explosionData[o + 4] = ex.createdAt;
+    }
+
+    const snapshot: SimulationSnapshot = {
+      now: session.clock.now,
+      alpha: session.clock.alpha,
+      prevPlayerX: session.prevPlayerPos.x,
+      prevPlayerY: session.prevPlayerPos.y,
+      itemSpawnMilestone: session.itemSpawnMilestone.current,
+      scalars,
+      enemies: enemyData,
+      projectiles: projectileData,
+      enemyProjectiles: enemyProjectileData,
+      items: itemData,
+      mines: mineData,
+      explosions: explosionData,
+      labels,
+      floatingTexts: floatingTexts.map(ft => ({ ...ft })),
+    };
+    const transfer = [enemyData, projectileData, enemyProjectileData, itemData, mineData, explosionData].map(data => data.buffer as ArrayBuffer);
+    return { snapshot, transfer };
+  }
+}
+
+// Grows or shrinks `list` to `count`, reusing the objects already in it
+const resize = <T>(list: T[], count: number, create: () => T) => {
+  while (list.length < count) list.push(create());
+  list.length = count;
+};
+
+/** UI thread side: unpacks snapshots into a GameState-shaped mirror so the renderers work unchanged. */
+export class SnapshotDecoder {
+  private readonly labels = new Map<number, { char: string; reading?: string }>();
+
+  apply(state: GameState, snapshot: SimulationSnapshot): void {
+    Object.assign(state, snapshot.scalars);
+    for (const [id, char, reading] of snapshot.labels) this.labels.set(id, { char, reading });
+
+    const enemyData = snapshot.enemies;
+    const enemyCount = enemyData.length / ENEMY_STRIDE;
+    resize(state.enemies, enemyCount, () => ({ entityType: 'enemy' }) as Enemy);
+    const liveIds = new Set<number>();
+    for (let i = 0; i < enemyCount; i++) {
+      const e = state.enemies[i];
+      const o = i * ENEMY_STRIDE;
+      e.id = enemyData[o];
+      e.x = enemyData[o + 1];
+      e.y = enemyData[o + 2];
+      e.prevX = fromOptional(enemyData[o + 3]);
+      e.prevY = fromOptional(enemyData[o + 4]);
+      e.width = enemyData[o + 5];
+      e.height = enemyData[o + 6];
+      const flags = enemyData[o + 7];
+      e.isElite = (flags & ENEMY_ELITE) !== 0;
+      e.isShooter = (flags & ENEMY_SHOOTER) !== 0;
+      e.isBig = (flags & ENEMY_BIG) !== 0;
+      e.isFlashing = (flags & ENEMY_FLASHING) !== 0;
+      e.eliteType = enumValue(ELITE_TYPES, enemyData[o + 8]);
+      e.attackPattern = enumValue(ATTACK_PATTERNS, enemyData[o + 9]);
+      e.laserState = enumValue(LASER_STATES, enemyData[o + 10]);
+      e.laserTarget = Number.isNaN(enemyData[o + 11]) ? undefined : { x: enemyData[o + 11], y: enemyData[o + 12] };
+      const label = this.labels.get(e.id);
+      e.char = label?.char ?? '';
+      e.reading = label?.reading;
+      liveIds.add(e.id);
+    }
+    for (const id of this.labels.keys()) {
+      if (!liveIds.has(id)) this.labels.delete(id);
+    }
+
+    const projectileData = snapshot.projectiles;
+    const projectileCount = projectileData.length / PROJECTILE_STRIDE;
+    resize(state.projectiles, projectileCount, () => ({ entityType: 'playerProjectile' }) as Projectile);
+    for (let i = 0; i < projectileCount; i++) {
+      const p = state.projectiles[i];
+      const o = i * PROJECTILE_STRIDE;
+      p.id = projectileData[o];
+      p.x = projectileData[o + 1];
+      p.y = projectileData[o + 2];
+      p.prevX = fromOptional(projectileData[o + 3]);
+      p.prevY = fromOptional(projectileData[o + 4]);
+      p.width = projectileData[o + 5];
+      p.height = projectileData[o + 6];
+      p.isRicochetPrimary = (projectileData[o + 7] & PROJECTILE_RICOCHET_PRIMARY) !== 0;
+      p.hasBounced = (projectileData[o + 7] & PROJECTILE_BOUNCED) !== 0;
+    }
+
+    const enemyProjectileData = snapshot.enemyProjectiles;
+    const enemyProjectileCount = enemyProjectileData.length / ENEMY_PROJECTILE_STRIDE;
+    resize(state.enemyProjectiles, enemyProjectileCount, () => ({ entityType: 'enemyProjectile' }) as EnemyProjectile);
+    for (let i = 0; i < enemyProjectileCount; i++) {
+      const p = state.enemyProjectiles[i];
+      const o = i * ENEMY_PROJECTILE_STRIDE;
+      p.id = enemyProjectileData[o];
+      p.x = enemyProjectileData[o + 1];
+      p.y = enemyProjectileData[o + 2];
+      p.prevX = fromOptional(enemyProjectileData[o + 3]);
+      p.prevY = fromOptional(enemyProjectileData[o + 4]);
+      p.width = enemyProjectileData[o + 5];
+      p.height = enemyProjectileData[o + 6];
+      p.attackPattern = enumValue(ATTACK_PATTERNS, enemyProjectileData[o + 7]) ?? 'STRAIGHT_DOWN';
+      p.isDelayed = enemyProjectileData[o + 8] === 1;
+      p.circleMode = enumValue(CIRCLE_MODES, enemyProjectileData[o + 9]);
+      p.orbitCenterX = fromOptional(enemyProjectileData[o + 10]);
+      p.orbitCenterY = fromOptional(enemyProjectileData[o + 11]);
+      p.orbitRadius = fromOptional(enemyProjectileData[o + 12]);
+      p.orbitAngle = fromOptional(enemyProjectileData[o + 13]);
+      p.orbitAccumulatedAngle = fromOptional(enemyProjectileData[o + 14]);
+      p.orbitDirection = fromOptional(enemyProjectileData[o + 15]) as EnemyProjectile['orbitDirection'];
+      p.circleGuideUntil = fromOptional(enemyProjectileData[o + 16]);
+    }
+
+    const itemData = snapshot.items;
+    const itemCount = itemData.length / ITEM_STRIDE;
+    resize(state.items, itemCount, () => ({ entityType: 'item' }) as Item);
+    for (let i = 0; i < itemCount; i++) {
+      const item = state.items[i];
+      const o = i * ITEM_STRIDE;
+      item.id = itemData[o];
+      item.x = itemData[o + 1];
+      item.y = itemData[o + 2];
+      item.prevX = fromOptional(itemData[o + 3]);
+      item.prevY = fromOptional(itemData[o + 4]);
+      item.width = itemData[o + 5];
+      item.height = itemData[o + 6];
+      item.type = enumValue(ITEM_TYPES, itemData[o + 7]) ?? 'BOMB';
+    }
+
+    const mineData = snapshot.mines;
+    const mineCount = mineData.length / MINE_STRIDE;
+    resize(state.mines, mineCount, () => ({ entityType: 'mine' }) as Mine);
+    for (let i = 0; i < mineCount; i++) {
+      const m = state.mines[i];
+      const o = i * MINE_STRIDE;
+      m.id = mineData[o];
+      m.x = mineData[o + 1];
+      m.y = mineData[o + 2];
+      m.width = mineData[o + 3];
+      m.height = mineData[o + 4];
+      m.createdAt = mineData[o + 5];
+    }
+
+    const explosionData = snapshot.explosions;
+    const explosionCount = explosionData.length / EXPLOSION_STRIDE;
+    resize(state.explosions, explosionCount, () => ({}) as Explosion);
+    for (let i = 0; i < explosionCount; i++) {
+      const ex = state.explosions[i];
+      const o = i * EXPLOSION_STRIDE;
+      ex.id = explosionData[o];
+      ex.x = explosionData[o + 1];
+      ex.y = explosionData[o + 2];
+      ex.size = explosionData[o + 3] === 1 ? 'large' : 'small';
+      ex.createdAt = explosionData[o + 4];
+    }
+
+    state.floatingTexts = snapshot.floatingTexts;
+  }
+}
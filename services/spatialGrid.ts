@@ -0,0 +1,77 @@
+// Spatial grid for collision optimization
+const GRID_MARK_PROP = '__gridMark' as const;
+
+class SpatialGrid {
+  private cellSize: number;
+  private cols: number;
+  private rows: number;
+  private grid: Set<any>[][];
+  private queryToken = 0;
+
+  constructor(width: number, height: number, cellSize = 64) {
+    this.cellSize = cellSize;
+    this.cols = Math.ceil(width / cellSize);
+    this.rows = Math.ceil(height / cellSize);
+    this.grid = [];
+    for (let row = 0; row < this.rows; row++) {
+      const rowSets: Set<any>[] = [];
+      for (let col = 0; col < this.cols; col++) {
+        rowSets[col] = new Set();
+      }
+      this.grid[row] = rowSets;
+    }
+  }
+
+  // Objects keep the token of the last query that saw them, so a restored session must carry on past it
+  snapshot(): number {
+    return this.queryToken;
+  }
+
+  restore(queryToken: number): void {
+    this.queryToken = queryToken;
+  }
+
+  clear(): void {
+    for (let row = 0; row < this.rows; row++) {
+      for (let col = 0; col < this.cols; col++) {
+        this.grid[row][col].clear();
+      }
+    }
+  }
+
+  insert(obj: any): void {
+    const minCol = Math.max(0, Math.floor(obj.x / this.cellSize));
+    const maxCol = Math.min(this.cols - 1, Math.floor((obj.x + obj.width) / this.cellSize));
+    const minRow = Math.max(0, Math.floor(obj.y / this.cellSize));
+    const maxRow = Math.min(this.rows - 1, Math.floor((obj.y + obj.height) / this.cellSize));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        this.grid[row][col].add(obj);
+      }
+    }
+  }
+
+  queryNearby(obj: any, result: any[] = []): any[] {
+    const token = ++this.queryToken;
+    result.length = 0;
+    const minCol = Math.max(0, Math.floor((obj.x - this.cellSize) / this.cellSize));
+    const maxCol = Math.min(this.cols - 1, Math.floor((obj.x + obj.width + this.cellSize) / this.cellSize));
+    const minRow = Math.max(0, Math.floor((obj.y - this.cellSize) / this.cellSize));
+    const maxRow = Math.min(this.rows - 1, Math.floor((obj.y + obj.height + this.cellSize) / this.cellSize));
+
+    for (let row = minRow; row <= maxRow; row++) {
+      for (let col = minCol; col <= maxCol; col++) {
+        const cell = this.grid[row][col];
+        for (const item of cell) {
+          if ((item as any)[GRID_MARK_PROP] === token) continue;
+          (item as any)[GRID_MARK_PROP] = token;
+          result.push(item);
+        }
+      }
+    }
+    return result;
+  }
+}
+
+export default SpatialGrid;
@@ -0,0 +1,85 @@
+import type { TextEncodingId } from '@/types';
+
+export const TEXT_ENCODING_LABELS: Record<TextEncodingId, string> = {
+  'utf-8': 'UTF-8',
+  shift_jis: 'Shift_JIS',
+  'euc-jp': 'EUC-JP',
+  'utf-16le': 'UTF-16 LE',
+  'utf-16be': 'UTF-16 BE',
+};
+
+// Candidates tried (in this order) when the bytes are not valid UTF-8
+const LEGACY_JAPANESE_ENCODINGS: TextEncodingId[] = ['shift_jis', 'euc-jp'];
+const japaneseCharRegex = /[\u3040-\u30FF\u4E00-\u9FFF]/g;
+// Half-width katakana and private-use code points are rare in real lyrics but common in mis-decoded text
+const unlikelyCharRegex = /[\uFF61-\uFF9F\uE000-\uF8FF\uFFFD]/g;
+
+function detectBom(bytes: Uint8Array): TextEncodingId | null {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+  return null;
+}
+
+// BOM-less UTF-16 text leaves a zero byte in every other slot for ASCII characters
+function detectUtf16(bytes: Uint8Array): TextEncodingId | null {
+  const sample = Math.min(bytes.length, 4096) & ~1;
+  if (sample < 4) return null;
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < sample; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+  const pairs = sample / 2;
+  if (oddZeros / pairs > 0.3 && evenZeros / pairs < 0.05) return 'utf-16le';
+  if (evenZeros / pairs > 0.3 && oddZeros / pairs < 0.05) return 'utf-16be';
+  return null;
+}
+
+function decodesStrictly(bytes: Uint8Array, encoding: TextEncodingId): string | null {
+  try {
+    return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+  } catch {
+    return null;
+  }
+}
+
+// Higher is more plausible: reward Japanese script, penalise characters typical of the wrong decoder
+function scoreJapaneseText(text: string): number {
+  const japanese = text.match(japaneseCharRegex)?.length ?? 0;
+  const unlikely = text.match(unlikelyCharRegex)?.length ?? 0;
+  return japanese - unlikely * 4;
+}
+
+export function detectTextEncoding(bytes: Uint8Array): TextEncodingId {
+  const byBom = detectBom(bytes) ?? detectUtf16(bytes);
+  if (byBom) return byBom;
+  if (decodesStrictly(bytes, 'utf-8') !== null) return 'utf-8';
+
+  let best: TextEncodingId = 'utf-8';
+  let bestScore = -Infinity;
+  for (const encoding of LEGACY_JAPANESE_ENCODINGS) {
+    const text = decodesStrictly(bytes, encoding);
+    if (text === null) continue;
+    const score = scoreJapaneseText(text);
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Decodes a lyrics file, auto-detecting the encoding unless one is forced.
+ * A matching BOM is stripped by TextDecoder itself.
+ */
+export async function readTextFile(
+  file: Blob,
+  encoding: TextEncodingId | 'auto' = 'auto'
+): Promise<{ text: string; encoding: TextEncodingId }> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const resolved = encoding === 'auto' ? detectTextEncoding(bytes) : encoding;
+  return { text: new TextDecoder(resolved).decode(bytes), encoding: resolved };
+}
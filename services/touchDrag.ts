@@ -0,0 +1,63 @@
+import type { PlayerInput } from '@/types';
+
+/**
+ * Relative-drag steering for touch screens. The ship is carried by the
+ * finger's movement since touchdown rather than jumping under it, and the
+ * simulation still moves it at ship speed: steer() hands the session the
+ * point the drag has carried it to, and the session re-aims at it every tick
+ * with steerAxis() so frames that run several ticks do not overshoot.
+ */
+class TouchDrag {
+  private pointerId: number | null = null;
+  private fingerStart = { x: 0, y: 0 };
+  private shipStart = { x: 0, y: 0 };
+  private finger = { x: 0, y: 0 };
+
+  get active(): boolean {
+    return this.pointerId !== null;
+  }
+
+  /** Positions are in playfield units. A second finger is ignored while one is dragging. */
+  start(pointerId: number, fingerX: number, fingerY: number, shipX: number, shipY: number): boolean {
+    if (this.pointerId !== null) return false;
+    this.pointerId = pointerId;
+    this.fingerStart = { x: fingerX, y: fingerY };
+    this.finger = { x: fingerX, y: fingerY };
+    this.shipStart = { x: shipX, y: shipY };
+    return true;
+  }
+
+  move(pointerId: number, fingerX: number, fingerY: number): void {
+    if (pointerId !== this.pointerId) return;
+    this.finger = { x: fingerX, y: fingerY };
+  }
+
+  end(pointerId: number): boolean {
+    if (pointerId !== this.pointerId) return false;
+    this.pointerId = null;
+    return true;
+  }
+
+  /** Heads for where the drag has carried the ship and fires while dragging. */
+  steer(): PlayerInput | null {
+    if (this.pointerId === null) return null;
+    return {
+      moveX: 0,
+      moveY: 0,
+      fire: true,
+      focus: false,
+      steerTo: {
+        x: this.shipStart.x + this.finger.x - this.fingerStart.x,
+        y: this.shipStart.y + this.finger.y - this.fingerStart.y,
+      },
+    };
+  }
+}
+
+/** The axis that closes `gap` within one tick where it can, full tilt where it cannot. */
+export function steerAxis(gap: number, distancePerTick: number): number {
+  if (distancePerTick <= 0) return 0;
+  return Math.max(-1, Math.min(1, gap / distancePerTick));
+}
+
+export default TouchDrag;
@@ -0,0 +1,25 @@
+import { getCookie, setCookie } from '@/services/cookies';
+import type { VolumeSettings } from '@/types';
+
+const MUSIC_VOLUME_COOKIE_KEY = 'LS_MUSIC_VOLUME';
+const EFFECTS_VOLUME_COOKIE_KEY = 'LS_EFFECTS_VOLUME';
+
+const clampVolume = (volume: number) => Math.max(0, Math.min(1, volume));
+
+function loadVolume(key: string): number {
+  const saved = getCookie(key);
+  const volume = saved === null ? NaN : Number(saved);
+  return Number.isFinite(volume) ? clampVolume(volume) : 1;
+}
+
+export function loadVolumeSettings(): VolumeSettings {
+  return {
+    music: loadVolume(MUSIC_VOLUME_COOKIE_KEY),
+    effects: loadVolume(EFFECTS_VOLUME_COOKIE_KEY),
+  };
+}
+
+export function saveVolumeSettings(settings: VolumeSettings): void {
+  setCookie(MUSIC_VOLUME_COOKIE_KEY, String(clampVolume(settings.music)), 365);
+  setCookie(EFFECTS_VOLUME_COOKIE_KEY, String(clampVolume(settings.effects)), 365);
+}
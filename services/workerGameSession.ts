@@ -0,0 +1,179 @@
+import GameConstants from '@/services/gameConstants';
+import {
+  createInitialState,
+  GameEndStatus,
+  GameSessionAudio,
+  GameSessionEffects,
+  GameSessionHandle,
+  GameSessionOptions,
+} from '@/services/gameSession';
+import { SimulationSnapshot, SnapshotDecoder } from '@/services/simulationSnapshot';
+import { encodeInput } from '@/services/replay';
+import { countLineEnemies } from '@/services/lrcParser';
+import { GameCheckpoint, GameState, GameStats, PlayerInput, ReplayActionType, ReplayRecording } from '@/types';
+
+// Options that can cross to the worker; audio, effects and onEnd stay on this side
+export type WorkerSessionOptions = Omit<GameSessionOptions, 'audio' | 'effects' | 'onEnd'> & { hasAudio: boolean };
+
+export type WorkerInputAction = Exclude<ReplayActionType, 'songEnd'> | 'pressSkip' | 'releaseSkip' | 'pressQuit' | 'releaseQuit' | 'resume';
+
+export type ToWorkerMessage =
+  | { type: 'start'; options: WorkerSessionOptions }
+  // One per UI frame: real time to advance to, held input, any touch target and where the song is
+  | { type: 'frame'; realNow: number; inputMask: number; steerTo?: PlayerInput['steerTo']; audioTime: number; audioEnded: boolean }
+  | { type: 'input'; action: WorkerInputAction }
+  | { type: 'checkpoint' };
+
+export type FromWorkerMessage =
+  | { type: 'snapshot'; snapshot: SimulationSnapshot }
+  | { type: 'audio'; command: 'seek'; time: number }
+  | { type: 'audio'; command: 'pause' }
+  | { type: 'effect'; effect: keyof GameSessionEffects; seconds?: number }
+  | { type: 'checkpoint'; checkpoint: GameCheckpoint | null }
+  | { type: 'end'; stats: GameStats; status: GameEndStatus; replay?: ReplayRecording };
+
+/**
+ * A GameSession running in a Web Worker. The UI thread keeps a mirror of the
+ * state, refreshed from the snapshot the worker posts after every frame, and
+ * sends back held input and the song position each frame. Rendering lags the
+ * simulation by at most one frame.
+ */
+class WorkerGameSession implements GameSessionHandle {
+  readonly state: GameState;
+  readonly clock = { now: 0, alpha: 0 };
+  readonly constants: GameConstants;
+  readonly totalEnemies: number;
+  readonly isReplay: boolean;
+  readonly prevPlayerPos: { x: number; y: number };
+  readonly itemSpawnMilestone = { current: 0 };
+
+  private readonly options: WorkerSessionOptions;
+  private readonly audio?: GameSessionAudio;
+  private readonly effects: GameSessionEffects;
+  private readonly onEnd?: GameSessionOptions['onEnd'];
+  private readonly decoder = new SnapshotDecoder();
+  private worker: Worker | null = null;
+  private input: PlayerInput = { moveX: 0, moveY: 0, fire: false, focus: false };
+  private ended = false;
+  // Resolvers for checkpoint requests; the worker answers them in order
+  private checkpointRequests: ((checkpoint: GameCheckpoint | null) => void)[] = [];
+
+  constructor(options: GameSessionOptions) {
+    const { audio, effects, onEnd, ...workerOptions } = options;
+    this.options = { ...workerOptions, hasAudio: Boolean(audio) };
+    this.audio = audio;
+    this.effects = effects ?? {};
+    this.onEnd = onEnd;
+    this.constants = GameConstants.forMode(options.superHardMode ? 'superHard' : 'normal', options.constants);
+    this.totalEnemies = options.lyrics.reduce((acc, line) => acc + countLineEnemies(line, options.spawnTokenMode ?? 'auto'), 0);
+    this.isReplay = Boolean(options.replay);
+    this.state = createInitialState(this.constants);
+    this.prevPlayerPos = { x: this.state.playerX, y: this.state.playerY };
+  }
+
+  get songProgressPercentage(): number {
+    const totalLines = this.options.lyrics.length;
+    return totalLines > 0 ? (this.state.currentLyricIndex / totalLines) * 100 : 0;
+  }
+
+  setInput(input: PlayerInput): void {
+    this.input = input;
+  }
+
+  queueAction(action: Exclude<ReplayActionType, 'songEnd'>): void {
+    this.post({ type: 'input', action });
+  }
+
+  pressSkip(): void {
+    this.post({ type: 'input', action: 'pressSkip' });
+  }
+
+  releaseSkip(): void {
+    this.post({ type: 'input', action: 'releaseSkip' });
+  }
+
+  pressQuit(): void {
+    this.post({ type: 'input', action: 'pressQuit' });
+  }
+
+  releaseQuit(): void {
+    this.post({ type: 'input', action: 'releaseQuit' });
+  }
+
+  /** Asks the worker to catch up to `realNow`. The resulting snapshot arrives asynchronously. */
+  advance(realNow: number): boolean {
+    if (this.ended) return false;
+    this.post({
+      type: 'frame',
+      realNow,
+      inputMask: encodeInput(this.input),
+      steerTo: this.input.steerTo,
+      audioTime: this.audio?.currentTime() ?? 0,
+      audioEnded: this.audio?.ended() ?? false,
+    });
+    return true;
+  }
+
+  resume(): void {
+    this.post({ type: 'input', action: 'resume' });
+  }
+
+  checkpoint(): Promise<GameCheckpoint | null> {
+    if (this.ended) return Promise.resolve(null);
+    return new Promise(resolve => {
+      this.checkpointRequests.push(resolve);
+      this.post({ type: 'checkpoint' });
+    });
+  }
+
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.checkpointRequests.splice(0).forEach(resolve => resolve(null));
+  }
+
+  // The worker starts on first use, so a mount/unmount/mount cycle never leaves a dead one behind
+  private post(message: ToWorkerMessage): void {
+    if (this.ended) return;
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<FromWorkerMessage>) => this.handleMessage(e.data);
+      this.worker.postMessage({ type: 'start', options: this.options } satisfies ToWorkerMessage);
+    }
+    this.worker.postMessage(message);
+  }
+
+  private handleMessage(message: FromWorkerMessage): void {
+    switch (message.type) {
+      case 'snapshot': {
+        const { snapshot } = message;
+        this.decoder.apply(this.state, snapshot);
+        this.clock.now = snapshot.now;
+        this.clock.alpha = snapshot.alpha;
+        this.prevPlayerPos.x = snapshot.prevPlayerX;
+        this.prevPlayerPos.y = snapshot.prevPlayerY;
+        this.itemSpawnMilestone.current = snapshot.itemSpawnMilestone;
+        break;
+      }
+      case 'audio':
+        if (message.command === 'seek') this.audio?.seek(message.time);
+        else this.audio?.pause();
+        break;
+      case 'effect':
+        if (message.effect === 'fadeOutBgm') this.effects.fadeOutBgm?.(message.seconds ?? 0);
+        else this.effects[message.effect]?.();
+        break;
+      case 'checkpoint':
+        this.checkpointRequests.shift()?.(message.checkpoint);
+        break;
+      case 'end':
+        this.ended = true;
+        this.state.isGameEnding = true;
+        this.dispose();
+        this.onEnd?.(message.stats, message.status, message.replay);
+        break;
+    }
+  }
+}
+
+export default WorkerGameSession;
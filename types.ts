@@ -1,6 +1,112 @@
+// Furigana over text[start, start + length)
+export interface LyricRuby {
+  start: number;
+  length: number;
+  reading: string;
+}
+
+export interface LyricWordTiming {
+  time: number;
+  text: string;
+  ruby?: LyricRuby[];
+}
+
 export interface LyricLine {
   time: number;
   text: string;
+  words?: LyricWordTiming[]; // Enhanced LRC (<mm:ss.xx>) inline timings
+  ruby?: LyricRuby[]; // Only on lines without words; word-timed lines keep ruby per word
+  secondary?: string; // Translation or romanization shown as a subtitle, never spawned
+}
+
+// Which text of a LyricLine spawns enemies
+export type LyricLanguage = 'original' | 'secondary';
+
+// One enemy's worth of lyric text and the song time (seconds) it is sung at
+export interface SpawnToken {
+  text: string;
+  time: number;
+  reading?: string;
+}
+
+// 'auto' picks 'word' for mostly-Latin lines and 'char' otherwise
+export type SpawnTokenMode = 'auto' | 'char' | 'word';
+
+// Where the gameplay RNG seed comes from: the lyrics (same chart every play), a fresh roll, or user input
+export type SeedMode = 'song' | 'random' | 'custom';
+
+// Difficulty mode; each one layers its own overrides on top of the default GameConstants
+export type GameMode = 'normal' | 'superHard';
+
+// How the playfield is drawn: one React element per entity, or a single canvas
+export type RendererMode = 'dom' | 'canvas';
+
+// Where GameSession runs: on the UI thread, or in a Web Worker that posts snapshots back
+export type SimulationMode = 'main' | 'worker';
+
+// One tick's held input, from whichever device; movement axes run -1..1
+export interface PlayerInput {
+  moveX: number;
+  moveY: number;
+  fire: boolean;
+  focus: boolean; // Slow, precise movement with a narrow shot spread
+  steerTo?: { x: number; y: number }; // Touch drag target; the session re-aims at it every tick on axes left at 0
+}
+
+// Everything a key or gamepad button can be bound to
+export type InputAction = 'up' | 'down' | 'left' | 'right' | 'fire' | 'focus' | 'special' | 'skip' | 'abort' | 'pause';
+
+// What each action is bound to: KeyboardEvent.code values and standard-layout gamepad button indices
+export interface ControlBindings {
+  keyboard: Record<InputAction, string[]>;
+  gamepad: Record<InputAction, number[]>;
+}
+
+// Music and sound effect levels from the pause menu settings, 0..1
+export interface VolumeSettings {
+  music: number;
+  effects: number;
+}
+
+// Whether an annotated kanji group spawns as itself (reading shown above) or as its kana reading
+export type RubySpawnMode = 'base' | 'reading';
+
+export interface LrcHeader {
+  title?: string;
+  artist?: string;
+  album?: string;
+  offset?: number; // ms; positive values make lyrics appear earlier
+  length?: number; // seconds
+}
+
+export interface LrcSkippedLine {
+  lineNumber: number; // 1-based
+  content: string;
+}
+
+export interface LrcParseResult {
+  header: LrcHeader;
+  lines: LyricLine[];
+  skipped: LrcSkippedLine[]; // non-blank lines that were neither lyrics nor header tags
+}
+
+export type LyricsFormatId = 'lrc' | 'srt' | 'vtt' | 'ttml';
+
+export interface ParsedLyrics extends LrcParseResult {
+  format: LyricsFormatId;
+}
+
+export type TextEncodingId = 'utf-8' | 'shift_jis' | 'euc-jp' | 'utf-16le' | 'utf-16be';
+
+export type LyricIssueType = 'nonMonotonic' | 'duplicate' | 'pastDuration' | 'largeGap';
+
+export interface LyricValidationIssue {
+  type: LyricIssueType;
+  lineIndex: number; // Index into the validated LyricLine[]
+  time: number;
+  text: string;
+  message: string;
+  fixable: boolean; // Whether autoFixLyrics resolves it
 }
 
 export type EntityType = 'enemy' | 'playerProjectile' | 'enemyProjectile' | 'item' | 'mine';
@@ -13,6 +119,9 @@ export interface GameObject {
   height: number;
   entityType: EntityType;
   __gridMark?: number;
+  // Position before the latest simulation tick, used to interpolate rendering between ticks
+  prevX?: number;
+  prevY?: number;
 }
 
 export interface PlayerSnapshot {
@@ -35,7 +144,8 @@ export type ShooterAttackPattern =
 export type EliteShooterType = 'MAGIC' | 'GATLING' | 'LANDMINE' | 'LASER' | 'CIRCLE';
 
 export interface Enemy extends GameObject {
-  char: string;
+  char: string; // Spawned token: a character, ruby base or whole word
+  reading?: string; // Furigana rendered above char
   speedY: number;
   movementPattern: MovementPattern;
   isShooter?: boolean;
@@ -114,6 +224,9 @@ export interface EnemyProjectile extends GameObject {
   orbitAngularSpeed?: number;
   orbitAccumulatedAngle?: number;
   orbitDirection?: 1 | -1;
+
+  // Set once the bullet has passed through the player's graze radius, so each bullet grazes only once
+  hasGrazed?: boolean;
 }
 
 export interface Mine extends GameObject {
@@ -153,7 +266,8 @@ export interface FloatingText {
 
 export interface PendingSpawn {
   time: number;
-  char: string;
+  token: string;
+  reading?: string;
   progress: number;
 }
 
@@ -168,6 +282,7 @@ export interface GameState {
   projectiles: Projectile[];
   enemyProjectiles: EnemyProjectile[];
   playerSpeedMultiplier: number;
+  isFocused: boolean;
   projectileSpeedMultiplier: number;
   speedUpCount: number;
   hasDiagonalShot: boolean;
@@ -188,6 +303,13 @@ export interface GameState {
   explosions: Explosion[];
   floatingTexts: FloatingText[];
   score: number;
+  combo: number;
+  maxCombo: number;
+  comboExpiresAt: number;
+  scoreMultiplier: number;
+  onBeatKills: number;
+  grazeCount: number;
+  grazeCharge: number;
   enemiesDefeated: number;
   itemsCollected: Partial<Record<ItemType, number>>;
   currentLyricIndex: number;
@@ -213,7 +335,50 @@ export interface GameState {
   pendingSpawnCursor: number;
 }
 
-export type GameStatus = 'loading' | 'ready' | 'playing' | 'gameOver' | 'cleared';
+export type ReplayActionType = 'special' | 'skip' | 'songEnd';
+
+// One run as seen by the simulation; ticks count SimulationClock steps since the game mounted
+export interface ReplayRecording {
+  version: number;
+  seed: number;
+  lyricsHash: number; // hashLyricsSeed of the lines played, to match a replay to its song
+  superHardMode: boolean;
+  initialItem?: ItemType;
+  spawnTokenMode: SpawnTokenMode;
+  inputs: [number, number][]; // [tick, held-key bitmask], only when the mask changes
+  actions: [number, ReplayActionType][];
+  lyricTriggers: [number, number][]; // [tick, audio time in seconds] for each lyric line fired
+  finalScore: number;
+}
+
+// Everything a session carries from one tick to the next besides its options
+export interface SessionSnapshot {
+  state: GameState;
+  randomState: number;
+  nextId: number;
+  lastFireTime: number;
+  itemSpawnMilestone: number;
+  beats: number[]; // Pending on-beat times (ms) in the score manager
+  gridQueryToken: number;
+}
+
+// A point a run can restart from: the session as it stood when a lyric line fired, plus the
+// recording up to there so the finished replay still covers the whole run
+export interface GameCheckpoint {
+  recording: ReplayRecording;
+  tick: number;
+  audioTime: number; // Song position when the line fired
+  snapshot: SessionSnapshot; // The session at the end of `tick`
+}
+
+// A saved replay file: the recording plus the READY-screen choices that shaped the lyrics
+export interface ReplayData extends ReplayRecording {
+  songTitle?: string;
+  lyricLanguage: LyricLanguage;
+  rubySpawnMode: RubySpawnMode;
+}
+
+export type GameStatus = 'loading' | 'ready' | 'editing' | 'calibrating' | 'controls' | 'playing' | 'gameOver' | 'cleared';
 
 export interface GameStats {
   score: number;
@@ -221,6 +386,10 @@ export interface GameStats {
   totalEnemies: number;
   itemsCollected: Partial<Record<ItemType, number>>;
   songProgressPercentage: number;
+  seed: number; // RNG seed the run was played with
+  maxCombo: number;
+  onBeatKills: number;
+  grazes: number;
 }
 
 export interface SongMetadata {